@@ -0,0 +1,351 @@
+// src/attachments.ts
+// Attachment downloads: streaming to disk, size and media-type filters, collision-safe names
+// and a content-addressed store that keeps one copy of identical files across pages
+
+import fs from "node:fs/promises";
+import { createWriteStream } from "node:fs";
+import path from "node:path";
+import { createHash, randomUUID } from "node:crypto";
+import { Readable, Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { sanitizeFilename } from "./fs-utils.ts";
+import { runWithConcurrency } from "./pool.ts";
+import { confluenceRequest, fetchDirectly } from "./transport.ts";
+import { createLogger } from "./logger.ts";
+
+const log = createLogger("Attachments");
+
+interface ConfluenceAttachment {
+  id: string;
+  title: string;
+  container?: {
+    id: string;
+  };
+  version?: {
+    number: number;
+  };
+  metadata?: {
+    mediaType: string;
+  };
+  extensions?: {
+    mediaType?: string;
+    fileSize?: number;
+  };
+  _links?: {
+    // Relative to the /wiki context path and already encoded
+    download?: string;
+  };
+}
+
+interface AttachmentFilter {
+  // Largest file to download, in bytes or with a KB/MB/GB suffix
+  maxSize?: number | string;
+  // Media types to download, e.g. "application/pdf" or "image/*"; everything when empty
+  include?: string[];
+  // Media types never to download; wins over include
+  exclude?: string[];
+}
+
+interface AttachmentRecord {
+  id: string;
+  title: string;
+  mediaType: string;
+  fileSize: number | null;
+  version: number | null;
+  // downloaded: fetched in this run; unchanged: same version as last run, served from the store;
+  // skipped: left out by the filter; failed: download error; listed: attachments not requested
+  status: "downloaded" | "unchanged" | "skipped" | "failed" | "listed";
+  // File name inside the page's attachments directory
+  file: string | null;
+  sha256: string | null;
+  // The same content was already in the store, from another page or an earlier run
+  deduplicated?: boolean;
+  reason?: string;
+  // Set once text extraction ran: the extractor used and what it produced, or its error
+  text?: { extractor: string; characters: number; chunks: number } | { extractor: string; error: string };
+}
+
+class AttachmentTooLargeError extends Error {
+  constructor(title: string, maxSize: number) {
+    super(`${title} is larger than ${maxSize} bytes`);
+    this.name = "AttachmentTooLargeError";
+  }
+}
+
+const SIZE_UNITS: Record<string, number> = { "": 1, b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+// "1048576", "512KB", "10 MB" -> bytes
+function parseByteSize(value: number | string): number {
+  if (typeof value === "number" && Number.isInteger(value) && value >= 0) return value;
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([kmg]?b?)\s*$/i.exec(String(value));
+  const unit = match ? SIZE_UNITS[(match[2] as string).toLowerCase()] : undefined;
+  if (!match || unit === undefined) {
+    throw new Error(`Invalid attachment size: ${value} (expected bytes or a number with KB, MB or GB)`);
+  }
+  return Math.floor(parseFloat(match[1] as string) * unit);
+}
+
+function splitTypes(value: string | undefined): string[] {
+  return (value || "").split(",").map((type) => type.trim().toLowerCase()).filter(Boolean);
+}
+
+// The filter to apply, from the options or CONFLUENCE_ATTACHMENT_MAX_SIZE /
+// CONFLUENCE_ATTACHMENT_INCLUDE_TYPES / CONFLUENCE_ATTACHMENT_EXCLUDE_TYPES.
+// Returns null when nothing would be filtered.
+function resolveAttachmentFilter(filter?: AttachmentFilter): { maxSize?: number; include: string[]; exclude: string[] } | null {
+  const maxSize = filter?.maxSize ?? (process.env.CONFLUENCE_ATTACHMENT_MAX_SIZE || undefined);
+  const include = (filter?.include ?? splitTypes(process.env.CONFLUENCE_ATTACHMENT_INCLUDE_TYPES)).map((type) => type.toLowerCase());
+  const exclude = (filter?.exclude ?? splitTypes(process.env.CONFLUENCE_ATTACHMENT_EXCLUDE_TYPES)).map((type) => type.toLowerCase());
+  if (maxSize === undefined && include.length === 0 && exclude.length === 0) return null;
+  return { maxSize: maxSize === undefined ? undefined : parseByteSize(maxSize), include, exclude };
+}
+
+function attachmentMediaType(attachment: ConfluenceAttachment): string {
+  return attachment.extensions?.mediaType || attachment.metadata?.mediaType || "application/octet-stream";
+}
+
+// "image/*" matches every image type; parameters such as "; charset=utf-8" are ignored
+function matchesMediaType(mediaType: string, patterns: string[]): boolean {
+  const type = (mediaType.split(";")[0] as string).trim().toLowerCase();
+  return patterns.some((pattern) =>
+    pattern.endsWith("/*") ? type.startsWith(pattern.slice(0, -1)) : type === pattern,
+  );
+}
+
+// Why the filter leaves an attachment out, or null when it should be downloaded
+function attachmentSkipReason(
+  attachment: ConfluenceAttachment,
+  filter: ReturnType<typeof resolveAttachmentFilter>,
+): string | null {
+  if (!filter) return null;
+  const mediaType = attachmentMediaType(attachment);
+  if (matchesMediaType(mediaType, filter.exclude)) return `media type ${mediaType} is excluded`;
+  if (filter.include.length > 0 && !matchesMediaType(mediaType, filter.include)) {
+    return `media type ${mediaType} is not included`;
+  }
+  const size = attachment.extensions?.fileSize;
+  if (filter.maxSize !== undefined && size !== undefined && size > filter.maxSize) {
+    return `${size} bytes exceeds the ${filter.maxSize} byte limit`;
+  }
+  return null;
+}
+
+// Attachments sharing a sanitized title would overwrite each other. The first keeps the plain
+// name, later ones get the attachment id before the extension. Names are compared
+// case-insensitively so the result is the same on case-insensitive file systems.
+function createAttachmentNamer(): (attachment: { id: string; title: string }) => string {
+  const claimed = new Map<string, string>();
+
+  return (attachment) => {
+    const name = sanitizeFilename(attachment.title) || attachment.id;
+    const key = name.toLowerCase();
+    const owner = claimed.get(key);
+    if (!owner || owner === attachment.id) {
+      claimed.set(key, attachment.id);
+      return name;
+    }
+    const extension = path.extname(name);
+    return `${name.slice(0, name.length - extension.length)}-${attachment.id}${extension}`;
+  };
+}
+
+// The download link from the listing, falling back to one built from the container and title
+function attachmentDownloadPath(attachment: ConfluenceAttachment): string {
+  if (attachment._links?.download) return attachment._links.download;
+  if (!attachment.container?.id) {
+    throw new Error(`Attachment ${attachment.id} has neither a download link nor a container`);
+  }
+  return `/download/attachments/${attachment.container.id}/${encodeURIComponent(attachment.title)}`;
+}
+
+// Stream an attachment to filePath, hashing it on the way. The file only appears once complete;
+// a failed or oversized download leaves nothing behind.
+async function streamAttachment(
+  attachment: ConfluenceAttachment,
+  filePath: string,
+  maxSize?: number,
+): Promise<{ sha256: string; size: number }> {
+  const response = await confluenceRequest(attachmentDownloadPath(attachment), { headers: { Accept: "*/*" } });
+  if (!response.ok) {
+    throw new Error(`Failed to download attachment: ${response.status} - ${response.statusText}`);
+  }
+  const declaredSize = parseInt(response.headers?.get("content-length") || "", 10);
+  if (maxSize !== undefined && declaredSize > maxSize) {
+    await response.body?.cancel();
+    throw new AttachmentTooLargeError(attachment.title, maxSize);
+  }
+  if (!response.body) {
+    throw new Error(`Empty response body for attachment ${attachment.id}`);
+  }
+
+  const hash = createHash("sha256");
+  let size = 0;
+  const meter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (maxSize !== undefined && size > maxSize) {
+        callback(new AttachmentTooLargeError(attachment.title, maxSize));
+        return;
+      }
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+
+  const partialPath = `${filePath}.${randomUUID()}.part`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  try {
+    await pipeline(Readable.fromWeb(response.body as NodeReadableStream), meter, createWriteStream(partialPath));
+    await fs.rename(partialPath, filePath);
+  } catch (error) {
+    await fs.rm(partialPath, { force: true });
+    throw error;
+  }
+  return { sha256: hash.digest("hex"), size };
+}
+
+// Download a single attachment into targetDir and return its path, or null on failure.
+// Pass the attachment from a listing to avoid a metadata request per download.
+async function downloadAttachment(
+  client: any,
+  attachment: string | ConfluenceAttachment,
+  targetDir: string,
+  filename?: string,
+): Promise<string | null> {
+  const attachmentId = typeof attachment === "string" ? attachment : attachment.id;
+  try {
+    const details = typeof attachment === "string"
+      ? await fetchDirectly(`/content/${attachment}?expand=version,container`) as ConfluenceAttachment
+      : attachment;
+    const filePath = path.join(targetDir, filename || sanitizeFilename(details.title));
+    await streamAttachment(details, filePath);
+
+    log.debug(`Downloaded attachment: ${path.basename(filePath)}`);
+    return filePath;
+  } catch (error) {
+    log.error(`Error downloading attachment ${attachmentId}`, { error });
+    return null;
+  }
+}
+
+function storeObjectPath(storeDir: string, sha256: string): string {
+  return path.join(storeDir, sha256.slice(0, 2), sha256);
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Hard-link the stored copy into the page, copying where links are not supported
+async function placeFromStore(objectPath: string, filePath: string): Promise<void> {
+  await fs.rm(filePath, { force: true });
+  try {
+    await fs.link(objectPath, filePath);
+  } catch {
+    await fs.copyFile(objectPath, filePath);
+  }
+}
+
+interface PageAttachmentOptions {
+  // Content-addressed store shared by every page of the output directory
+  storeDir: string;
+  concurrency: number;
+  filter?: AttachmentFilter;
+  // Records from the page's previous metadata.json: attachments whose version did not move
+  // are placed from the store without downloading them again
+  previous?: AttachmentRecord[];
+}
+
+// Download a page's attachments into attachmentsDir, which is rebuilt from scratch so removed
+// attachments do not linger. Every file lives once in the store, keyed by its SHA-256, and
+// pages get hard links to it. Failures are recorded per attachment rather than thrown.
+async function downloadPageAttachments(
+  attachments: ConfluenceAttachment[],
+  attachmentsDir: string,
+  options: PageAttachmentOptions,
+): Promise<AttachmentRecord[]> {
+  const filter = resolveAttachmentFilter(options.filter);
+  const nameFor = createAttachmentNamer();
+  const previous = new Map((options.previous || []).map((record) => [record.id, record]));
+  const records = attachments.map((attachment) => describeAttachment(attachment, "listed"));
+
+  await fs.rm(attachmentsDir, { recursive: true, force: true });
+  await fs.mkdir(attachmentsDir, { recursive: true });
+
+  await runWithConcurrency(attachments, options.concurrency, async (attachment, index) => {
+    const record = records[index] as AttachmentRecord;
+    const reason = attachmentSkipReason(attachment, filter);
+    if (reason) {
+      log.info(`Skipping "${attachment.title}" (${attachment.id}): ${reason}`);
+      Object.assign(record, { status: "skipped", reason });
+      return;
+    }
+
+    const file = nameFor(attachment);
+    const filePath = path.join(attachmentsDir, file);
+    try {
+      const last = previous.get(attachment.id);
+      if (last?.sha256 && last.version === record.version && record.version !== null &&
+          await fileExists(storeObjectPath(options.storeDir, last.sha256))) {
+        await placeFromStore(storeObjectPath(options.storeDir, last.sha256), filePath);
+        Object.assign(record, { status: "unchanged", file, sha256: last.sha256 });
+        return;
+      }
+
+      const tmpPath = path.join(options.storeDir, "tmp", randomUUID());
+      const { sha256, size } = await streamAttachment(attachment, tmpPath, filter?.maxSize);
+      const objectPath = storeObjectPath(options.storeDir, sha256);
+      const deduplicated = await fileExists(objectPath);
+      if (deduplicated) {
+        await fs.rm(tmpPath, { force: true });
+      } else {
+        await fs.mkdir(path.dirname(objectPath), { recursive: true });
+        await fs.rename(tmpPath, objectPath);
+      }
+      await placeFromStore(objectPath, filePath);
+      Object.assign(record, { status: "downloaded", file, sha256, fileSize: size, ...(deduplicated ? { deduplicated } : {}) });
+      log.debug(`Downloaded attachment: ${file}${deduplicated ? " (duplicate content)" : ""}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof AttachmentTooLargeError) {
+        log.info(`Skipping "${attachment.title}" (${attachment.id}): ${message}`);
+        Object.assign(record, { status: "skipped", reason: message });
+      } else {
+        log.error(`Error downloading attachment ${attachment.id}`, { error: message });
+        Object.assign(record, { status: "failed", reason: message });
+      }
+    }
+  });
+
+  return records;
+}
+
+function describeAttachment(attachment: ConfluenceAttachment, status: AttachmentRecord["status"]): AttachmentRecord {
+  return {
+    id: attachment.id,
+    title: attachment.title,
+    mediaType: attachmentMediaType(attachment),
+    fileSize: attachment.extensions?.fileSize ?? null,
+    version: attachment.version?.number ?? null,
+    status,
+    file: null,
+    sha256: null,
+  };
+}
+
+export type { ConfluenceAttachment, AttachmentFilter, AttachmentRecord };
+export {
+  parseByteSize,
+  resolveAttachmentFilter,
+  attachmentSkipReason,
+  createAttachmentNamer,
+  downloadAttachment,
+  downloadPageAttachments,
+  describeAttachment,
+};
@@ -0,0 +1,302 @@
+// src/chunking.ts
+// Token-aware chunking of section text with pluggable strategies and tokenizers
+
+import { getEncoding } from "js-tiktoken";
+import type { Tiktoken } from "js-tiktoken";
+
+interface ChunkingOptions {
+  // Name of a registered strategy ("token" or "paragraph" out of the box)
+  strategy?: string;
+  // Size chunks are packed up to
+  targetTokens?: number;
+  // Hard limit no chunk may exceed
+  maxTokens?: number;
+  // Tokens repeated from the end of the previous chunk, in whole sentences
+  overlapTokens?: number;
+  // Name of a registered tokenizer that sizes are counted with ("cl100k_base" by default)
+  tokenizer?: string;
+}
+
+type ResolvedChunkingOptions = Required<ChunkingOptions>;
+
+// A strategy turns the text blocks of one section into chunk texts
+type ChunkingStrategy = (blocks: string[], options: ResolvedChunkingOptions) => string[];
+
+// Number of tokens a text costs the embedding model. A tokenizer may also cut a word that is
+// over the limit into pieces of at most maxTokens; without split the cut is searched for.
+type Tokenizer = ((text: string) => number) & { split?: (word: string, maxTokens: number) => string[] };
+
+interface Unit {
+  text: string;
+  tokens: number;
+  // Blocks are joined by blank lines, sentences of the same block by a space
+  startsBlock: boolean;
+}
+
+const strategies = new Map<string, ChunkingStrategy>();
+const tokenizers = new Map<string, Tokenizer>();
+
+const DEFAULT_TOKENIZER = "cl100k_base";
+
+// Scripts without spaces between words are roughly one token per character
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const TOKEN_PIECE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{M}]+|\p{N}+|[^\s\p{L}\p{M}\p{N}]/gu;
+
+// Approximation of BPE tokenizers without a vocabulary, meant to err on the high side: a word
+// costs one token per four letters, digits one per three, and every symbol one token. It is
+// not exact, so leave headroom below the model's limit when chunking with it.
+function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(TOKEN_PIECE)) {
+    if (CJK_CHAR.test(piece)) tokens += 1;
+    else if (/^\p{N}/u.test(piece)) tokens += Math.ceil(piece.length / 3);
+    else if (/^[\p{L}\p{M}]/u.test(piece)) tokens += Math.ceil(piece.length / 4);
+    else tokens += 1;
+  }
+  return tokens;
+}
+
+// BPE tokenizer of the OpenAI embedding models, built on first use
+function bpeTokenizer(encoding: "cl100k_base" | "o200k_base"): Tokenizer {
+  let encoder: Tiktoken | null = null;
+  const count = (text: string) => {
+    encoder ??= getEncoding(encoding);
+    return text ? encoder.encode(text, [], []).length : 0;
+  };
+  // Encode the word once and decode it back in slices of maxTokens. A slice that ends inside a
+  // multibyte character, or that encodes to more tokens on its own, is shortened by one token;
+  // when even one token is not a whole character it is lengthened instead.
+  const split = (word: string, maxTokens: number) => {
+    encoder ??= getEncoding(encoding);
+    const tokens = encoder.encode(word, [], []);
+    const pieces: string[] = [];
+    let offset = 0;
+    for (let start = 0; start < tokens.length; ) {
+      const decode = (end: number, limit: number) => {
+        const piece = encoder!.decode(tokens.slice(start, end));
+        return word.startsWith(piece, offset) && count(piece) <= limit ? piece : null;
+      };
+      let end = Math.min(start + Math.max(1, maxTokens), tokens.length);
+      let piece = decode(end, maxTokens);
+      while (piece === null && end > start + 1) piece = decode(--end, maxTokens);
+      while (piece === null && end < tokens.length) piece = decode(++end, Infinity);
+      piece ??= word.slice(offset);
+      pieces.push(piece);
+      offset += piece.length;
+      start = end;
+    }
+    return pieces;
+  };
+  return Object.assign(count, { split });
+}
+
+function registerTokenizer(name: string, tokenizer: Tokenizer): void {
+  tokenizers.set(name, tokenizer);
+}
+
+registerTokenizer("cl100k_base", bpeTokenizer("cl100k_base"));
+registerTokenizer("o200k_base", bpeTokenizer("o200k_base"));
+registerTokenizer("estimate", estimateTokens);
+
+function getTokenizer(name: string): Tokenizer {
+  const tokenizer = tokenizers.get(name);
+  if (!tokenizer) {
+    throw new Error(`Unknown tokenizer: ${name} (available: ${[...tokenizers.keys()].join(", ")})`);
+  }
+  return tokenizer;
+}
+
+// Tokens in a text with the named tokenizer, by default the one CONFLUENCE_CHUNK_TOKENIZER names
+function countTokens(text: string, tokenizer: string = process.env.CONFLUENCE_CHUNK_TOKENIZER || DEFAULT_TOKENIZER): number {
+  return getTokenizer(tokenizer)(text);
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?。！？])\s+|\n+/u)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+// Last resort for text with no usable sentence boundary: split between words, and inside
+// a word only when the word alone is over the limit
+function hardSplit(text: string, maxTokens: number, countTokens: Tokenizer): string[] {
+  const pieces: string[] = [];
+  let current = "";
+
+  // Cut an oversized word (a base64 blob, a minified line) into the longest pieces that fit,
+  // with the tokenizer's own split when it has one. Otherwise each cut is found by doubling a
+  // window and then bisecting it, so a word costs a number of tokenizer calls logarithmic in
+  // the piece size rather than one per character.
+  const pushWord = (word: string) => {
+    if (countTokens.split) {
+      pieces.push(...countTokens.split(word, maxTokens));
+      return;
+    }
+    const chars = [...word];
+    const fits = (start: number, end: number) => countTokens(chars.slice(start, end).join("")) <= maxTokens;
+    let start = 0;
+    while (start < chars.length) {
+      // At least one character per piece, even one that alone is over the limit
+      let fit = start + 1;
+      let over = -1;
+      for (let size = Math.max(1, maxTokens); ; size *= 2) {
+        const end = Math.min(start + size, chars.length);
+        if (!fits(start, end)) {
+          over = end;
+          break;
+        }
+        fit = end;
+        if (end === chars.length) break;
+      }
+      while (over - fit > 1) {
+        const middle = Math.floor((fit + over) / 2);
+        if (fits(start, middle)) fit = middle;
+        else over = middle;
+      }
+      pieces.push(chars.slice(start, fit).join(""));
+      start = fit;
+    }
+  };
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (countTokens(candidate) <= maxTokens) {
+      current = candidate;
+    } else {
+      if (current) pieces.push(current);
+      current = "";
+      if (countTokens(word) <= maxTokens) current = word;
+      else pushWord(word);
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// Break blocks into units no larger than `limit`, preferring sentence boundaries
+function toUnits(blocks: string[], limit: number, maxTokens: number, countTokens: Tokenizer): Unit[] {
+  const units: Unit[] = [];
+  for (const block of blocks) {
+    const text = block.trim();
+    if (!text) continue;
+
+    const tokens = countTokens(text);
+    if (tokens <= limit) {
+      units.push({ text, tokens, startsBlock: true });
+      continue;
+    }
+    let first = true;
+    for (const sentence of splitSentences(text)) {
+      const parts = countTokens(sentence) <= maxTokens ? [sentence] : hardSplit(sentence, maxTokens, countTokens);
+      for (const part of parts) {
+        units.push({ text: part, tokens: countTokens(part), startsBlock: first });
+        first = false;
+      }
+    }
+  }
+  return units;
+}
+
+function joinUnits(units: Unit[]): string {
+  return units
+    .map((unit, i) => (i === 0 ? unit.text : `${unit.startsBlock ? "\n\n" : " "}${unit.text}`))
+    .join("");
+}
+
+function sumTokens(units: Unit[]): number {
+  return units.reduce((total, unit) => total + unit.tokens, 0);
+}
+
+// Pack blocks up to the target size, carrying trailing sentences over as overlap
+const tokenStrategy: ChunkingStrategy = (blocks, options) => {
+  const units = toUnits(blocks, options.targetTokens, options.maxTokens, getTokenizer(options.tokenizer));
+  const chunks: string[] = [];
+  let current: Unit[] = [];
+  let fresh = 0;
+
+  for (const unit of units) {
+    if (fresh > 0 && sumTokens(current) + unit.tokens > options.targetTokens) {
+      chunks.push(joinUnits(current));
+
+      const overlap: Unit[] = [];
+      for (let i = current.length - 1; i >= 0; i--) {
+        const candidate = current[i] as Unit;
+        if (sumTokens(overlap) + candidate.tokens > options.overlapTokens) break;
+        overlap.unshift(candidate);
+      }
+      current = sumTokens(overlap) + unit.tokens <= options.maxTokens ? overlap : [];
+      fresh = 0;
+    }
+    current.push(unit);
+    fresh++;
+  }
+  if (fresh > 0) chunks.push(joinUnits(current));
+
+  return chunks;
+};
+
+// One chunk per block, splitting only blocks that are over the limit
+const paragraphStrategy: ChunkingStrategy = (blocks, options) => {
+  const chunks: string[] = [];
+  for (const block of blocks) {
+    const text = block.trim();
+    if (!text) continue;
+    if (countTokens(text, options.tokenizer) <= options.maxTokens) {
+      chunks.push(text);
+    } else {
+      chunks.push(...tokenStrategy([text], { ...options, targetTokens: options.maxTokens, overlapTokens: 0 }));
+    }
+  }
+  return chunks;
+};
+
+function registerChunkingStrategy(name: string, strategy: ChunkingStrategy): void {
+  strategies.set(name, strategy);
+}
+
+registerChunkingStrategy("token", tokenStrategy);
+registerChunkingStrategy("paragraph", paragraphStrategy);
+
+function readTokenSetting(name: string, fallback: number, minimum: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value >= minimum ? value : fallback;
+}
+
+// Explicit options win over CONFLUENCE_CHUNK_* environment variables
+function resolveChunkingOptions(options: ChunkingOptions = {}): ResolvedChunkingOptions {
+  const strategy = options.strategy || process.env.CONFLUENCE_CHUNK_STRATEGY || "token";
+  if (!strategies.has(strategy)) {
+    throw new Error(`Unknown chunking strategy: ${strategy} (available: ${[...strategies.keys()].join(", ")})`);
+  }
+
+  const maxTokens = options.maxTokens ?? readTokenSetting("CONFLUENCE_CHUNK_MAX_TOKENS", 512, 1);
+  const targetTokens = Math.min(
+    options.targetTokens ?? readTokenSetting("CONFLUENCE_CHUNK_TARGET_TOKENS", 300, 1),
+    maxTokens,
+  );
+  const overlapTokens = Math.min(
+    options.overlapTokens ?? readTokenSetting("CONFLUENCE_CHUNK_OVERLAP_TOKENS", 40, 0),
+    targetTokens - 1,
+  );
+  if (maxTokens < 1 || targetTokens < 1) {
+    throw new Error("Chunk sizes must be at least 1 token");
+  }
+  const tokenizer = options.tokenizer || process.env.CONFLUENCE_CHUNK_TOKENIZER || DEFAULT_TOKENIZER;
+  getTokenizer(tokenizer);
+
+  return { strategy, maxTokens, targetTokens, overlapTokens: Math.max(0, overlapTokens), tokenizer };
+}
+
+// Chunk the blocks of one section; every chunk returned fits within maxTokens as counted by
+// the configured tokenizer
+function chunkBlocks(blocks: string[], options: ResolvedChunkingOptions): string[] {
+  const strategy = strategies.get(options.strategy) as ChunkingStrategy;
+  const count = getTokenizer(options.tokenizer);
+  return strategy(blocks, options).flatMap((chunk) =>
+    count(chunk) <= options.maxTokens ? [chunk] : hardSplit(chunk, options.maxTokens, count),
+  );
+}
+
+export type { ChunkingOptions, ResolvedChunkingOptions, ChunkingStrategy, Tokenizer };
+export { countTokens, estimateTokens, splitSentences, chunkBlocks, resolveChunkingOptions, registerChunkingStrategy, registerTokenizer };
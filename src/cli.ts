@@ -0,0 +1,511 @@
+// src/cli.ts
+// Command line interface: scrape, search, sync and validate, with flags overriding env vars
+
+import { parseArgs } from "node:util";
+import {
+  OUTPUT_FORMATS,
+  createConfluenceClient,
+  scrapePage,
+  scrapeQuery,
+  scrapeSpace,
+  testDirectFetch,
+  validateConfiguration,
+} from "./index.ts";
+import type { ScrapeOptions } from "./index.ts";
+import { parseByteSize } from "./attachments.ts";
+import { parseHistoryDate } from "./history.ts";
+import { CQL_CONTENT_TYPES, buildCql } from "./cql.ts";
+import type { CqlContentType, CqlQuery } from "./cql.ts";
+import { JobFileError, loadJobFile, runJob } from "./job.ts";
+import { LOG_FORMATS, LOG_LEVELS, createLogger, parseLogFormat, parseLogLevel } from "./logger.ts";
+import { iterateSearchResults } from "./pagination.ts";
+import { closeSinks, createSinksFromEnv } from "./sinks.ts";
+import { syncSpace } from "./sync.ts";
+import type { DeletionMode } from "./sync.ts";
+import { scrapePageTree } from "./tree.ts";
+
+// Exit codes: partial failures are distinguishable from total ones and from bad invocations
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_PARTIAL = 2;
+const EXIT_USAGE = 64;
+
+const log = createLogger("CLI");
+
+// Built on demand: src/index.ts imports this module, so its values are not ready at load time
+function usage(): string {
+  return `Usage: confluence-scraper <command> [options]
+
+Commands:
+  scrape page <id>       Scrape a single page
+  scrape space <key>     Scrape every page in a space
+  scrape tree <id>       Scrape a page and its descendants into nested directories
+  scrape query [cql]     Scrape every page matching a CQL query and/or the query flags
+  search [cql]           List pages matching a CQL query and/or the query flags
+  sync <key>             Incrementally sync a space (only changed pages are fetched)
+  run <job-file>         Run every target listed in a JSON or YAML job file
+  validate [job-file]    Check configuration and API access, and the job file if given
+
+Options:
+  -o, --output <dir>             Output directory (default: ./output, or the job file's)
+      --format <list>            Comma-separated outputs: ${OUTPUT_FORMATS.join(", ")} (default: all)
+  -c, --concurrency <n>          Pages scraped in parallel (CONFLUENCE_PAGE_CONCURRENCY)
+      --attachment-concurrency <n>
+                                 Attachment downloads per page (CONFLUENCE_ATTACHMENT_CONCURRENCY)
+      --attachment-max-size <size>
+                                 Skip larger attachments, e.g. 25MB (CONFLUENCE_ATTACHMENT_MAX_SIZE)
+      --attachment-types <list>  Only download these media types, e.g. image/*,application/pdf
+                                 (CONFLUENCE_ATTACHMENT_INCLUDE_TYPES)
+      --exclude-attachment-types <list>
+                                 Never download these media types (CONFLUENCE_ATTACHMENT_EXCLUDE_TYPES)
+      --max-depth <n>            scrape tree: levels below the root to include
+      --delete-mode <mode>       sync: tombstone or remove (CONFLUENCE_SYNC_DELETE_MODE)
+      --limit <n>                search, scrape query: maximum number of results (search default: 50)
+      --json                     search: print results as JSON
+      --page <id>                validate: page to probe (CONFLUENCE_PAGE_ID)
+      --space <key>              validate: space to probe, sync: space to sync (CONFLUENCE_SPACE_KEY)
+
+Query flags (search, scrape query; combined with "and", values are escaped):
+      --text <text>              Full-text match
+      --space <keys>             Comma-separated space keys
+      --label <labels>           Pages with any of these labels (also filters scrape space/tree and sync)
+      --exclude-label <labels>   Pages with none of these labels (also filters scrape space/tree and sync)
+      --type <types>             page, blogpost, comment or attachment
+      --ancestor <id>            Descendants of this page
+      --modified-after <date>    yyyy-MM-dd or "yyyy-MM-dd HH:mm"
+      --modified-before <date>   yyyy-MM-dd or "yyyy-MM-dd HH:mm"
+      --creator <account-id>     Account id, or currentUser()
+
+Connection and authentication (override the matching environment variables):
+      --host <url>               CONFLUENCE_HOST
+      --auth <method>            AUTH_METHOD: basic, oauth2, jwt or pat
+      --email <email>            CONFLUENCE_EMAIL
+      --api-token <token>        CONFLUENCE_API_TOKEN
+      --access-token <token>     CONFLUENCE_ACCESS_TOKEN
+      --pat <token>              CONFLUENCE_PAT
+      --jwt-issuer <key>         CONFLUENCE_JWT_ISSUER
+      --jwt-secret <secret>      CONFLUENCE_JWT_SECRET
+
+Pipeline (override the matching environment variables):
+      --chunk-strategy <name>    CONFLUENCE_CHUNK_STRATEGY
+      --embedding-provider <p>   CONFLUENCE_EMBEDDING_PROVIDER
+      --sinks <list>             CONFLUENCE_SINKS
+      --content-types <list>     CONFLUENCE_CONTENT_TYPES: page, blogpost (scrape space/query, sync; default: page)
+      --comment-chunks           Add page comments to the chunks (CONFLUENCE_COMMENT_CHUNKS=true)
+      --no-attachment-text       Do not chunk attachment text (CONFLUENCE_ATTACHMENT_TEXT=false)
+      --history                  Keep earlier page versions with diffs (CONFLUENCE_HISTORY=true)
+      --history-versions <n>     CONFLUENCE_HISTORY_MAX_VERSIONS: most recent versions to keep (default: 10)
+      --history-since <date>     CONFLUENCE_HISTORY_SINCE: only versions saved on or after this date
+
+Logging:
+      --log-level <level>        CONFLUENCE_LOG_LEVEL: ${LOG_LEVELS.join(", ")} (default: info)
+      --log-format <format>      CONFLUENCE_LOG_FORMAT: ${LOG_FORMATS.join(" or ")} (json: one object per line)
+  -q, --quiet                    Only log warnings and errors (same as --log-level warn)
+
+  -h, --help                     Show this help
+
+Exit codes: 0 success, 1 failure, 2 partial failure (some pages failed), 64 usage error
+`;
+}
+
+const CLI_OPTIONS = {
+  output: { type: "string", short: "o" },
+  format: { type: "string" },
+  concurrency: { type: "string", short: "c" },
+  "attachment-concurrency": { type: "string" },
+  "attachment-max-size": { type: "string" },
+  "attachment-types": { type: "string" },
+  "exclude-attachment-types": { type: "string" },
+  "max-depth": { type: "string" },
+  "delete-mode": { type: "string" },
+  limit: { type: "string" },
+  json: { type: "boolean" },
+  page: { type: "string" },
+  space: { type: "string" },
+  text: { type: "string" },
+  label: { type: "string" },
+  "exclude-label": { type: "string" },
+  type: { type: "string" },
+  ancestor: { type: "string" },
+  "modified-after": { type: "string" },
+  "modified-before": { type: "string" },
+  creator: { type: "string" },
+  host: { type: "string" },
+  auth: { type: "string" },
+  email: { type: "string" },
+  "api-token": { type: "string" },
+  "access-token": { type: "string" },
+  pat: { type: "string" },
+  "jwt-issuer": { type: "string" },
+  "jwt-secret": { type: "string" },
+  "chunk-strategy": { type: "string" },
+  "embedding-provider": { type: "string" },
+  sinks: { type: "string" },
+  "content-types": { type: "string" },
+  "comment-chunks": { type: "boolean" },
+  "no-attachment-text": { type: "boolean" },
+  history: { type: "boolean" },
+  "history-versions": { type: "string" },
+  "history-since": { type: "string" },
+  "log-level": { type: "string" },
+  "log-format": { type: "string" },
+  quiet: { type: "boolean", short: "q" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+type CliFlags = { [K in keyof typeof CLI_OPTIONS]?: (typeof CLI_OPTIONS)[K]["type"] extends "boolean" ? boolean : string };
+
+// Flags that simply stand in for an environment variable
+const FLAG_ENV: [keyof CliFlags, string][] = [
+  ["host", "CONFLUENCE_HOST"],
+  ["auth", "AUTH_METHOD"],
+  ["email", "CONFLUENCE_EMAIL"],
+  ["api-token", "CONFLUENCE_API_TOKEN"],
+  ["access-token", "CONFLUENCE_ACCESS_TOKEN"],
+  ["pat", "CONFLUENCE_PAT"],
+  ["jwt-issuer", "CONFLUENCE_JWT_ISSUER"],
+  ["jwt-secret", "CONFLUENCE_JWT_SECRET"],
+  ["concurrency", "CONFLUENCE_PAGE_CONCURRENCY"],
+  ["attachment-concurrency", "CONFLUENCE_ATTACHMENT_CONCURRENCY"],
+  ["attachment-max-size", "CONFLUENCE_ATTACHMENT_MAX_SIZE"],
+  ["attachment-types", "CONFLUENCE_ATTACHMENT_INCLUDE_TYPES"],
+  ["exclude-attachment-types", "CONFLUENCE_ATTACHMENT_EXCLUDE_TYPES"],
+  ["history-versions", "CONFLUENCE_HISTORY_MAX_VERSIONS"],
+  ["history-since", "CONFLUENCE_HISTORY_SINCE"],
+  ["delete-mode", "CONFLUENCE_SYNC_DELETE_MODE"],
+  ["page", "CONFLUENCE_PAGE_ID"],
+  ["chunk-strategy", "CONFLUENCE_CHUNK_STRATEGY"],
+  ["embedding-provider", "CONFLUENCE_EMBEDDING_PROVIDER"],
+  ["sinks", "CONFLUENCE_SINKS"],
+  ["content-types", "CONFLUENCE_CONTENT_TYPES"],
+  ["log-level", "CONFLUENCE_LOG_LEVEL"],
+  ["log-format", "CONFLUENCE_LOG_FORMAT"],
+];
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+function parseCount(name: string, value: string | undefined, minimum: number): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < minimum) {
+    throw new UsageError(`--${name} must be an integer of at least ${minimum}, got "${value}"`);
+  }
+  return parsed;
+}
+
+function checkSize(name: string, value: string | undefined): void {
+  if (value === undefined) return;
+  try {
+    parseByteSize(value);
+  } catch (error: unknown) {
+    throw new UsageError(`--${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function checkDate(name: string, value: string | undefined): void {
+  if (value === undefined) return;
+  try {
+    parseHistoryDate(value);
+  } catch (error: unknown) {
+    throw new UsageError(`--${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// --quiet stands for --log-level warn. The logger falls back to info and text on invalid values
+// rather than fail, so they are reported here, whether they came from a flag or the environment.
+function applyLogSettings(flags: CliFlags): void {
+  if (flags.quiet) {
+    if (flags["log-level"] !== undefined) throw new UsageError("--quiet and --log-level cannot be combined");
+    process.env.CONFLUENCE_LOG_LEVEL = "warn";
+  }
+  try {
+    if (process.env.CONFLUENCE_LOG_LEVEL) parseLogLevel(process.env.CONFLUENCE_LOG_LEVEL);
+    if (process.env.CONFLUENCE_LOG_FORMAT) parseLogFormat(process.env.CONFLUENCE_LOG_FORMAT);
+  } catch (error: unknown) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function parseFormats(value: string | undefined): ScrapeOptions["formats"] {
+  if (value === undefined) return undefined;
+  const formats = value.split(",").map((format) => format.trim()).filter(Boolean);
+  const unknown = formats.filter((format) => !(OUTPUT_FORMATS as readonly string[]).includes(format));
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown format: ${unknown.join(", ")} (available: ${OUTPUT_FORMATS.join(", ")})`);
+  }
+  return formats as ScrapeOptions["formats"];
+}
+
+function splitList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+// Raw CQL from the command line combined with the query flags
+function queryFromFlags(raw: string | undefined, flags: CliFlags): CqlQuery {
+  const types = splitList(flags.type);
+  const unknown = types?.filter((type) => !(CQL_CONTENT_TYPES as string[]).includes(type)) ?? [];
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown content type: ${unknown.join(", ")} (available: ${CQL_CONTENT_TYPES.join(", ")})`);
+  }
+
+  const query: CqlQuery = {
+    raw,
+    text: flags.text,
+    space: splitList(flags.space),
+    label: splitList(flags.label),
+    excludeLabel: splitList(flags["exclude-label"]),
+    type: types as CqlContentType[] | undefined,
+    ancestor: flags.ancestor,
+    creator: flags.creator,
+  };
+  if (flags["modified-after"] !== undefined || flags["modified-before"] !== undefined) {
+    query.lastModified = { after: flags["modified-after"], before: flags["modified-before"] };
+  }
+  try {
+    buildCql(query);
+  } catch (error: unknown) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  return query;
+}
+
+// --space is a list of spaces for the query commands, but names one space for validate and sync
+function singleSpace(flags: CliFlags): string | undefined {
+  const spaces = splitList(flags.space);
+  if (spaces === undefined) return undefined;
+  if (spaces.length !== 1) {
+    throw new UsageError(`--space takes a single space key here, got "${flags.space}"`);
+  }
+  return spaces[0];
+}
+
+function requireArgument(value: string | undefined, what: string): string {
+  if (!value) throw new UsageError(`Missing ${what}`);
+  return value;
+}
+
+// 0 when nothing failed, 2 when some pages made it, 1 when none did
+function exitCodeFor(succeeded: number, failed: number): number {
+  if (failed === 0) return EXIT_OK;
+  return succeeded > 0 ? EXIT_PARTIAL : EXIT_FAILURE;
+}
+
+function reportFailures(failures: { pageId: string; title: string; error: string }[]): void {
+  for (const failure of failures) {
+    log.error(`Failed: "${failure.title}" (${failure.pageId})`, { error: failure.error });
+  }
+}
+
+// Scrape commands share the sinks built from the environment, closed once the run is over
+async function withScrapeOptions(
+  flags: CliFlags,
+  outputDir: string,
+  run: (options: ScrapeOptions) => Promise<number>,
+): Promise<number> {
+  checkSize("attachment-max-size", flags["attachment-max-size"]);
+  parseCount("history-versions", flags["history-versions"], 1);
+  checkDate("history-since", flags["history-since"]);
+  const sinks = createSinksFromEnv(outputDir);
+  try {
+    return await run({
+      formats: parseFormats(flags.format),
+      labels: flags.label !== undefined || flags["exclude-label"] !== undefined
+        ? { include: splitList(flags.label), exclude: splitList(flags["exclude-label"]) }
+        : undefined,
+      attachmentConcurrency: parseCount("attachment-concurrency", flags["attachment-concurrency"], 1),
+      // Absent means "not given" so CONFLUENCE_COMMENT_CHUNKS still applies
+      commentChunks: flags["comment-chunks"] || undefined,
+      attachmentText: flags["no-attachment-text"] ? false : undefined,
+      history: flags.history ? { enabled: true } : undefined,
+      sinks,
+    });
+  } finally {
+    await closeSinks(sinks);
+  }
+}
+
+async function runScrape(target: string | undefined, id: string | undefined, flags: CliFlags, outputDir: string): Promise<number> {
+  const pageConcurrency = parseCount("concurrency", flags.concurrency, 1);
+  const maxDepth = parseCount("max-depth", flags["max-depth"], 0);
+
+  switch (target) {
+    case "page": {
+      const pageId = requireArgument(id, "page id: scrape page <id>");
+      return withScrapeOptions(flags, outputDir, async (options) => {
+        const result = await scrapePage(createConfluenceClient(), pageId, outputDir, options);
+        return result ? EXIT_OK : EXIT_FAILURE;
+      });
+    }
+    case "space": {
+      const spaceKey = requireArgument(id, "space key: scrape space <key>");
+      return withScrapeOptions(flags, outputDir, async (options) => {
+        const result = await scrapeSpace(createConfluenceClient(), spaceKey, outputDir, pageConcurrency, options);
+        reportFailures(result.failed);
+        log.info(`Space ${spaceKey}: ${result.scraped.length} scraped, ${result.failed.length} failed`);
+        return exitCodeFor(result.scraped.length, result.failed.length);
+      });
+    }
+    case "tree": {
+      const rootPageId = requireArgument(id, "root page id: scrape tree <id>");
+      return withScrapeOptions(flags, outputDir, async (options) => {
+        const result = await scrapePageTree(createConfluenceClient(), rootPageId, outputDir, {
+          ...options,
+          maxDepth,
+          pageConcurrency,
+        });
+        reportFailures(result.failed);
+        log.info(`Tree ${rootPageId}: ${result.scraped.length} scraped, ${result.failed.length} failed`);
+        return exitCodeFor(result.scraped.length, result.failed.length);
+      });
+    }
+    case "query": {
+      const query = queryFromFlags(id, flags);
+      const maxResults = parseCount("limit", flags.limit, 1);
+      return withScrapeOptions(flags, outputDir, async (options) => {
+        // The label flags are already part of the CQL; only the environment's label filter still applies
+        const result = await scrapeQuery(createConfluenceClient(), query, outputDir, pageConcurrency, {
+          ...options,
+          labels: undefined,
+          maxResults,
+        });
+        reportFailures(result.failed);
+        log.info(`Query: ${result.scraped.length} scraped, ${result.failed.length} failed`);
+        return exitCodeFor(result.scraped.length, result.failed.length);
+      });
+    }
+    default:
+      throw new UsageError(target ? `Unknown scrape target: ${target}` : "Missing scrape target: page, space, tree or query");
+  }
+}
+
+async function runSearch(cql: string | undefined, flags: CliFlags): Promise<number> {
+  const query = buildCql(queryFromFlags(cql, flags));
+  const limit = parseCount("limit", flags.limit, 1) ?? 50;
+
+  const results: { id: string; title: string; spaceKey?: string; type?: string }[] = [];
+  for await (const item of iterateSearchResults(query, { limit: Math.min(limit, 100) })) {
+    const content = item.content || item;
+    results.push({ id: content.id, title: content.title, spaceKey: content.space?.key, type: content.type });
+    if (results.length >= limit) break;
+  }
+
+  if (flags.json) {
+    process.stdout.write(`${JSON.stringify(results, null, 2)}\n`);
+  } else {
+    for (const result of results) {
+      process.stdout.write(`${result.id}\t${result.spaceKey ?? ""}\t${result.title}\n`);
+    }
+  }
+  return EXIT_OK;
+}
+
+async function runSync(key: string | undefined, flags: CliFlags, outputDir: string): Promise<number> {
+  const spaceKey = requireArgument(key || singleSpace(flags) || process.env.CONFLUENCE_SPACE_KEY, "space key: sync <key>");
+  const deletionMode = process.env.CONFLUENCE_SYNC_DELETE_MODE || "tombstone";
+  if (deletionMode !== "tombstone" && deletionMode !== "remove") {
+    throw new UsageError(`--delete-mode must be tombstone or remove, got "${deletionMode}"`);
+  }
+
+  return withScrapeOptions(flags, outputDir, async (scrapeOptions) => {
+    const result = await syncSpace(createConfluenceClient(), spaceKey, outputDir, {
+      deletionMode: deletionMode as DeletionMode,
+      pageConcurrency: parseCount("concurrency", flags.concurrency, 1),
+      scrapeOptions,
+    });
+    reportFailures(result.failed);
+    return exitCodeFor(result.added.length + result.updated.length + result.unchanged.length, result.failed.length);
+  });
+}
+
+async function runJobFile(file: string | undefined, flags: CliFlags): Promise<number> {
+  const job = await loadJobFile(requireArgument(file, "job file: run <job-file>"));
+  const results = await runJob(job, flags.output);
+
+  let succeeded = 0;
+  let failed = 0;
+  for (const result of results) {
+    reportFailures(result.failed);
+    succeeded += result.scraped;
+    failed += result.failed.length + (result.error ? 1 : 0);
+    log.info(`${result.target}: ${result.error ? `failed (${result.error})` : `${result.scraped} scraped, ${result.failed.length} failed`}`);
+  }
+  return exitCodeFor(succeeded, failed);
+}
+
+async function runValidate(file: string | undefined, flags: CliFlags): Promise<number> {
+  const spaceKey = singleSpace(flags);
+  if (spaceKey) process.env.CONFLUENCE_SPACE_KEY = spaceKey;
+  if (file) {
+    const job = await loadJobFile(file);
+    log.info(`Job file ${file} is valid (${job.targets.length} targets)`);
+  }
+  const directAccess = await testDirectFetch();
+  const clientAccess = await validateConfiguration(createConfluenceClient());
+  return directAccess && clientAccess ? EXIT_OK : EXIT_FAILURE;
+}
+
+// Parse argv (without the runtime and script path) and run the command; resolves to the exit code
+async function runCli(argv: string[]): Promise<number> {
+  let flags: CliFlags;
+  let positionals: string[];
+  try {
+    ({ values: flags, positionals } = parseArgs({ args: argv, options: CLI_OPTIONS, allowPositionals: true }));
+  } catch (error: unknown) {
+    console.error(`${error instanceof Error ? error.message : String(error)}\n\n${usage()}`);
+    return EXIT_USAGE;
+  }
+
+  const [command, ...args] = positionals;
+  if (flags.help || command === "help") {
+    process.stdout.write(usage());
+    return EXIT_OK;
+  }
+
+  // Flags win over the environment; everything downstream reads settings at call time
+  for (const [flag, envName] of FLAG_ENV) {
+    const value = flags[flag];
+    if (typeof value === "string") process.env[envName] = value;
+  }
+  const outputDir = flags.output || "./output";
+
+  try {
+    applyLogSettings(flags);
+    switch (command) {
+      case "scrape":
+        return await runScrape(args[0], args[1], flags, outputDir);
+      case "search":
+        return await runSearch(args.join(" ") || undefined, flags);
+      case "sync":
+        return await runSync(args[0], flags, outputDir);
+      case "run":
+        return await runJobFile(args[0], flags);
+      case "validate":
+        return await runValidate(args[0], flags);
+      default:
+        throw new UsageError(command ? `Unknown command: ${command}` : "Missing command");
+    }
+  } catch (error: unknown) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${usage()}`);
+      return EXIT_USAGE;
+    }
+    if (error instanceof JobFileError) {
+      console.error(error.message);
+      return EXIT_USAGE;
+    }
+    log.error("Fatal error", { error });
+    return EXIT_FAILURE;
+  }
+}
+
+export { runCli, usage, EXIT_OK, EXIT_FAILURE, EXIT_PARTIAL, EXIT_USAGE };
+
+if (import.meta.main) {
+  process.exitCode = await runCli(process.argv.slice(2));
+}
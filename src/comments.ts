@@ -0,0 +1,150 @@
+// src/comments.ts
+// Footer and inline page comments: fetching, threading, comments.json and comment chunks
+
+import type { VectorizedContent } from "./index.ts";
+import { chunkBlocks, countTokens, resolveChunkingOptions } from "./chunking.ts";
+import type { ChunkingOptions } from "./chunking.ts";
+import { extractText } from "./macros.ts";
+import { buildOutline } from "./outline.ts";
+import { collect, paginate } from "./pagination.ts";
+import { parseStorageFormat } from "./storage.ts";
+import { createLogger } from "./logger.ts";
+
+const log = createLogger("API");
+
+interface PageComment {
+  id: string;
+  // Comment this one replies to; null for the start of a thread
+  parentId: string | null;
+  location: "footer" | "inline";
+  author: { displayName: string; accountId?: string };
+  createdAt: string | null;
+  updatedAt: string | null;
+  // Inline comments: open, resolved, reopened or dangling (the highlighted text is gone).
+  // null where Confluence keeps no resolution status
+  resolution: string | null;
+  // Inline comments: the page text the comment is anchored to
+  inlineText: string | null;
+  html: string;
+  text: string;
+  replies: PageComment[];
+}
+
+const COMMENT_EXPAND = [
+  "body.storage",
+  "version",
+  "history",
+  "ancestors",
+  "extensions.inlineProperties",
+  "extensions.resolution",
+].join(",");
+
+// Every footer and inline comment on a page, replies included, as threads in the order
+// Confluence returns them. Resolved inline comments are only listed under location=resolved.
+// Errors propagate so a failed listing is not mistaken for no comments.
+async function getPageComments(pageId: string): Promise<PageComment[]> {
+  log.debug(`Fetching comments for page ID: ${pageId}`);
+  const raw = await collect(paginate(
+    `/content/${pageId}/child/comment?expand=${COMMENT_EXPAND}&depth=all&location=footer&location=inline&location=resolved&limit=100`,
+  ));
+  const threads = buildCommentThreads(raw);
+  log.debug(`Found ${raw.length} comments in ${threads.length} threads`, { pageId });
+  return threads;
+}
+
+// Nest replies under the comment they answer. With depth=all a reply lists its parent comments
+// as ancestors, nearest last; a reply whose parent is missing starts a thread of its own.
+function buildCommentThreads(raw: any[]): PageComment[] {
+  const ids = new Set(raw.map((comment) => String(comment.id)));
+  const byId = new Map<string, PageComment>();
+  const threads: PageComment[] = [];
+
+  for (const item of raw) {
+    const parent = [...(item.ancestors || [])].reverse().find((ancestor: any) => ids.has(String(ancestor.id)));
+    const html = item.body?.storage?.value || "";
+    const author = item.history?.createdBy || item.version?.by || {};
+    byId.set(String(item.id), {
+      id: String(item.id),
+      parentId: parent ? String(parent.id) : null,
+      // Resolved inline comments may report "resolved" as their location
+      location: item.extensions?.location === "inline" || item.extensions?.location === "resolved" ? "inline" : "footer",
+      author: { displayName: author.displayName || "Unknown", ...(author.accountId ? { accountId: author.accountId } : {}) },
+      createdAt: item.history?.createdDate || item.version?.when || null,
+      updatedAt: item.version?.when || null,
+      resolution: item.extensions?.resolution?.status || null,
+      inlineText: item.extensions?.inlineProperties?.originalSelection || null,
+      html,
+      text: extractText(parseStorageFormat(html)).trim(),
+      replies: [],
+    });
+  }
+
+  for (const comment of byId.values()) {
+    const parent = comment.parentId ? byId.get(comment.parentId) : undefined;
+    if (parent) {
+      parent.replies.push(comment);
+    } else {
+      threads.push(comment);
+    }
+  }
+  return threads;
+}
+
+// Depth-first walk over threads, each comment before its replies
+function* flattenComments(threads: PageComment[]): Generator<PageComment> {
+  for (const comment of threads) {
+    yield comment;
+    yield* flattenComments(comment.replies);
+  }
+}
+
+// comment-typed chunks for a page's comments. They carry the parent page's id, so sinks store and
+// replace them together with the page, and link to the comment through focusedCommentId.
+function extractCommentVectors(
+  threads: PageComment[],
+  page: { id: string; title: string; spaceKey: string; url: string; labels: string[] },
+  chunking: ChunkingOptions = {},
+): VectorizedContent[] {
+  const chunkingOptions = resolveChunkingOptions(chunking);
+  const vectors: VectorizedContent[] = [];
+
+  for (const comment of flattenComments(threads)) {
+    const url = `${page.url}${page.url.includes("?") ? "&" : "?"}focusedCommentId=${comment.id}#comment-${comment.id}`;
+    const blocks = buildOutline(parseStorageFormat(comment.html)).flatMap((section) => section.blocks);
+    // Inline comments only make sense next to the text they highlight
+    if (comment.inlineText) blocks.unshift(`On "${comment.inlineText}":`);
+
+    chunkBlocks(blocks, chunkingOptions).forEach((content, index) => {
+      vectors.push({
+        id: `${page.id}-comment-${comment.id}-${index}`,
+        title: page.title,
+        pageId: page.id,
+        spaceKey: page.spaceKey,
+        content,
+        type: "comment",
+        metadata: {
+          url,
+          lastUpdated: comment.updatedAt || "",
+          author: comment.author.displayName,
+          labels: page.labels,
+          contentType: "comment",
+          tokens: countTokens(content, chunkingOptions.tokenizer),
+          commentId: comment.id,
+          parentCommentId: comment.parentId,
+          commentLocation: comment.location,
+          resolution: comment.resolution,
+          inlineText: comment.inlineText,
+        },
+      });
+    });
+  }
+  return vectors;
+}
+
+// Comment chunks are opt-in: CONFLUENCE_COMMENT_CHUNKS=true
+function commentChunksEnabled(option?: boolean): boolean {
+  return option ?? process.env.CONFLUENCE_COMMENT_CHUNKS === "true";
+}
+
+export type { PageComment };
+export { getPageComments, buildCommentThreads, flattenComments, extractCommentVectors, commentChunksEnabled };
@@ -0,0 +1,62 @@
+// src/content-types.ts
+// Registry of the Confluence content types the scraper enumerates and scrapes
+
+interface ContentTypeDefinition {
+  // Content type as the REST API (?type=) and CQL (type = ...) name it
+  name: string;
+  // Directory under the space directory holding this type's output; "" puts it at the space root
+  directory: string;
+  // Browser URL of an item
+  webUrl(host: string, spaceKey: string, id: string): string;
+}
+
+const contentTypes = new Map<string, ContentTypeDefinition>();
+
+// Add or replace a content type. Its directory is reserved at the space root so page titles
+// cannot clash with it.
+function registerContentType(definition: ContentTypeDefinition): void {
+  contentTypes.set(definition.name, definition);
+}
+
+registerContentType({
+  name: "page",
+  directory: "",
+  webUrl: (host, spaceKey, id) => `${host}/wiki/spaces/${spaceKey}/pages/${id}`,
+});
+
+registerContentType({
+  name: "blogpost",
+  directory: "blog",
+  // Blog post URLs embed the publishing date; viewpage.action resolves any content id
+  webUrl: (host, _spaceKey, id) => `${host}/wiki/pages/viewpage.action?pageId=${id}`,
+});
+
+// Definition for a content type name; content without a type is treated as a page
+function getContentType(name: string | undefined): ContentTypeDefinition {
+  const definition = contentTypes.get(name || "page");
+  if (!definition) {
+    throw new Error(`Unknown content type: ${name} (available: ${contentTypeNames().join(", ")})`);
+  }
+  return definition;
+}
+
+// Content types a crawl covers, from the options or CONFLUENCE_CONTENT_TYPES (pages only by default)
+function resolveContentTypes(names?: string[]): ContentTypeDefinition[] {
+  const requested = names ?? (process.env.CONFLUENCE_CONTENT_TYPES || "page")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return [...new Set(requested)].map(getContentType);
+}
+
+function contentTypeNames(): string[] {
+  return [...contentTypes.keys()];
+}
+
+// Directories content types occupy at the space root
+function contentTypeDirectories(): Set<string> {
+  return new Set([...contentTypes.values()].map((definition) => definition.directory).filter(Boolean));
+}
+
+export type { ContentTypeDefinition };
+export { registerContentType, getContentType, resolveContentTypes, contentTypeNames, contentTypeDirectories };
@@ -0,0 +1,109 @@
+// src/cql.ts
+// Typed CQL (Confluence Query Language) builder with escaping for every value it embeds
+
+type CqlContentType = "page" | "blogpost" | "comment" | "attachment";
+
+interface CqlQuery {
+  // Full-text search: text ~ "..."
+  text?: string;
+  // Title search: title ~ "..."
+  title?: string;
+  space?: string | string[];
+  // Pages carrying any of these labels
+  label?: string | string[];
+  // Pages carrying none of these labels
+  excludeLabel?: string | string[];
+  type?: CqlContentType | CqlContentType[];
+  // Page id whose descendants match
+  ancestor?: string | number;
+  // Dates as Date objects or "yyyy-MM-dd" / "yyyy-MM-dd HH:mm" strings
+  lastModified?: { after?: Date | string; before?: Date | string };
+  // Account id, or "currentUser()"
+  creator?: string;
+  // Passed through unchanged, in parentheses when combined with other conditions
+  raw?: string;
+}
+
+const CQL_CONTENT_TYPES: CqlContentType[] = ["page", "blogpost", "comment", "attachment"];
+
+// Quote a value as a CQL string literal
+function cqlString(value: string): string {
+  return `"${value.replace(/(["\\])/g, "\\$1")}"`;
+}
+
+// Format a date the way CQL expects: "yyyy-MM-dd HH:mm"
+function formatCqlDate(date: Date): string {
+  return date.toISOString().slice(0, 16).replace("T", " ");
+}
+
+function cqlDate(value: Date | string, field: string): string {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) throw new Error(`Invalid CQL date for ${field}`);
+    return cqlString(formatCqlDate(value));
+  }
+  if (!/^\d{4}[-/]\d{2}[-/]\d{2}( \d{2}:\d{2})?$/.test(value)) {
+    throw new Error(`Invalid CQL date for ${field}: "${value}" (expected yyyy-MM-dd or yyyy-MM-dd HH:mm)`);
+  }
+  return cqlString(value);
+}
+
+function toList<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// field = "a" for one value, field in ("a", "b") for several
+function membership(field: string, values: string[], negate = false): string | null {
+  if (values.length === 0) return null;
+  if (values.length === 1) return `${field} ${negate ? "!=" : "="} ${cqlString(values[0] as string)}`;
+  return `${field} ${negate ? "not in" : "in"} (${values.map(cqlString).join(", ")})`;
+}
+
+// Build a CQL query; conditions are combined with "and". Throws when nothing would be matched on.
+function buildCql(query: CqlQuery): string {
+  const clauses: string[] = [];
+
+  if (query.text !== undefined) clauses.push(`text ~ ${cqlString(query.text)}`);
+  if (query.title !== undefined) clauses.push(`title ~ ${cqlString(query.title)}`);
+
+  const types = toList(query.type);
+  const unknownType = types.find((type) => !CQL_CONTENT_TYPES.includes(type));
+  if (unknownType) {
+    throw new Error(`Unknown CQL content type: ${unknownType} (available: ${CQL_CONTENT_TYPES.join(", ")})`);
+  }
+
+  for (const clause of [
+    membership("space", toList(query.space)),
+    membership("type", types),
+    membership("label", toList(query.label)),
+    membership("label", toList(query.excludeLabel), true),
+  ]) {
+    if (clause) clauses.push(clause);
+  }
+
+  if (query.ancestor !== undefined) {
+    const ancestor = String(query.ancestor);
+    if (!/^\d+$/.test(ancestor)) throw new Error(`Invalid CQL ancestor page id: ${ancestor}`);
+    clauses.push(`ancestor = ${ancestor}`);
+  }
+  if (query.lastModified?.after !== undefined) {
+    clauses.push(`lastmodified >= ${cqlDate(query.lastModified.after, "lastModified.after")}`);
+  }
+  if (query.lastModified?.before !== undefined) {
+    clauses.push(`lastmodified < ${cqlDate(query.lastModified.before, "lastModified.before")}`);
+  }
+  if (query.creator !== undefined) {
+    clauses.push(`creator = ${query.creator === "currentUser()" ? query.creator : cqlString(query.creator)}`);
+  }
+
+  const raw = query.raw?.trim();
+  if (raw) clauses.push(clauses.length > 0 ? `(${raw})` : raw);
+
+  if (clauses.length === 0) {
+    throw new Error("CQL query needs at least one condition");
+  }
+  return clauses.join(" and ");
+}
+
+export type { CqlQuery, CqlContentType };
+export { CQL_CONTENT_TYPES, buildCql, cqlString, formatCqlDate };
@@ -0,0 +1,150 @@
+// src/diff.ts
+// Line-based unified diffs, in the format of diff -u, computed with Myers' algorithm
+
+interface DiffLine {
+  kind: " " | "-" | "+";
+  line: string;
+}
+
+// Edit distance beyond which lines are reported as all removed and all added: the trace of a
+// longer search grows with its square
+const MAX_EDIT_DISTANCE = 4000;
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+// Shortest edit script between two line lists, or null when it is longer than the limit
+function myersDiff(a: string[], b: string[]): DiffLine[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for diagonals -d-1..d+1 as it was before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && (v[offset + k - 1] as number) < (v[offset + k + 1] as number))
+        ? v[offset + k + 1] as number
+        : (v[offset + k - 1] as number) + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace);
+    }
+  }
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffLine[] {
+  const script: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d] as Int32Array;
+    const at = (k: number) => v[k + d + 1] as number;
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      script.push({ kind: " ", line: a[--x] as string });
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) script.push({ kind: "+", line: b[--y] as string });
+      else script.push({ kind: "-", line: a[--x] as string });
+    }
+  }
+  return script.reverse();
+}
+
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  // Common leading and trailing lines are cheap to set aside and keep the search small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const oldMiddle = a.slice(start, endA);
+  const newMiddle = b.slice(start, endB);
+  const middle = myersDiff(oldMiddle, newMiddle) ?? [
+    ...oldMiddle.map((line): DiffLine => ({ kind: "-", line })),
+    ...newMiddle.map((line): DiffLine => ({ kind: "+", line })),
+  ];
+  return [
+    ...a.slice(0, start).map((line): DiffLine => ({ kind: " ", line })),
+    ...middle,
+    ...a.slice(endA).map((line): DiffLine => ({ kind: " ", line })),
+  ];
+}
+
+// Hunk header range: an empty side names the line before the hunk
+function hunkRange(start: number, count: number): string {
+  return `${count === 0 ? start - 1 : start},${count}`;
+}
+
+// Unified diff of two texts with the given file labels, or "" when their lines are the same
+function createUnifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string, context = 3): string {
+  const script = diffLines(splitLines(oldText), splitLines(newText));
+
+  // Line numbers (1-based) each entry of the script starts at on either side
+  const positions: { oldLine: number; newLine: number }[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const entry of script) {
+    positions.push({ oldLine, newLine });
+    if (entry.kind !== "+") oldLine++;
+    if (entry.kind !== "-") newLine++;
+  }
+
+  // Changed entries with their context, merged where the context would overlap
+  const ranges: [number, number][] = [];
+  script.forEach((entry, index) => {
+    if (entry.kind === " ") return;
+    const from = Math.max(0, index - context);
+    const to = Math.min(script.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && from <= last[1]) last[1] = Math.max(last[1], to);
+    else ranges.push([from, to]);
+  });
+  if (ranges.length === 0) return "";
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const [from, to] of ranges) {
+    const hunk = script.slice(from, to);
+    const start = positions[from] as { oldLine: number; newLine: number };
+    const oldCount = hunk.filter((entry) => entry.kind !== "+").length;
+    const newCount = hunk.filter((entry) => entry.kind !== "-").length;
+    output.push(`@@ -${hunkRange(start.oldLine, oldCount)} +${hunkRange(start.newLine, newCount)} @@`);
+    output.push(...hunk.map((entry) => `${entry.kind}${entry.line}`));
+  }
+  return `${output.join("\n")}\n`;
+}
+
+// Lines added and removed between two texts
+function countChanges(oldText: string, newText: string): { added: number; removed: number } {
+  const script = diffLines(splitLines(oldText), splitLines(newText));
+  return {
+    added: script.filter((entry) => entry.kind === "+").length,
+    removed: script.filter((entry) => entry.kind === "-").length,
+  };
+}
+
+export type { DiffLine };
+export { diffLines, createUnifiedDiff, countChanges };
@@ -0,0 +1,208 @@
+// src/embeddings.ts
+// Embedding stage for vector chunks: pluggable providers, batching and a content-hash cache
+
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+interface EmbeddingProvider {
+  name: string;
+  model: string;
+  // Known up front for providers with a fixed size; otherwise taken from the first response
+  dimensions?: number;
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+interface Embedding {
+  provider: string;
+  model: string;
+  dimensions: number;
+  values: number[];
+}
+
+interface EmbeddingCache {
+  get(key: string): Promise<number[] | undefined>;
+  set(key: string, values: number[]): Promise<void>;
+}
+
+interface EmbeddingOptions {
+  provider: EmbeddingProvider;
+  batchSize?: number;
+  cache?: EmbeddingCache;
+  signal?: AbortSignal;
+}
+
+interface OpenAIEmbeddingSettings {
+  // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  dimensions?: number;
+}
+
+// Any OpenAI-compatible POST {baseUrl}/embeddings endpoint, hosted or local
+function createOpenAIEmbeddingProvider(settings: OpenAIEmbeddingSettings): EmbeddingProvider {
+  const endpoint = `${settings.baseUrl.replace(/\/+$/, "")}/embeddings`;
+
+  return {
+    name: "openai",
+    model: settings.model,
+    dimensions: settings.dimensions,
+    async embed(texts, signal) {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: settings.model,
+          input: texts,
+          ...(settings.dimensions ? { dimensions: settings.dimensions } : {}),
+        }),
+        signal,
+      });
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        throw new Error(`Embedding request failed: ${response.status} ${detail}`.trim());
+      }
+
+      const body = await response.json() as { data?: { index: number; embedding: number[] }[] };
+      if (!Array.isArray(body.data) || body.data.length !== texts.length) {
+        throw new Error(`Embedding response has ${body.data?.length ?? 0} embeddings for ${texts.length} inputs`);
+      }
+      return [...body.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+    },
+  };
+}
+
+// Deterministic feature hashing of words into a unit vector. No model, no network: meant for
+// tests and for wiring up pipelines before a real provider is available.
+function createHashEmbeddingProvider(dimensions: number = 256): EmbeddingProvider {
+  return {
+    name: "hash",
+    model: `hash-${dimensions}`,
+    dimensions,
+    async embed(texts) {
+      return texts.map((text) => {
+        const values = new Array<number>(dimensions).fill(0);
+        for (const [word] of text.toLowerCase().matchAll(/[\p{L}\p{N}]+/gu)) {
+          const digest = createHash("sha256").update(word).digest();
+          const slot = digest.readUInt32BE(0) % dimensions;
+          values[slot] = (values[slot] as number) + ((digest[4] as number) & 1 ? 1 : -1);
+        }
+        const norm = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0)) || 1;
+        return values.map((v) => v / norm);
+      });
+    },
+  };
+}
+
+// One JSON file per cached embedding, so concurrent page scrapes never rewrite each other's entries
+function createFileEmbeddingCache(cacheDir: string): EmbeddingCache {
+  const entryPath = (key: string) => path.join(cacheDir, key.slice(0, 2), `${key}.json`);
+
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await fs.readFile(entryPath(key), "utf8")) as number[];
+      } catch {
+        return undefined;
+      }
+    },
+    async set(key, values) {
+      await fs.mkdir(path.dirname(entryPath(key)), { recursive: true });
+      await fs.writeFile(entryPath(key), JSON.stringify(values));
+    },
+  };
+}
+
+function embeddingCacheKey(provider: EmbeddingProvider, content: string): string {
+  return createHash("sha256")
+    .update(`${provider.name}\0${provider.model}\0${provider.dimensions ?? ""}\0${content}`)
+    .digest("hex");
+}
+
+// Embed every text, serving repeats from the cache and sending the rest in batches
+async function embedTexts(texts: string[], options: EmbeddingOptions): Promise<Embedding[]> {
+  const { provider, cache, signal } = options;
+  const batchSize = Math.max(1, options.batchSize ?? 64);
+  const keys = texts.map((text) => embeddingCacheKey(provider, text));
+  const values: (number[] | undefined)[] = await Promise.all(keys.map((key) => cache?.get(key)));
+
+  // Identical chunks are embedded once
+  const pending = [...new Set(keys.filter((_, i) => !values[i]))];
+  for (let start = 0; start < pending.length; start += batchSize) {
+    const batchKeys = pending.slice(start, start + batchSize);
+    const batch = await provider.embed(batchKeys.map((key) => texts[keys.indexOf(key)] as string), signal);
+
+    for (const [i, key] of batchKeys.entries()) {
+      const embedding = batch[i] as number[];
+      keys.forEach((k, j) => {
+        if (k === key) values[j] = embedding;
+      });
+      await cache?.set(key, embedding);
+    }
+  }
+
+  const dimensions = provider.dimensions ?? values[0]?.length ?? 0;
+  return values.map((embedding) => {
+    if (!embedding || embedding.length !== dimensions) {
+      throw new Error(`Embedding from ${provider.model} has ${embedding?.length ?? 0} dimensions, expected ${dimensions}`);
+    }
+    return { provider: provider.name, model: provider.model, dimensions, values: embedding };
+  });
+}
+
+// Attach embeddings to content chunks; the page-level metadata chunk is left as is
+async function embedVectors<T extends { content: string; type: string }>(
+  vectors: T[],
+  options: EmbeddingOptions,
+): Promise<(T & { embedding?: Embedding })[]> {
+  const targets = vectors.filter((vector) => vector.type !== "metadata");
+  const embeddings = await embedTexts(targets.map((vector) => vector.content), options);
+
+  return vectors.map((vector) => {
+    const index = targets.indexOf(vector);
+    return index === -1 ? vector : { ...vector, embedding: embeddings[index] };
+  });
+}
+
+// Embedding settings from the environment; null when CONFLUENCE_EMBEDDING_PROVIDER is unset
+function getEmbeddingOptionsFromEnv(outputDir: string): EmbeddingOptions | null {
+  const providerName = process.env.CONFLUENCE_EMBEDDING_PROVIDER;
+  if (!providerName) return null;
+
+  const dimensions = parseInt(process.env.CONFLUENCE_EMBEDDING_DIMENSIONS || "", 10) || undefined;
+  let provider: EmbeddingProvider;
+  if (providerName === "openai") {
+    provider = createOpenAIEmbeddingProvider({
+      baseUrl: process.env.CONFLUENCE_EMBEDDING_URL || "https://api.openai.com/v1",
+      model: process.env.CONFLUENCE_EMBEDDING_MODEL || "text-embedding-3-small",
+      apiKey: process.env.CONFLUENCE_EMBEDDING_API_KEY,
+      dimensions,
+    });
+  } else if (providerName === "hash") {
+    provider = createHashEmbeddingProvider(dimensions);
+  } else {
+    throw new Error(`Unsupported embedding provider: ${providerName}`);
+  }
+
+  return {
+    provider,
+    batchSize: parseInt(process.env.CONFLUENCE_EMBEDDING_BATCH_SIZE || "", 10) || 64,
+    cache: createFileEmbeddingCache(
+      process.env.CONFLUENCE_EMBEDDING_CACHE_DIR || path.join(outputDir, ".embedding-cache"),
+    ),
+  };
+}
+
+export type { EmbeddingProvider, Embedding, EmbeddingCache, EmbeddingOptions, OpenAIEmbeddingSettings };
+export {
+  createOpenAIEmbeddingProvider,
+  createHashEmbeddingProvider,
+  createFileEmbeddingCache,
+  embedTexts,
+  embedVectors,
+  getEmbeddingOptionsFromEnv,
+};
@@ -0,0 +1,290 @@
+// src/extractors.ts
+// Offline text extraction from downloaded attachments and their attachment-typed chunks
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parse } from "node-html-parser";
+import { parseByteSize } from "./attachments.ts";
+import type { AttachmentRecord } from "./attachments.ts";
+import { chunkBlocks, countTokens, resolveChunkingOptions } from "./chunking.ts";
+import type { ChunkingOptions } from "./chunking.ts";
+import type { VectorizedContent } from "./index.ts";
+import { extractPdfText } from "./pdf-text.ts";
+import { DEFAULT_MAX_ENTRY_SIZE, readZipEntries } from "./zip.ts";
+import { createLogger } from "./logger.ts";
+
+const log = createLogger("Attachments");
+
+interface AttachmentExtractor {
+  name: string;
+  // Media types handled, e.g. "text/csv"; the file extension is checked as well because
+  // Confluence often reports uploads as application/octet-stream
+  mediaTypes: string[];
+  extensions: string[];
+  extract(content: Buffer): string | Promise<string>;
+}
+
+const extractors: AttachmentExtractor[] = [];
+
+// Later registrations win, so a custom extractor can take over a built-in media type
+function registerAttachmentExtractor(extractor: AttachmentExtractor): void {
+  extractors.unshift(extractor);
+}
+
+function findAttachmentExtractor(mediaType: string, filename: string): AttachmentExtractor | null {
+  const type = (mediaType.split(";")[0] as string).trim().toLowerCase();
+  const extension = path.extname(filename).toLowerCase();
+  return extractors.find((extractor) => extractor.mediaTypes.includes(type)) ??
+    extractors.find((extractor) => extractor.extensions.includes(extension)) ??
+    null;
+}
+
+const XML_ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: "\"", apos: "'" };
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return XML_ENTITIES[name] ?? entity;
+  });
+}
+
+// Text runs of an OOXML part, paragraph by paragraph. runTag is w:t, a:t and so on
+function ooxmlParagraphs(xml: string, paragraphTag: string, runTag: string): string[] {
+  const paragraphs: string[] = [];
+  const paragraphPattern = new RegExp(`<${paragraphTag}[\\s>][\\s\\S]*?</${paragraphTag}>|<${paragraphTag}/>`, "g");
+  const runPattern = new RegExp(`<${runTag}(?:\\s[^>]*)?>([^<]*)</${runTag}>|<(?:\\w+:)?(tab|br)\\s*/>`, "g");
+  for (const [paragraph] of xml.matchAll(paragraphPattern)) {
+    let text = "";
+    for (const run of paragraph.matchAll(runPattern)) {
+      text += run[2] === "tab" ? "\t" : run[2] === "br" ? "\n" : decodeXmlEntities(run[1] || "");
+    }
+    if (text.trim()) paragraphs.push(text.trim());
+  }
+  return paragraphs;
+}
+
+// Largest part of an Office document or PDF stream that is inflated, from CONFLUENCE_ZIP_MAX_ENTRY_SIZE
+function inflateLimit(): number {
+  const value = process.env.CONFLUENCE_ZIP_MAX_ENTRY_SIZE;
+  return value ? parseByteSize(value) : DEFAULT_MAX_ENTRY_SIZE;
+}
+
+function zipText(entries: Map<string, () => Buffer>, name: string): string | null {
+  const read = entries.get(name);
+  return read ? read().toString("utf8") : null;
+}
+
+// Parts like ppt/slides/slide10.xml in numeric rather than lexical order
+function numberedParts(entries: Map<string, () => Buffer>, pattern: RegExp): string[] {
+  return [...entries.keys()]
+    .filter((name) => pattern.test(name))
+    .sort((a, b) => parseInt(a.replace(/\D+/g, ""), 10) - parseInt(b.replace(/\D+/g, ""), 10));
+}
+
+function extractDocx(content: Buffer): string {
+  const entries = readZipEntries(content, inflateLimit());
+  const document = zipText(entries, "word/document.xml");
+  if (document === null) throw new Error("Not a Word document: word/document.xml is missing");
+  return ooxmlParagraphs(document, "w:p", "w:t").join("\n\n");
+}
+
+function extractPptx(content: Buffer): string {
+  const entries = readZipEntries(content, inflateLimit());
+  const slides = numberedParts(entries, /^ppt\/slides\/slide\d+\.xml$/);
+  if (slides.length === 0) throw new Error("Not a presentation: no slides found");
+  return slides
+    .map((slide, index) => [`Slide ${index + 1}`, ...ooxmlParagraphs(zipText(entries, slide) || "", "a:p", "a:t")].join("\n"))
+    .join("\n\n");
+}
+
+// Sheets as "Sheet: name" followed by one line per row, cells separated by " | "
+function extractXlsx(content: Buffer): string {
+  const entries = readZipEntries(content, inflateLimit());
+  const sharedStrings = [...(zipText(entries, "xl/sharedStrings.xml") || "").matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(([, item]) => [...(item as string).matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g)].map(([, text]) => decodeXmlEntities(text as string)).join(""));
+
+  // Sheet names come from the workbook, which points at the sheet parts through its relationships
+  const targets = new Map(
+    [...(zipText(entries, "xl/_rels/workbook.xml.rels") || "").matchAll(/<Relationship\b[^>]*>/g)].map(([tag]) => [
+      /\bId="([^"]+)"/.exec(tag)?.[1],
+      path.posix.join("xl", (/\bTarget="([^"]+)"/.exec(tag)?.[1] || "").replace(/^\/xl\//, "")),
+    ]),
+  );
+  const sheets = [...(zipText(entries, "xl/workbook.xml") || "").matchAll(/<sheet\b[^>]*>/g)]
+    .map(([tag]) => ({
+      name: decodeXmlEntities(/\bname="([^"]*)"/.exec(tag)?.[1] || ""),
+      part: targets.get(/\br:id="([^"]+)"/.exec(tag)?.[1]),
+    }))
+    .filter((sheet): sheet is { name: string; part: string } => Boolean(sheet.part && entries.has(sheet.part)));
+  if (sheets.length === 0) {
+    sheets.push(...numberedParts(entries, /^xl\/worksheets\/sheet\d+\.xml$/).map((part, index) => ({ name: `Sheet${index + 1}`, part })));
+  }
+  if (sheets.length === 0) throw new Error("Not a spreadsheet: no worksheets found");
+
+  return sheets.map(({ name, part }) => {
+    const rows = [...(zipText(entries, part) || "").matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)].map(([, row]) =>
+      [...(row as string).matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)]
+        .map(([, attributes, cell]) => {
+          const type = /\bt="(\w+)"/.exec(attributes as string)?.[1];
+          if (type === "inlineStr") {
+            return [...(cell || "").matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g)].map(([, text]) => decodeXmlEntities(text as string)).join("");
+          }
+          const value = decodeXmlEntities(/<v>([^<]*)<\/v>/.exec(cell || "")?.[1] || "");
+          return type === "s" ? sharedStrings[parseInt(value, 10)] ?? "" : value;
+        })
+        .join(" | ")
+        .replace(/( \| )+$/, ""),
+    ).filter((row) => row.trim());
+    return [`Sheet: ${name}`, ...rows].join("\n");
+  }).join("\n\n");
+}
+
+function extractHtml(content: Buffer): string {
+  // Only <pre> keeps its raw text; script and style bodies are dropped
+  const root = parse(content.toString("utf8"), { blockTextElements: { pre: true } });
+  root.querySelectorAll("script, style, noscript").forEach((element) => element.remove());
+  return root.structuredText;
+}
+
+function extractXml(content: Buffer): string {
+  return decodeXmlEntities(
+    content.toString("utf8")
+      .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_match, data: string) => data.replace(/&/g, "&amp;").replace(/</g, "&lt;"))
+      .replace(/<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>/g, "")
+      .replace(/<[^>]+>/g, "\n"),
+  )
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Minified JSON is re-indented so the chunker finds line breaks
+function extractJson(content: Buffer): string {
+  const text = content.toString("utf8");
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+registerAttachmentExtractor({
+  name: "pdf",
+  mediaTypes: ["application/pdf"],
+  extensions: [".pdf"],
+  extract: (content) => extractPdfText(content, inflateLimit()),
+});
+registerAttachmentExtractor({
+  name: "xlsx",
+  mediaTypes: ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+  extensions: [".xlsx"],
+  extract: extractXlsx,
+});
+registerAttachmentExtractor({
+  name: "pptx",
+  mediaTypes: ["application/vnd.openxmlformats-officedocument.presentationml.presentation"],
+  extensions: [".pptx"],
+  extract: extractPptx,
+});
+registerAttachmentExtractor({
+  name: "docx",
+  mediaTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  extensions: [".docx"],
+  extract: extractDocx,
+});
+registerAttachmentExtractor({
+  name: "xml",
+  mediaTypes: ["application/xml", "text/xml"],
+  extensions: [".xml"],
+  extract: extractXml,
+});
+registerAttachmentExtractor({
+  name: "html",
+  mediaTypes: ["text/html", "application/xhtml+xml"],
+  extensions: [".html", ".htm", ".xhtml"],
+  extract: extractHtml,
+});
+registerAttachmentExtractor({
+  name: "json",
+  mediaTypes: ["application/json"],
+  extensions: [".json"],
+  extract: extractJson,
+});
+registerAttachmentExtractor({
+  name: "text",
+  mediaTypes: ["text/plain", "text/markdown", "text/x-markdown", "text/csv"],
+  extensions: [".txt", ".md", ".markdown", ".csv", ".log"],
+  extract: (content) => content.toString("utf8"),
+});
+
+// Attachment text is extracted unless CONFLUENCE_ATTACHMENT_TEXT=false
+function attachmentTextEnabled(option?: boolean): boolean {
+  return option ?? process.env.CONFLUENCE_ATTACHMENT_TEXT !== "false";
+}
+
+// Extract the text of every downloaded attachment and chunk it into attachment-typed vectors
+// linked to the page. Each record notes the extractor used, or why there is no text; an
+// attachment that cannot be read never fails the page.
+async function extractAttachmentVectors(
+  records: AttachmentRecord[],
+  attachmentsDir: string,
+  page: { id: string; title: string; spaceKey: string; url: string; lastUpdated: string; author: string; labels: string[] },
+  chunking: ChunkingOptions = {},
+): Promise<VectorizedContent[]> {
+  const chunkingOptions = resolveChunkingOptions(chunking);
+  const vectors: VectorizedContent[] = [];
+
+  for (const record of records) {
+    if (!record.file || (record.status !== "downloaded" && record.status !== "unchanged")) continue;
+    const extractor = findAttachmentExtractor(record.mediaType, record.file);
+    if (!extractor) continue;
+
+    let text: string;
+    try {
+      text = await extractor.extract(await fs.readFile(path.join(attachmentsDir, record.file)));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.warn(`Could not extract text from "${record.title}" (${record.id})`, { error: message });
+      record.text = { extractor: extractor.name, error: message };
+      continue;
+    }
+
+    // Confluence's preview link opens the attachment on top of its page
+    const url = `${page.url}${page.url.includes("?") ? "&" : "?"}preview=${encodeURIComponent(`/${page.id}/${record.id}/${record.title}`)}`;
+    const blocks = text.split(/\n\s*\n/).map((block) => block.trim()).filter(Boolean);
+    const chunks = chunkBlocks(blocks, chunkingOptions);
+    record.text = { extractor: extractor.name, characters: text.length, chunks: chunks.length };
+    chunks.forEach((content, index) => {
+      vectors.push({
+        id: `${page.id}-attachment-${record.id}-${index}`,
+        title: page.title,
+        pageId: page.id,
+        spaceKey: page.spaceKey,
+        content,
+        type: "attachment",
+        metadata: {
+          url,
+          lastUpdated: page.lastUpdated,
+          author: page.author,
+          labels: page.labels,
+          contentType: "attachment",
+          tokens: countTokens(content, chunkingOptions.tokenizer),
+          attachmentId: record.id,
+          attachmentTitle: record.title,
+          mediaType: record.mediaType,
+        },
+      });
+    });
+  }
+  if (vectors.length > 0) {
+    log.debug(`Generated ${vectors.length} chunks from attachment text`);
+  }
+  return vectors;
+}
+
+export type { AttachmentExtractor };
+export { registerAttachmentExtractor, findAttachmentExtractor, attachmentTextEnabled, extractAttachmentVectors };
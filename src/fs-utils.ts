@@ -0,0 +1,28 @@
+// src/fs-utils.ts
+// File system helpers shared by the scrape pipeline
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createLogger } from "./logger.ts";
+
+const log = createLogger("Scrape");
+
+// Helper function to sanitize content for file system
+function sanitizeFilename(name: string): string {
+  return name.replace(/[/\\?%*:|"<>]/g, "-");
+}
+
+// Write content to a file, creating its directory; resolves to the path, or null when it failed
+async function saveContentToFile(content: string, filePath: string): Promise<string | null> {
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+    log.debug(`Content saved to ${filePath}`);
+    return filePath;
+  } catch (error: unknown) {
+    log.error(`Error saving content to ${filePath}`, { error });
+    return null;
+  }
+}
+
+export { sanitizeFilename, saveContentToFile };
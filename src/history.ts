@@ -0,0 +1,175 @@
+// src/history.ts
+// Opt-in page history: earlier versions with their author, date and message, each version's
+// storage body, and unified diffs of the Markdown text between consecutive versions
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { countChanges, createUnifiedDiff } from "./diff.ts";
+import { saveContentToFile } from "./fs-utils.ts";
+import { storageToMarkdown } from "./markdown.ts";
+import { paginate } from "./pagination.ts";
+import { fetchDirectly } from "./transport.ts";
+import { createLogger } from "./logger.ts";
+
+const log = createLogger("History");
+
+interface HistoryOptions {
+  // Off unless set here or with CONFLUENCE_HISTORY=true
+  enabled?: boolean;
+  // Most recent versions to keep, the current one included; unset reads
+  // CONFLUENCE_HISTORY_MAX_VERSIONS (default 10)
+  maxVersions?: number;
+  // Only versions saved on or after this date; unset reads CONFLUENCE_HISTORY_SINCE
+  since?: string;
+}
+
+interface HistoryWindow {
+  maxVersions: number;
+  since: Date | null;
+}
+
+interface PageVersion {
+  number: number;
+  author: { displayName: string; accountId?: string };
+  createdAt: string | null;
+  message: string;
+  minorEdit: boolean;
+  // Storage body of this version, in the history directory
+  file: string;
+  // Diff of the Markdown text against the previous version kept; null for the oldest, or when
+  // the text did not change (attributes or layout only)
+  diff: string | null;
+  changes: { added: number; removed: number } | null;
+}
+
+// Entry of the /content/{id}/version listing
+interface VersionListing {
+  number: number | string;
+  when?: string;
+  by?: { displayName?: string; accountId?: string };
+  message?: string;
+  minorEdit?: boolean;
+}
+
+interface PageHistory {
+  pageId: string;
+  title: string;
+  versions: PageVersion[];
+}
+
+const DEFAULT_MAX_VERSIONS = 10;
+
+function parseHistoryDate(value: string): Date {
+  const date = new Date(value);
+  if (!value.trim() || Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid history date: ${value} (expected a date such as 2024-01-31)`);
+  }
+  return date;
+}
+
+// Settings for this scrape, or null when history is off
+function resolveHistoryOptions(options: HistoryOptions = {}): HistoryWindow | null {
+  if (!(options.enabled ?? process.env.CONFLUENCE_HISTORY === "true")) return null;
+
+  const rawMax = options.maxVersions ?? process.env.CONFLUENCE_HISTORY_MAX_VERSIONS;
+  const maxVersions = rawMax === undefined || rawMax === "" ? DEFAULT_MAX_VERSIONS : Number(rawMax);
+  if (!Number.isInteger(maxVersions) || maxVersions < 1) {
+    throw new Error(`Invalid history version count: ${rawMax} (expected an integer of at least 1)`);
+  }
+  const since = options.since ?? process.env.CONFLUENCE_HISTORY_SINCE;
+  return { maxVersions, since: since ? parseHistoryDate(since) : null };
+}
+
+// Versions of a page inside the window, newest first. The listing is newest first too, so it
+// stops at the first version that is too old or beyond the count.
+async function listPageVersions(pageId: string, window: HistoryWindow): Promise<VersionListing[]> {
+  const versions: VersionListing[] = [];
+  for await (const version of paginate<VersionListing>(`/content/${pageId}/version?limit=50`)) {
+    if (versions.length >= window.maxVersions) break;
+    if (window.since && version.when && new Date(version.when) < window.since) break;
+    versions.push(version);
+  }
+  return versions;
+}
+
+async function readStoredBody(historyDir: string, file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(path.join(historyDir, file), "utf8");
+  } catch {
+    return null;
+  }
+}
+
+function describeVersion(version: PageVersion): string {
+  return `v${version.number} (${[version.createdAt, version.author.displayName].filter(Boolean).join(", ")})`;
+}
+
+// Write history/ for a page: v<N>.html per version, v<N>.diff against the version before it,
+// and versions.json. Bodies already on disk are reused, since a version never changes; the
+// current version's body comes from the page itself.
+async function capturePageHistory(
+  page: { id: string; title: string; body: string; version: { number: number } },
+  pageDir: string,
+  window: HistoryWindow,
+): Promise<PageHistory> {
+  log.debug(`Fetching versions of page ${page.id} (max ${window.maxVersions}${window.since ? `, since ${window.since.toISOString()}` : ""})`);
+  const listed = await listPageVersions(page.id, window);
+  const historyDir = path.join(pageDir, "history");
+
+  const bodies = new Map<number, string>();
+  for (const version of listed) {
+    const number = Number(version.number);
+    const body = number === page.version.number
+      ? page.body
+      : await readStoredBody(historyDir, `v${number}.html`)
+        ?? (await fetchDirectly(`/content/${page.id}?status=historical&version=${number}&expand=body.storage`)).body?.storage?.value
+        ?? "";
+    bodies.set(number, body);
+  }
+
+  // Rebuilt from scratch so versions that fell out of the window go away
+  await fs.rm(historyDir, { recursive: true, force: true });
+  await fs.mkdir(historyDir, { recursive: true });
+
+  const versions: PageVersion[] = [];
+  let previous: { version: PageVersion; text: string } | null = null;
+  for (const raw of [...listed].sort((a, b) => Number(a.number) - Number(b.number))) {
+    const number = Number(raw.number);
+    const body = bodies.get(number) ?? "";
+    const version: PageVersion = {
+      number,
+      author: {
+        displayName: raw.by?.displayName || "Unknown",
+        ...(raw.by?.accountId ? { accountId: raw.by.accountId } : {}),
+      },
+      createdAt: raw.when || null,
+      message: raw.message || "",
+      minorEdit: Boolean(raw.minorEdit),
+      file: `v${number}.html`,
+      diff: null,
+      changes: null,
+    };
+    await saveContentToFile(body, path.join(historyDir, version.file));
+
+    // Markdown keeps one block per line, so the diff follows paragraphs, list items and rows
+    const text = storageToMarkdown(body);
+    if (previous) {
+      const diff = createUnifiedDiff(previous.text, text, describeVersion(previous.version), describeVersion(version));
+      version.changes = countChanges(previous.text, text);
+      if (diff) {
+        version.diff = `v${number}.diff`;
+        await saveContentToFile(diff, path.join(historyDir, version.diff));
+      }
+    }
+    versions.push(version);
+    previous = { version, text };
+  }
+
+  const history: PageHistory = { pageId: page.id, title: page.title, versions };
+  await saveContentToFile(JSON.stringify(history, null, 2), path.join(historyDir, "versions.json"));
+  log.info(`Saved ${versions.length} versions of "${page.title}"`);
+  return history;
+}
+
+export type { HistoryOptions, HistoryWindow, PageHistory, PageVersion };
+export { resolveHistoryOptions, capturePageHistory, parseHistoryDate };
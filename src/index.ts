@@ -6,17 +6,70 @@
 
 import { ConfluenceClient } from "confluence.js";
 import type { Config } from "confluence.js/out/config";
-import { parse } from "node-html-parser";
+import type { HTMLElement } from "node-html-parser";
 import { config } from "dotenv";
 import fs from "node:fs/promises";
 import path from "node:path";
+import { createHash } from "node:crypto";
+import { confluenceRequest, buildAuthorizationHeader, ConfluenceHttpError, fetchDirectly, getConfluenceHost } from "./transport.ts";
+import { sanitizeFilename, saveContentToFile } from "./fs-utils.ts";
+import { getConcurrencySetting, runWithConcurrency } from "./pool.ts";
+import { collect, iterateChildPages, iterateSearchResults, iterateSpacePages, paginate } from "./pagination.ts";
+import { syncSpace } from "./sync.ts";
+import { scrapePageTree } from "./tree.ts";
+import { storageToMarkdown } from "./markdown.ts";
+import { childElement, parseStorageFormat, tagName } from "./storage.ts";
+import { extractText, parseMacros } from "./macros.ts";
+import { extractTables, renderTableText, parseTable, tableToCsv } from "./tables.ts";
+import { buildOutline } from "./outline.ts";
+import { commentChunksEnabled, extractCommentVectors, flattenComments, getPageComments } from "./comments.ts";
+import type { PageComment } from "./comments.ts";
+import { describeAttachment, downloadAttachment, downloadPageAttachments } from "./attachments.ts";
+import type { AttachmentFilter, AttachmentRecord, ConfluenceAttachment } from "./attachments.ts";
+import { attachmentTextEnabled, extractAttachmentVectors, registerAttachmentExtractor } from "./extractors.ts";
+import type { AttachmentExtractor } from "./extractors.ts";
+import { createAttachmentResolver, localAttachmentPath, localizeStorageHtml, reportAttachmentReferences } from "./references.ts";
+import type { AttachmentResolver, ReferenceReport } from "./references.ts";
+import { LINK_GRAPH_FILES, createPageTitleIndex, extractPageLinks, resolvePageLinks, writeLinkGraph } from "./links.ts";
+import type { LinkGraph, LinkReport, PageLink, PageTitleIndex } from "./links.ts";
+import { capturePageHistory, resolveHistoryOptions } from "./history.ts";
+import { createLogger } from "./logger.ts";
+import type { HistoryOptions, PageHistory, PageVersion } from "./history.ts";
+import {
+  createFileEmbeddingCache,
+  createHashEmbeddingProvider,
+  createOpenAIEmbeddingProvider,
+  embedVectors,
+  getEmbeddingOptionsFromEnv,
+} from "./embeddings.ts";
+import { closeSinks, createJsonlSink, createPgvectorSink, createQdrantSink } from "./sinks.ts";
+import { runCli } from "./cli.ts";
+import { chunkBlocks, countTokens, registerChunkingStrategy, registerTokenizer, resolveChunkingOptions } from "./chunking.ts";
+import { buildCql } from "./cql.ts";
+import { LABELS_EXPAND, filterByLabels, matchesLabelFilter, pageLabels, resolveLabelFilter } from "./labels.ts";
+import type { MacroNode } from "./macros.ts";
+import type { TableModel } from "./tables.ts";
+import type { ChunkingOptions, Tokenizer } from "./chunking.ts";
+import type { CqlContentType, CqlQuery } from "./cql.ts";
+import type { LabelFilter } from "./labels.ts";
+import { contentTypeDirectories, getContentType, registerContentType, resolveContentTypes } from "./content-types.ts";
+import type { ContentTypeDefinition } from "./content-types.ts";
+import type { Embedding, EmbeddingOptions, EmbeddingProvider } from "./embeddings.ts";
+import type { VectorSink } from "./sinks.ts";
 
 // Load environment variables from .env file
 config();
 
+const apiLog = createLogger("API");
+const scrapeLog = createLogger("Scrape");
+const validationLog = createLogger("Validation");
+const testLog = createLogger("Test");
+
 interface ConfluencePageResponse {
   id: string;
   title: string;
+  // "page" or "blogpost"
+  type?: string;
   body: {
     storage: {
       value: string;
@@ -26,6 +79,10 @@ interface ConfluencePageResponse {
     key: string;
     name?: string;
   };
+  ancestors?: {
+    id: string;
+    title: string;
+  }[];
   version: {
     number: number;
     when: string;
@@ -34,16 +91,10 @@ interface ConfluencePageResponse {
     };
     createdAt?: string;
   };
-}
-
-interface ConfluenceAttachment {
-  id: string;
-  title: string;
-  container: {
-    id: string;
-  };
   metadata?: {
-    mediaType: string;
+    labels?: {
+      results: { name: string; prefix?: string }[];
+    };
   };
 }
 
@@ -53,6 +104,47 @@ interface ConfluenceSpace {
   type?: string;
 }
 
+interface ScrapeOptions {
+  // Override the page directory (defaults to outputDir/spaceKey/title, blog posts under spaceKey/blog)
+  pageDir?: string;
+  attachmentConcurrency?: number;
+  // Chunking strategy and sizes for vector_content.json (defaults come from CONFLUENCE_CHUNK_*)
+  chunking?: ChunkingOptions;
+  // Embedding provider, batching and cache; null disables, unset reads CONFLUENCE_EMBEDDING_*
+  embedding?: EmbeddingOptions | null;
+  // Vector stores and files the chunks are exported to, shared across the run
+  sinks?: VectorSink[];
+  // Outputs to write (all by default)
+  formats?: OutputFormat[];
+  // Space, tree and query crawls skip pages failing this filter; unset reads
+  // CONFLUENCE_INCLUDE_LABELS / CONFLUENCE_EXCLUDE_LABELS
+  labels?: LabelFilter;
+  // Content types space and query crawls cover; unset reads CONFLUENCE_CONTENT_TYPES (pages only)
+  contentTypes?: string[];
+  // Add the page's comments to its chunks; unset reads CONFLUENCE_COMMENT_CHUNKS
+  commentChunks?: boolean;
+  // Size and media-type limits for attachment downloads; unset reads CONFLUENCE_ATTACHMENT_*
+  attachments?: AttachmentFilter;
+  // Chunk the text of downloaded attachments; unset reads CONFLUENCE_ATTACHMENT_TEXT (on by default)
+  attachmentText?: boolean;
+  // Title lookups for resolving links to other pages, shared across a crawl
+  pageIndex?: PageTitleIndex;
+  // Earlier versions and their diffs under history/; unset reads CONFLUENCE_HISTORY* (off by default)
+  history?: HistoryOptions;
+}
+
+interface SpaceScrapeResult {
+  spaceKey: string;
+  scraped: { pageId: string; title: string; outputDir: string }[];
+  failed: { pageId: string; title: string; error: string }[];
+}
+
+interface QueryScrapeResult {
+  cql: string;
+  scraped: { pageId: string; title: string; outputDir: string }[];
+  failed: { pageId: string; title: string; error: string }[];
+}
+
 interface ParsedContent {
   textContent: string;
   tables: string[][][];
@@ -64,11 +156,21 @@ interface ParsedContent {
     src: string | undefined;
     alt: string;
   }[];
+  macros: MacroNode[];
 }
 
 // Configuration
-const CONFLUENCE_HOST =
-  process.env.CONFLUENCE_HOST || "https://your-domain.atlassian.net";
+// Outputs scrapePage can write besides metadata.json
+const OUTPUT_FORMATS = ["html", "json", "text", "markdown", "tables", "attachments", "vectors", "comments", "links"] as const;
+type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+// Credentials validateConfiguration expects for each AUTH_METHOD
+const AUTH_REQUIRED_VARS: Record<string, string[]> = {
+  basic: ["CONFLUENCE_EMAIL", "CONFLUENCE_API_TOKEN"],
+  oauth2: ["CONFLUENCE_ACCESS_TOKEN"],
+  jwt: ["CONFLUENCE_JWT_ISSUER", "CONFLUENCE_JWT_SECRET"],
+  pat: ["CONFLUENCE_PAT"],
+};
 
 // Create the Confluence client based on authentication method
 function createConfluenceClient(): ConfluenceClient {
@@ -118,26 +220,18 @@ function createConfluenceClient(): ConfluenceClient {
   return new ConfluenceClient(clientConfig);
 }
 
-// Helper function to sanitize content for file system
-function sanitizeFilename(name: string): string {
-  return name.replace(/[/\\?%*:|"<>]/g, "-");
-}
-
 // Get page content with options to expand content
 async function getPageContent(client: any, pageId: string): Promise<ConfluencePageResponse> {
   try {
-    console.log(`[API] Fetching page content for ID: ${pageId}`);
-    const response = await fetchDirectly(`/content/${pageId}?expand=body.storage,version,space`);
+    apiLog.debug(`Fetching page content for ID: ${pageId}`);
+    const response = await fetchDirectly(`/content/${pageId}?expand=body.storage,version,space,ancestors,${LABELS_EXPAND}`);
 
     // Validate response data
     if (!response || !response.id) {
       throw new Error(`Invalid response received for page ${pageId}`);
     }
 
-    console.log(`[API] Successfully fetched page "${response.title}" (ID: ${pageId})`);
-    console.log('[API] Page metadata:', {
-      id: response.id,
-      title: response.title,
+    apiLog.debug(`Fetched page "${response.title}" (ID: ${pageId})`, {
       spaceKey: response.space?.key,
       version: response.version?.number,
       contentLength: response.body?.storage?.value?.length || 0
@@ -145,88 +239,38 @@ async function getPageContent(client: any, pageId: string): Promise<ConfluencePa
 
     return response;
   } catch (error) {
-    console.error(`[API] Error fetching page ${pageId}:`, error);
+    apiLog.error(`Error fetching page ${pageId}`, { error });
     throw error;
   }
 }
 
-// Get all attachments for a page
+// Get all attachments for a page, with their sizes and download links
 async function getPageAttachments(client: any, pageId: string): Promise<ConfluenceAttachment[]> {
   try {
-    console.log(`[API] Fetching attachments for page ID: ${pageId}`);
-    const response = await fetchDirectly(`/content/${pageId}/child/attachment?expand=version,metadata`);
-    
-    if (!response || !Array.isArray(response.results)) {
-      console.log(`[API] No attachments found for page ${pageId}`);
-      return [];
-    }
-
-    console.log(`[API] Found ${response.results.length} attachments`);
-    console.log('[API] Attachments summary:', response.results.map((att: any) => ({
-      id: att.id,
-      title: att.title,
-      mediaType: att.metadata?.mediaType
-    })));
-    return response.results;
-  } catch (error) {
-    console.error(`[API] Error fetching attachments for page ${pageId}:`, error);
-    return [];
-  }
-}
+    apiLog.debug(`Fetching attachments for page ID: ${pageId}`);
+    const attachments = await collect(paginate<ConfluenceAttachment>(
+      `/content/${pageId}/child/attachment?expand=version,metadata&limit=100`,
+    ));
 
-// Download an attachment
-async function downloadAttachment(client: any, attachmentId: string, targetDir: string): Promise<string | null> {
-  try {
-    // Get attachment metadata
-    const attachment = await fetchDirectly(`/content/${attachmentId}?expand=version,container`) as ConfluenceAttachment;
-
-    // The correct download URL format for attachments
-    const downloadUrl = `${CONFLUENCE_HOST}/wiki/download/attachments/${attachment.container.id}/${attachment.title}`;
-    const downloadResponse = await fetch(downloadUrl, {
-      headers: {
-        'Authorization': `Basic ${Buffer.from(`${process.env.CONFLUENCE_EMAIL}:${process.env.CONFLUENCE_API_TOKEN}`).toString('base64')}`,
-      }
-    });
-
-    if (!downloadResponse.ok) {
-      throw new Error(`Failed to download attachment: ${downloadResponse.status} - ${downloadResponse.statusText}`);
-    }
-
-    // Get the binary data
-    const arrayBuffer = await downloadResponse.arrayBuffer();
-
-    // Create filename based on attachment title
-    const filename = sanitizeFilename(attachment.title);
-    const filePath = path.join(targetDir, filename);
-
-    // Write the attachment to file
-    await fs.writeFile(filePath, Buffer.from(arrayBuffer));
-
-    console.log(`[API] Successfully downloaded attachment: ${filename}`);
-    return filePath;
+    apiLog.debug(`Found ${attachments.length} attachments`, { pageId });
+    return attachments;
   } catch (error) {
-    console.error(`[API] Error downloading attachment ${attachmentId}:`, error);
-    return null;
+    apiLog.error(`Error fetching attachments for page ${pageId}`, { error });
+    return [];
   }
 }
 
-// Parse the HTML content and extract relevant information
-function parseContentHtml(htmlContent: string): ParsedContent {
+// Parse the HTML content (or an already parsed tree) and extract relevant information.
+// Attachment images are resolved to local files when a resolver is given
+function parseContentHtml(htmlContent: string | HTMLElement, resolveAttachment?: AttachmentResolver): ParsedContent {
   try {
-    const root = parse(htmlContent);
+    const root = typeof htmlContent === "string" ? parseStorageFormat(htmlContent) : htmlContent;
 
-    // Extract text content
-    const textContent = root.textContent.trim();
+    // Extract text content, with macros labeled rather than flattened into raw text
+    const textContent = extractText(root).trim();
 
-    // Extract tables
-    const tables = root.querySelectorAll("table").map((table) => {
-      const rows = table.querySelectorAll("tr").map((row) => {
-        return row
-          .querySelectorAll("td, th")
-          .map((cell) => cell.textContent.trim());
-      });
-      return rows;
-    }) as string[][][];
+    // Extract tables as grids with spanned cells expanded
+    const tables = extractTables(root).map((table) => table.rows);
 
     // Extract links
     const links = root.querySelectorAll("a").map((link) => {
@@ -236,108 +280,78 @@ function parseContentHtml(htmlContent: string): ParsedContent {
       };
     });
 
-    // Extract images
-    const images = root.querySelectorAll("img").map((img) => {
+    // Extract images, both HTML and storage-format ones
+    const images = root.querySelectorAll("img, ac\\:image").map((img) => {
+      if (tagName(img) === "img") {
+        return {
+          src: img.getAttribute("src"),
+          alt: img.getAttribute("alt") || "",
+        };
+      }
+      const attachment = childElement(img, "ri:attachment");
+      const src = attachment
+        ? resolveAttachment ? resolveAttachment(attachment).href : localAttachmentPath(attachment.getAttribute("ri:filename") || "")
+        : childElement(img, "ri:url")?.getAttribute("ri:value");
       return {
-        src: img.getAttribute("src"),
-        alt: img.getAttribute("alt") || "",
+        src: src ?? undefined,
+        alt: img.getAttribute("ac:alt") || img.getAttribute("ac:title") || "",
       };
     });
 
+    // Extract ac:structured-macro blocks as typed nodes
+    const macros = parseMacros(root);
+
     return {
       textContent,
       tables,
       links,
       images,
+      macros,
     };
   } catch (error: unknown) {
-    console.error("Error parsing HTML content:", error instanceof Error ? error.message : String(error));
+    scrapeLog.error("Error parsing HTML content", { error });
     return {
       textContent: "",
       tables: [],
       links: [],
       images: [],
+      macros: [],
     };
   }
 }
 
 // Get all pages in a space
-async function getAllPagesInSpace(client: any, spaceKey: string, startAt: number = 0, limit: number = 50): Promise<ConfluencePageResponse[]> {
+async function getAllPagesInSpace(
+  client: any,
+  spaceKey: string,
+  startAt: number = 0,
+  limit: number = 50,
+  contentType: string = "page",
+): Promise<ConfluencePageResponse[]> {
   try {
-    console.log(`[API] Fetching pages in space "${spaceKey}" (start: ${startAt}, limit: ${limit})`);
-    const response = await fetchDirectly(`/content?spaceKey=${spaceKey}&type=page&start=${startAt}&limit=${limit}&expand=version`);
-    
-    // Validate response
-    if (!response || !Array.isArray(response.results)) {
-      throw new Error(`Invalid response format for space ${spaceKey}`);
-    }
-
-    console.log(`[API] Retrieved ${response.results.length} pages (Total: ${response.size || 0})`);
-    
-    let allPages = response.results;
-
-    if (response.size && response._links?.next) {
-      console.log(`[API] Fetching next batch of pages`);
-      const nextPages = await getAllPagesInSpace(client, spaceKey, startAt + limit, limit);
-      allPages = [...allPages, ...(nextPages || [])];
-    }
-
-    return allPages;
+    apiLog.debug(`Fetching ${contentType} content in space "${spaceKey}" (start: ${startAt}, limit: ${limit})`);
+    const pages = await collect(iterateSpacePages(spaceKey, { start: startAt, limit, type: getContentType(contentType).name }));
+    apiLog.debug(`Retrieved ${pages.length} ${contentType} items in space "${spaceKey}"`);
+    return pages;
   } catch (error) {
-    console.error(`[API] Error fetching pages in space ${spaceKey}:`, error);
-    return [];
+    apiLog.error(`Error fetching pages in space ${spaceKey}`, { error });
+    throw error;
   }
 }
 
-// Search for pages containing specific text
-async function searchPages(client: any, searchQuery: string, startAt: number = 0, limit: number = 50): Promise<any[]> {
+// Search pages by text, or by a CqlQuery for anything more specific. Results are the content
+// objects themselves, so their ids can go straight to scrapePage.
+async function searchPages(client: any, searchQuery: string | CqlQuery, startAt: number = 0, limit: number = 50): Promise<any[]> {
+  const cql = buildCql(typeof searchQuery === "string" ? { text: searchQuery } : searchQuery);
   try {
-    const response = await client.search.search({
-      cql: `text ~ "${searchQuery}"`,
-      start: startAt,
-      limit,
-      expand: ["version"],
-    });
-
-    // Validate response
-    if (!response || !Array.isArray(response.results)) {
-      throw new Error(`Invalid search response for query "${searchQuery}"`);
-    }
-
-    let allResults = response.results;
-
-    if (response.size && response.totalSize && response.start !== undefined &&
-        response.size + response.start < response.totalSize) {
-      const nextResults = await searchPages(client, searchQuery, startAt + limit, limit);
-      allResults = [...allResults, ...(nextResults || [])];
-    }
-
-    return allResults;
+    const results = await collect(iterateSearchResults(cql, { start: startAt, limit }));
+    return results.map((item) => item.content || item);
   } catch (error: unknown) {
-    const err = error as any;
-    console.error(`[API] Error searching for "${searchQuery}":`, {
-      error: err.message || String(error),
-      status: err.status,
-      details: err.response?.data || 'No additional details available'
+    apiLog.error(`Error searching for "${cql}"`, {
+      error,
+      status: error instanceof ConfluenceHttpError ? error.status : undefined,
     });
-    return [];
-  }
-}
-
-// Save content to file
-async function saveContentToFile(content: string, filePath: string): Promise<string | null> {
-  try {
-    // Ensure directory exists
-    const dir = path.dirname(filePath);
-    await fs.mkdir(dir, { recursive: true });
-
-    // Write to file
-    await fs.writeFile(filePath, content);
-    console.log(`Content saved to ${filePath}`);
-    return filePath;
-  } catch (error: unknown) {
-    console.error(`Error saving content to ${filePath}:`, error instanceof Error ? error.message : String(error));
-    return null;
+    throw error;
   }
 }
 
@@ -348,116 +362,72 @@ interface VectorizedContent {
   pageId: string;
   spaceKey: string;
   content: string;  // Changed back to string from object
-  type: 'section' | 'list_item' | 'metadata';
+  type: 'section' | 'list_item' | 'metadata' | 'comment' | 'attachment';
   metadata: {
     url: string;
     lastUpdated: string;
     author: string;
     section?: string;
+    // Heading titles leading to the chunk, outermost first
+    sectionPath?: string[];
+    // Page URL pointing at the chunk's section heading
+    anchorUrl?: string;
+    tokens?: number;
+    labels?: string[];
+    // Confluence content type of the source: "page", "blogpost" or "comment"
+    contentType?: string;
+    // Comment chunks: the comment, its thread and, for inline comments, the highlighted text
+    commentId?: string;
+    parentCommentId?: string | null;
+    commentLocation?: "footer" | "inline";
+    resolution?: string | null;
+    inlineText?: string | null;
+    // Attachment chunks: the attachment the text was extracted from
+    attachmentId?: string;
+    attachmentTitle?: string;
+    mediaType?: string;
   };
+  // Set when an embedding provider is configured
+  embedding?: Embedding;
 }
 
-// Update the extraction function to match the interface
-function extractVectorContent(htmlContent: string, pageMetadata: any): VectorizedContent[] {
+// Split the page along its heading outline and chunk each section with the configured chunking strategy
+function extractVectorContent(htmlContent: string, pageMetadata: any, chunking: ChunkingOptions = {}): VectorizedContent[] {
+  // Resolved outside the try so a misconfigured strategy fails loudly instead of yielding no chunks
+  const chunkingOptions = resolveChunkingOptions(chunking);
+
   try {
-    const root = parse(htmlContent);
+    const root = parseStorageFormat(htmlContent);
     const vectors: VectorizedContent[] = [];
     
+    const contentType = getContentType(pageMetadata.type);
     const baseMetadata = {
-      url: `${CONFLUENCE_HOST}/wiki/spaces/${pageMetadata.space.key}/pages/${pageMetadata.id}`,
+      url: contentType.webUrl(getConfluenceHost(), pageMetadata.space.key, pageMetadata.id),
       lastUpdated: pageMetadata.version.when,
       author: pageMetadata.version.by.displayName,
+      labels: pageLabels(pageMetadata),
+      contentType: contentType.name,
     };
 
-    // Process the main content first
-    const mainContent = root.querySelector('body') || root;
-    
-    // Split content into chunks based on headers and natural breaks
-    const contentSections = mainContent.querySelectorAll('div, p, table, ul, ol');
-    let currentChunk = {
-      content: '',
-      section: 'Main Content'
-    };
-    
-    contentSections.forEach((element, index) => {
-      // Check if this is a header
-      const header = element.querySelector('h1, h2, h3, h4, h5, h6');
-      if (header) {
-        // Save previous chunk if it exists
-        if (currentChunk.content.trim()) {
-          vectors.push({
-            id: `${pageMetadata.id}-chunk-${vectors.length}`,
-            title: pageMetadata.title,
-            pageId: pageMetadata.id,
-            spaceKey: pageMetadata.space.key,
-            content: currentChunk.content.trim(),
-            type: 'section',
-            metadata: {
-              ...baseMetadata,
-              section: currentChunk.section
-            }
-          });
-        }
-        // Start new chunk
-        currentChunk = {
-          content: header.textContent.trim(),
-          section: header.textContent.trim()
-        };
-      } else {
-        // Process different types of content
-        let text = '';
-        if (element.tagName === 'TABLE') {
-          text = processTable(element);
-        } else if (['UL', 'OL'].includes(element.tagName)) {
-          text = element.querySelectorAll('li')
-            .map(li => `• ${li.textContent.trim()}`)
-            .join('\n');
-        } else {
-          text = element.textContent.trim();
-        }
-
-        if (text) {
-          currentChunk.content += '\n\n' + text;
-        }
-
-        // Create a new chunk if it's getting too large (around 1000 characters)
-        if (currentChunk.content.length > 1000) {
-          vectors.push({
-            id: `${pageMetadata.id}-chunk-${vectors.length}`,
-            title: pageMetadata.title,
-            pageId: pageMetadata.id,
-            spaceKey: pageMetadata.space.key,
-            content: currentChunk.content.trim(),
-            type: 'section',
-            metadata: {
-              ...baseMetadata,
-              section: currentChunk.section
-            }
-          });
-          // Start new chunk with some overlap
-          const lastParagraph = currentChunk.content.split('\n\n').slice(-1)[0];
-          currentChunk = {
-            content: lastParagraph || '',
-            section: currentChunk.section
-          };
-        }
+    // Follow the heading outline so every chunk knows the section it belongs to
+    for (const { path: sectionPath, anchor, blocks } of buildOutline(root)) {
+      for (const content of chunkBlocks(blocks, chunkingOptions)) {
+        vectors.push({
+          id: `${pageMetadata.id}-chunk-${vectors.length}`,
+          title: pageMetadata.title,
+          pageId: pageMetadata.id,
+          spaceKey: pageMetadata.space.key,
+          content,
+          type: 'section',
+          metadata: {
+            ...baseMetadata,
+            section: sectionPath[sectionPath.length - 1] || 'Main Content',
+            sectionPath,
+            anchorUrl: anchor ? `${baseMetadata.url}#${encodeURIComponent(anchor)}` : baseMetadata.url,
+            tokens: countTokens(content, chunkingOptions.tokenizer)
+          }
+        });
       }
-    });
-
-    // Don't forget to add the last chunk
-    if (currentChunk.content.trim()) {
-      vectors.push({
-        id: `${pageMetadata.id}-chunk-${vectors.length}`,
-        title: pageMetadata.title,
-        pageId: pageMetadata.id,
-        spaceKey: pageMetadata.space.key,
-        content: currentChunk.content.trim(),
-        type: 'section',
-        metadata: {
-          ...baseMetadata,
-          section: currentChunk.section
-        }
-      });
     }
 
     // Add metadata vector
@@ -480,46 +450,29 @@ function extractVectorContent(htmlContent: string, pageMetadata: any): Vectorize
 
     return vectors;
   } catch (error) {
-    console.error("Error extracting vector content:", error);
+    scrapeLog.error("Error extracting vector content", { error });
     return [];
   }
 }
 
-// Update the processTable function to handle tables better
+// Render a table for chunking, with each row keyed by its column headers
 function processTable(tableNode: any): string {
   try {
-    const headers = tableNode.querySelectorAll('th')
-      .map((th: any) => th.textContent.trim());
-    
-    const rows = tableNode.querySelectorAll('tr')
-      .map((tr: any) => tr.querySelectorAll('td')
-        .map((td: any) => td.textContent.trim())
-      )
-      .filter((row: string[]) => row.length > 0);
-
-    let result = '';
-    if (headers.length > 0) {
-      result += `Table Headers: ${headers.join(' | ')}\n`;
-    }
-    rows.forEach((row: string[]) => {
-      result += `Row: ${row.join(' | ')}\n`;
-    });
-    
-    return result;
+    return renderTableText(parseTable(tableNode));
   } catch (error) {
-    console.error("Error processing table:", error);
+    scrapeLog.error("Error processing table", { error });
     return '';
   }
 }
 
 // Main function to scrape a Confluence page and save content
-async function scrapePage(client: any, pageId: string, outputDir: string = "./output"): Promise<{
+async function scrapePage(client: any, pageId: string, outputDir: string = "./output", options: ScrapeOptions = {}): Promise<{
   pageId: string;
   title: string;
   outputDir: string;
 } | null> {
   try {
-    console.log(`Scraping page with ID: ${pageId}`);
+    scrapeLog.debug(`Scraping page with ID: ${pageId}`);
 
     // Get page content
     const page = await getPageContent(client, pageId);
@@ -527,64 +480,186 @@ async function scrapePage(client: any, pageId: string, outputDir: string = "./ou
     const spaceKey = page.space ? page.space.key : "unknown";
 
     // Create directory for this page
-    const pageDir = path.join(outputDir, spaceKey, pageTitle);
+    const contentType = getContentType(page.type);
+    const pageDir = options.pageDir || path.join(outputDir, spaceKey, contentType.directory, pageTitle);
     await fs.mkdir(pageDir, { recursive: true });
 
     // Extract HTML content
     const htmlContent = page.body.storage.value;
 
-    // Save original HTML
-    await saveContentToFile(htmlContent, path.join(pageDir, "content.html"));
+    // Only the requested outputs are written; metadata.json always is
+    const formats = new Set<OutputFormat>(options.formats ?? OUTPUT_FORMATS);
+
+    // Download attachments through the output directory's content store; versions that did not
+    // change since the previous metadata.json are not downloaded again
+    const attachments = await getPageAttachments(client, pageId);
+    let attachmentRecords: AttachmentRecord[] = attachments.map((attachment) => describeAttachment(attachment, "listed"));
+    if (attachments.length > 0 && formats.has("attachments")) {
+      attachmentRecords = await downloadPageAttachments(attachments, path.join(pageDir, "attachments"), {
+        storeDir: process.env.CONFLUENCE_ATTACHMENT_STORE_DIR || path.join(outputDir, ".attachment-store"),
+        concurrency: options.attachmentConcurrency ?? getConcurrencySetting("CONFLUENCE_ATTACHMENT_CONCURRENCY", 4),
+        filter: options.attachments,
+        previous: await readPreviousAttachments(pageDir),
+      });
+    }
+
+    // Attachment images and links point at the downloaded files, or at Confluence for files
+    // that are not on disk
+    const resolveAttachment = createAttachmentResolver(attachmentRecords, { id: page.id, host: getConfluenceHost() });
 
-    // Parse HTML and extract information
-    const parsedContent = parseContentHtml(htmlContent);
+    // Save original HTML, with attachment images and links made viewable offline
+    if (formats.has("html")) {
+      await saveContentToFile(localizeStorageHtml(htmlContent, resolveAttachment), path.join(pageDir, "content.html"));
+    }
+
+    // Parse HTML once and extract information from the tree
+    const root = parseStorageFormat(htmlContent);
+    const parsedContent = parseContentHtml(root, resolveAttachment);
+    const attachmentReferences = reportAttachmentReferences(root, resolveAttachment);
+    if (attachmentReferences.unresolved.length > 0) {
+      scrapeLog.warn(`${attachmentReferences.unresolved.length} attachment references on "${page.title}" are not available locally`);
+    }
+
+    // Resolve links to other pages to their ids. The page itself joins the index, so later pages
+    // of the crawl that link to it need no lookup
+    const pageIndex = options.pageIndex ?? createPageTitleIndex();
+    pageIndex.add({ id: page.id, title: page.title, spaceKey, type: contentType.name });
+    if (formats.has("links")) {
+      const links = await resolvePageLinks(extractPageLinks(root, { spaceKey, host: getConfluenceHost() }), pageIndex);
+      await saveContentToFile(
+        JSON.stringify({ pageId: page.id, title: page.title, spaceKey, links }, null, 2),
+        path.join(pageDir, "links.json"),
+      );
+    }
 
     // Save parsed content as JSON
-    await saveContentToFile(
-      JSON.stringify(parsedContent, null, 2),
-      path.join(pageDir, "parsed_content.json"),
-    );
+    if (formats.has("json")) {
+      await saveContentToFile(
+        JSON.stringify(parsedContent, null, 2),
+        path.join(pageDir, "parsed_content.json"),
+      );
+    }
 
     // Save plain text content
-    await saveContentToFile(
-      parsedContent.textContent,
-      path.join(pageDir, "content.txt"),
-    );
+    if (formats.has("text")) {
+      await saveContentToFile(
+        parsedContent.textContent,
+        path.join(pageDir, "content.txt"),
+      );
+    }
 
-    // Download attachments
-    const attachments = await getPageAttachments(client, pageId);
+    // Save Markdown rendering of the storage format
+    if (formats.has("markdown")) {
+      await saveContentToFile(
+        storageToMarkdown(root, {
+          baseUrl: getConfluenceHost(),
+          spaceKey,
+          attachmentPath: (_filename, reference) => resolveAttachment(reference).href || "",
+        }),
+        path.join(pageDir, "content.md"),
+      );
+    }
 
-    // Create attachments directory
-    const attachmentsDir = path.join(pageDir, "attachments");
+    // Save each table as CSV and JSON, dropping tables left over from an earlier scrape
+    if (formats.has("tables")) {
+      const tablesDir = path.join(pageDir, "tables");
+      await fs.rm(tablesDir, { recursive: true, force: true });
+      const tables = extractTables(root);
+      if (tables.length > 0) {
+        await fs.mkdir(tablesDir, { recursive: true });
+        for (const table of tables) {
+          await saveContentToFile(tableToCsv(table), path.join(tablesDir, `table-${table.index}.csv`));
+          await saveContentToFile(JSON.stringify(table, null, 2), path.join(tablesDir, `table-${table.index}.json`));
+        }
+      }
+    }
 
-    if (attachments.length > 0) {
-      await fs.mkdir(attachmentsDir, { recursive: true });
+    // Chunk the text of downloaded attachments alongside the page body
+    const attachmentVectors = formats.has("attachments") && attachmentTextEnabled(options.attachmentText)
+      ? await extractAttachmentVectors(attachmentRecords, path.join(pageDir, "attachments"), {
+        id: page.id,
+        title: page.title,
+        spaceKey,
+        url: contentType.webUrl(getConfluenceHost(), spaceKey, page.id),
+        lastUpdated: page.version.when,
+        author: page.version.by?.displayName || "Unknown",
+        labels: pageLabels(page),
+      }, options.chunking)
+      : [];
+
+    // Fetch footer and inline comments when they are written or chunked. A failed listing
+    // leaves comments.json alone rather than replacing it with an empty one
+    const commentChunks = commentChunksEnabled(options.commentChunks);
+    let comments: PageComment[] | null = null;
+    if (formats.has("comments") || commentChunks) {
+      try {
+        comments = await getPageComments(pageId);
+      } catch (error) {
+        apiLog.error(`Error fetching comments for page ${pageId}`, { error });
+      }
+    }
+    if (comments && formats.has("comments")) {
+      await saveContentToFile(
+        JSON.stringify({ pageId: page.id, title: page.title, comments }, null, 2),
+        path.join(pageDir, "comments.json"),
+      );
+    }
 
-      for (const attachment of attachments) {
-        await downloadAttachment(client, attachment.id, attachmentsDir);
+    // Keep earlier versions with diffs between them when history is on. A failed listing is
+    // logged and leaves the previous history/ in place
+    const historyWindow = resolveHistoryOptions(options.history);
+    let history: PageHistory | null = null;
+    if (historyWindow) {
+      try {
+        history = await capturePageHistory({ id: page.id, title: page.title, body: htmlContent, version: page.version }, pageDir, historyWindow);
+      } catch (error) {
+        scrapeLog.error(`Error capturing history of page ${pageId}`, { error });
       }
     }
 
-    // Add debug logging for vector content
-    console.log(`[Scrape] Extracting vectors for page "${page.title}"`);
-    const vectorContent = extractVectorContent(htmlContent, page);
-    console.log(`[Scrape] Generated ${vectorContent.length} vectors`);
+    scrapeLog.debug(`Extracting vectors for page "${page.title}"`);
+    let vectorContent: VectorizedContent[] = extractVectorContent(htmlContent, page, options.chunking);
+    vectorContent.push(...attachmentVectors);
+    if (comments && commentChunks) {
+      vectorContent.push(...extractCommentVectors(comments, {
+        id: page.id,
+        title: page.title,
+        spaceKey,
+        url: contentType.webUrl(getConfluenceHost(), spaceKey, page.id),
+        labels: pageLabels(page),
+      }, options.chunking));
+    }
+    scrapeLog.debug(`Generated ${vectorContent.length} vectors`, { pageId });
+
+    // Embed the chunks when a provider is configured
+    const embedding = options.embedding === undefined ? getEmbeddingOptionsFromEnv(outputDir) : options.embedding;
+    if (embedding && vectorContent.length > 0) {
+      vectorContent = await embedVectors(vectorContent, embedding);
+      scrapeLog.debug(`Embedded ${vectorContent.filter((v) => v.embedding).length} chunks with ${embedding.provider.model}`);
+    }
 
     if (vectorContent.length === 0) {
-      console.warn(`[Scrape] Warning: No vectors generated for page "${page.title}"`);
-      console.log('[Scrape] HTML Content sample:', htmlContent.slice(0, 200));
+      scrapeLog.warn(`No vectors generated for page "${page.title}"`);
+      scrapeLog.debug("HTML content sample", { pageId, sample: htmlContent.slice(0, 200) });
     }
 
     // Save vector content with better error handling
     const vectorPath = path.join(pageDir, "vector_content.json");
-    try {
-      await saveContentToFile(
-        JSON.stringify(vectorContent, null, 2),
-        vectorPath
-      );
-      console.log(`[Scrape] Vectors saved to ${vectorPath}`);
-    } catch (error) {
-      console.error(`[Scrape] Error saving vectors to ${vectorPath}:`, error);
+    if (formats.has("vectors")) {
+      try {
+        await saveContentToFile(
+          JSON.stringify(vectorContent, null, 2),
+          vectorPath
+        );
+        scrapeLog.debug(`Vectors saved to ${vectorPath}`);
+      } catch (error) {
+        scrapeLog.error(`Error saving vectors to ${vectorPath}`, { error });
+      }
+    }
+
+    // Load the chunks into the configured sinks, replacing what they held for this page
+    for (const sink of options.sinks || []) {
+      await sink.write(vectorContent);
     }
 
     // Save metadata
@@ -595,17 +670,34 @@ async function scrapePage(client: any, pageId: string, outputDir: string = "./ou
       createdBy: page.version.by ? page.version.by.displayName : "Unknown",
       createdAt: page.version.createdAt,
       spaceKey,
-      attachments: attachments.map((att) => ({
-        id: att.id,
-        title: att.title,
-        mediaType: att.metadata ? att.metadata.mediaType : "Unknown",
+      contentType: contentType.name,
+      labels: pageLabels(page),
+      parentId: page.ancestors?.length ? page.ancestors[page.ancestors.length - 1]?.id : null,
+      ancestors: (page.ancestors || []).map((ancestor) => ({
+        id: ancestor.id,
+        title: ancestor.title,
       })),
+      contentHash: createHash("sha256").update(htmlContent).digest("hex"),
+      attachments: attachmentRecords,
+      // Attachment images and links that resolved to downloaded files, and the ones that did not
+      attachmentReferences,
+      // Comments and replies on the page; null when they were not fetched
+      comments: comments ? [...flattenComments(comments)].length : null,
+      // Versions kept under history/; null when history is off or could not be fetched
+      history: history
+        ? { versions: history.versions.length, oldest: history.versions[0]?.number ?? null, newest: history.versions.at(-1)?.number ?? null }
+        : null,
       vectorization: {
         chunks: vectorContent.length,
         types: [...new Set(vectorContent.map(v => v.type))],
-        totalTokens: vectorContent.reduce((acc, chunk) => 
-          acc + chunk.content.split(/\s+/).length, 0  // Fixed: content is now a string
-        )
+        totalTokens: vectorContent.reduce((acc, chunk) => acc + (chunk.metadata.tokens ?? countTokens(chunk.content)), 0),
+        embedding: embedding
+          ? {
+            provider: embedding.provider.name,
+            model: embedding.provider.model,
+            dimensions: vectorContent.find((v) => v.embedding)?.embedding?.dimensions ?? embedding.provider.dimensions ?? null,
+          }
+          : null
       }
     };
 
@@ -614,73 +706,294 @@ async function scrapePage(client: any, pageId: string, outputDir: string = "./ou
       path.join(pageDir, "metadata.json"),
     );
 
-    console.log(`Successfully scraped page "${page.title}" (ID: ${pageId})`);
+    scrapeLog.info(`Scraped page "${page.title}" (ID: ${pageId})`);
     return {
       pageId,
       title: page.title,
       outputDir: pageDir,
     };
   } catch (error: unknown) {
-    console.error(`Failed to scrape page ${pageId}:`, error instanceof Error ? error.message : String(error));
+    scrapeLog.error(`Failed to scrape page ${pageId}`, { error });
     return null;
   }
 }
 
+// Attachment records of the page's last scrape, if any
+async function readPreviousAttachments(pageDir: string): Promise<AttachmentRecord[]> {
+  try {
+    const metadata = JSON.parse(await fs.readFile(path.join(pageDir, "metadata.json"), "utf8"));
+    return Array.isArray(metadata.attachments) ? metadata.attachments : [];
+  } catch {
+    return [];
+  }
+}
+
+// Files and directories scrapePage writes inside a page directory. Child pages nested in a
+// page directory must not take these names.
+const RESERVED_PAGE_ENTRIES = new Set([
+  "attachments",
+  "tables",
+  "content.html",
+  "content.txt",
+  "content.md",
+  "parsed_content.json",
+  "vector_content.json",
+  "metadata.json",
+  "tombstone.json",
+  "comments.json",
+  "links.json",
+  "history",
+]);
+
+// Pages sharing a title would race for the same directory. Claims are made in enumeration
+// order: the first page keeps the plain title, later ones get a directory keyed by their id.
+function createPageDirectoryResolver(
+  baseDir: string,
+  reserved: Set<string> = new Set(),
+): (page: { id: string; title: string }) => string {
+  const claimed = new Map<string, string>();
+
+  return (page) => {
+    const title = sanitizeFilename(page.title);
+    const owner = claimed.get(title);
+    if (!reserved.has(title) && (!owner || owner === page.id)) {
+      claimed.set(title, page.id);
+      return path.join(baseDir, title);
+    }
+    return path.join(baseDir, `${title}-${page.id}`);
+  };
+}
+
+// Directories for the content of one space: pages at the space root, which keeps content type
+// directories such as "blog" and the link graph files free, and every other type in its own directory
+function createSpaceDirectoryResolver(
+  spaceDir: string,
+): (page: { id: string; title: string; type?: string }) => string {
+  const resolvers = new Map<string, (page: { id: string; title: string; type?: string }) => string>();
+
+  return (page) => {
+    const contentType = getContentType(page.type);
+    let resolve = resolvers.get(contentType.name);
+    if (!resolve) {
+      resolve = contentType.directory
+        ? createPageDirectoryResolver(path.join(spaceDir, contentType.directory))
+        : createPageDirectoryResolver(spaceDir, new Set([...contentTypeDirectories(), ...LINK_GRAPH_FILES]));
+      resolvers.set(contentType.name, resolve);
+    }
+    return resolve(page);
+  };
+}
+
+function resolvePageDirectories(
+  pages: { id: string; title: string; type?: string }[],
+  outputDir: string,
+  spaceKey: string,
+): Map<string, string> {
+  const resolve = createSpaceDirectoryResolver(path.join(outputDir, spaceKey));
+  return new Map(pages.map((page) => [page.id, resolve(page)]));
+}
+
+// Rebuild a space's link-graph.json and link-report.json from the pages on disk, unless links.json
+// is not among the formats. A failure is logged; the scraped pages stand on their own.
+async function writeSpaceLinkGraph(outputDir: string, spaceKey: string, formats?: OutputFormat[]): Promise<void> {
+  if (!(formats ?? OUTPUT_FORMATS).includes("links")) return;
+  try {
+    await writeLinkGraph(path.join(outputDir, spaceKey), spaceKey);
+  } catch (error) {
+    scrapeLog.error(`Error writing the link graph of space ${spaceKey}`, { error });
+  }
+}
+
+// Every item of the given content types in a space, one type after another. Items are tagged
+// with the type they were listed under.
+async function* iterateSpaceContent(
+  spaceKey: string,
+  contentTypes: ContentTypeDefinition[],
+  options: { limit?: number; expand?: string[] } = {},
+): AsyncGenerator<ConfluencePageResponse> {
+  for (const contentType of contentTypes) {
+    for await (const item of iterateSpacePages(spaceKey, { ...options, type: contentType.name })) {
+      yield { ...item, type: item.type || contentType.name };
+    }
+  }
+}
+
+// Scrape every page in a space with a bounded number of pages in flight. Pages are scraped
+// as enumeration streams them in; an enumeration failure is raised after in-flight pages finish.
+async function scrapeSpace(
+  client: any,
+  spaceKey: string,
+  outputDir: string = "./output",
+  pageConcurrency: number = getConcurrencySetting("CONFLUENCE_PAGE_CONCURRENCY", 4),
+  options: ScrapeOptions = {},
+): Promise<SpaceScrapeResult> {
+  const contentTypes = resolveContentTypes(options.contentTypes);
+  scrapeLog.info(`Scraping ${contentTypes.map((type) => type.name).join(", ")} content in space ${spaceKey} (concurrency: ${pageConcurrency})`);
+
+  const resolvePageDir = createSpaceDirectoryResolver(path.join(outputDir, spaceKey));
+  const labelFilter = resolveLabelFilter(options.labels);
+  const listing = filterByLabels(
+    iterateSpaceContent(spaceKey, contentTypes, { expand: ["version", LABELS_EXPAND] }),
+    labelFilter,
+  );
+  const pageIndex = options.pageIndex ?? createPageTitleIndex();
+  const pages: ConfluencePageResponse[] = [];
+  const results = await runWithConcurrency(listing, pageConcurrency, (page, index) => {
+    pages[index] = page;
+    pageIndex.add({ id: page.id, title: page.title, spaceKey, type: page.type });
+    return scrapePage(client, page.id, outputDir, { ...options, pageIndex, pageDir: resolvePageDir(page) });
+  });
+
+  const summary: SpaceScrapeResult = { spaceKey, scraped: [], failed: [] };
+  results.forEach((result, index) => {
+    const page = pages[index] as ConfluencePageResponse;
+    if (result.status === "fulfilled" && result.value) {
+      summary.scraped.push(result.value);
+    } else {
+      const error = result.status === "rejected"
+        ? (result.reason instanceof Error ? result.reason.message : String(result.reason))
+        : "Scrape failed";
+      summary.failed.push({ pageId: page.id, title: page.title, error });
+    }
+  });
+
+  scrapeLog.info(`Space ${spaceKey}: ${summary.scraped.length} scraped, ${summary.failed.length} failed`);
+  await writeSpaceLinkGraph(outputDir, spaceKey, options.formats);
+  return summary;
+}
+
+// Pages matching a CQL query and the label filter, at most maxResults of them. Other content types are skipped.
+async function* iterateQueryPages(
+  cql: string,
+  maxResults: number,
+  labelFilter: LabelFilter | null,
+  contentTypes: ContentTypeDefinition[],
+): AsyncGenerator<ConfluencePageResponse> {
+  const expand = ["space", LABELS_EXPAND];
+  const typeNames = new Set(contentTypes.map((type) => type.name));
+  async function* matchingPages(): AsyncGenerator<ConfluencePageResponse> {
+    for await (const item of iterateSearchResults(cql, { expand })) {
+      const content = item.content || item;
+      if (!content.type || typeNames.has(content.type)) yield content;
+    }
+  }
+
+  let count = 0;
+  for await (const page of filterByLabels(matchingPages(), labelFilter)) {
+    if (count >= maxResults) return;
+    count++;
+    yield page;
+  }
+}
+
+// Scrape every page matching a CQL query through the same pipeline as scrapeSpace.
+// Pages land under outputDir/spaceKey/title, with title clashes resolved per space.
+// Results outside the crawl's content types are skipped, and a CqlQuery without a type is
+// limited to them.
+async function scrapeQuery(
+  client: any,
+  query: string | CqlQuery,
+  outputDir: string = "./output",
+  pageConcurrency: number = getConcurrencySetting("CONFLUENCE_PAGE_CONCURRENCY", 4),
+  options: ScrapeOptions & { maxResults?: number } = {},
+): Promise<QueryScrapeResult> {
+  const { maxResults = Infinity, ...scrapeOptions } = options;
+  const contentTypes = resolveContentTypes(scrapeOptions.contentTypes);
+  const cql = typeof query === "string"
+    ? query
+    : buildCql({ ...query, type: query.type ?? contentTypes.map((type) => type.name as CqlContentType) });
+  scrapeLog.info(`Scraping pages matching "${cql}" (concurrency: ${pageConcurrency})`);
+
+  const resolvers = new Map<string, (page: { id: string; title: string }) => string>();
+  const pageIndex = scrapeOptions.pageIndex ?? createPageTitleIndex();
+  const pages: ConfluencePageResponse[] = [];
+  const listing = iterateQueryPages(cql, maxResults, resolveLabelFilter(scrapeOptions.labels), contentTypes);
+  const results = await runWithConcurrency(listing, pageConcurrency, (page, index) => {
+    pages[index] = page;
+    const spaceKey = page.space?.key;
+    if (!spaceKey) return scrapePage(client, page.id, outputDir, { ...scrapeOptions, pageIndex });
+    pageIndex.add({ id: page.id, title: page.title, spaceKey, type: page.type });
+    if (!resolvers.has(spaceKey)) {
+      resolvers.set(spaceKey, createSpaceDirectoryResolver(path.join(outputDir, spaceKey)));
+    }
+    const pageDir = resolvers.get(spaceKey)?.(page);
+    return scrapePage(client, page.id, outputDir, { ...scrapeOptions, pageIndex, pageDir });
+  });
+
+  const summary: QueryScrapeResult = { cql, scraped: [], failed: [] };
+  results.forEach((result, index) => {
+    const page = pages[index] as ConfluencePageResponse;
+    if (result.status === "fulfilled" && result.value) {
+      summary.scraped.push(result.value);
+    } else {
+      const error = result.status === "rejected"
+        ? (result.reason instanceof Error ? result.reason.message : String(result.reason))
+        : "Scrape failed";
+      summary.failed.push({ pageId: page.id, title: page.title, error });
+    }
+  });
+
+  scrapeLog.info(`Query "${cql}": ${summary.scraped.length} scraped, ${summary.failed.length} failed`);
+  return summary;
+}
+
 // Add this function after createConfluenceClient()
 async function validateConfiguration(client: any): Promise<boolean> {
-  console.log('[Validation] Checking environment variables and API access...');
+  validationLog.info('Checking environment variables and API access...');
   
-  // Check required env variables
-  const requiredVars = {
-    'CONFLUENCE_HOST': process.env.CONFLUENCE_HOST,
-    'CONFLUENCE_EMAIL': process.env.CONFLUENCE_EMAIL,
-    'CONFLUENCE_API_TOKEN': process.env.CONFLUENCE_API_TOKEN,
-    'CONFLUENCE_PAGE_ID': process.env.CONFLUENCE_PAGE_ID,
-    'CONFLUENCE_SPACE_KEY': process.env.CONFLUENCE_SPACE_KEY
-  };
+  // Check required env variables: the host plus the credentials of the configured auth method.
+  // CONFLUENCE_PAGE_ID and CONFLUENCE_SPACE_KEY are optional; whichever is set gets probed.
+  const authMethod = (process.env.AUTH_METHOD || 'basic').toLowerCase();
+  const credentialVars = AUTH_REQUIRED_VARS[authMethod];
+  if (!credentialVars) {
+    validationLog.error(`Unsupported authentication method: ${authMethod}`);
+    return false;
+  }
+  const requiredVars = ['CONFLUENCE_HOST', ...credentialVars];
 
   let missingVars = false;
-  for (const [name, value] of Object.entries(requiredVars)) {
+  for (const name of requiredVars) {
+    const value = process.env[name];
     if (!value) {
-      console.error(`[Validation] Missing required environment variable: ${name}`);
+      validationLog.error(`Missing required environment variable: ${name}`);
       missingVars = true;
     } else {
-      console.log(`[Validation] Found ${name}: ${name.includes('TOKEN') ? '****' : value}`);
+      validationLog.info(`Found ${name}: ${/TOKEN|SECRET|PAT$/.test(name) ? '****' : value}`);
     }
   }
-  
+
   if (missingVars) {
     return false;
   }
 
   // Test API connectivity
   try {
-    console.log('[Validation] Testing API connectivity...');
+    validationLog.info('Testing API connectivity...');
     
     // Test space access
     const spaceKey = process.env.CONFLUENCE_SPACE_KEY;
     if (spaceKey) {
-      console.log(`[Validation] Testing space access for: ${spaceKey}`);
+      validationLog.info(`Testing space access for: ${spaceKey}`);
       const spaceResponse = await client.space.getSpace({ spaceKey });
-      console.log(`[Validation] Successfully accessed space: "${spaceResponse.name}" (${spaceResponse.key})`);
+      validationLog.info(`Successfully accessed space: "${spaceResponse.name}" (${spaceResponse.key})`);
     }
 
     // Test page access
     const pageId = process.env.CONFLUENCE_PAGE_ID;
     if (pageId) {
-      console.log(`[Validation] Testing page access for ID: ${pageId}`);
+      validationLog.info(`Testing page access for ID: ${pageId}`);
       const pageResponse = await client.content.getContentById({
         id: pageId,
         expand: ['space']
       });
-      console.log(`[Validation] Successfully accessed page: "${pageResponse.title}" in space "${pageResponse.space?.key}"`);
+      validationLog.info(`Successfully accessed page: "${pageResponse.title}" in space "${pageResponse.space?.key}"`);
     }
 
-    console.log('[Validation] API connectivity test successful');
+    validationLog.info('API connectivity test successful');
     return true;
   } catch (error: unknown) {
     const err = error as any;
-    console.error('[Validation] API connectivity test failed:', {
+    validationLog.error('API connectivity test failed', {
       error: err.message || String(error),
       status: err.response?.status,
       statusText: err.response?.statusText,
@@ -702,16 +1015,14 @@ async function testSpaceAccess(client: any): Promise<boolean> {
       spaceKey.startsWith('~') ? spaceKey.substring(1) : `~${spaceKey}`
     ];
     
-    console.log('[Test] Trying space access with different key formats...');
+    testLog.info('Trying space access with different key formats...');
     
     for (const key of spaceKeys) {
       try {
-        console.log(`[Test] Attempting access with key: ${key}`);
+        testLog.info(`Attempting access with key: ${key}`);
         const response = await client.space.getSpace({ spaceKey: key });
         if (response && response.key) {
-          console.log(`[Test] Successfully accessed space with key: ${key}`);
-          console.log('[Test] Space details:', {
-            key: response.key,
+          testLog.info(`Successfully accessed space with key: ${key}`, {
             name: response.name,
             type: response.type
           });
@@ -720,123 +1031,117 @@ async function testSpaceAccess(client: any): Promise<boolean> {
           return true;
         }
       } catch (e: unknown) {
-        console.log(`[Test] Failed with key ${key}:`, e instanceof Error ? e.message : String(e));
+        testLog.warn(`Failed with key ${key}`, { error: e });
       }
     }
     return false;
   } catch (error: unknown) {
-    console.error('[Test] Space access test failed:', error);
+    testLog.error('Space access test failed', { error });
     return false;
   }
 }
 
-// Add this helper function
-async function fetchDirectly(endpoint: string, options: any = {}): Promise<any> {
-  const url = `${CONFLUENCE_HOST}/wiki/rest/api${endpoint}`;
-  const response = await fetch(url, {
-    ...options,
-    headers: {
-      'Authorization': `Basic ${Buffer.from(`${process.env.CONFLUENCE_EMAIL}:${process.env.CONFLUENCE_API_TOKEN}`).toString('base64')}`,
-      'Accept': 'application/json',
-      ...options.headers
+// Check REST access through the shared transport, probing the configured page and space
+async function testDirectFetch(
+  pageId: string | undefined = process.env.CONFLUENCE_PAGE_ID,
+  spaceKey: string | undefined = process.env.CONFLUENCE_SPACE_KEY,
+): Promise<boolean> {
+  try {
+    testLog.info('Testing direct fetch...');
+
+    // Without a page or space to probe, listing one space still proves the credentials work
+    if (!pageId && !spaceKey) {
+      await fetchDirectly(`/space?limit=1`);
+      testLog.info('Space listing succeeded');
+      return true;
     }
-  });
-  
-  if (!response.ok) {
-    throw new Error(`HTTP error! status: ${response.status}`);
-  }
-  
-  return response.json();
-}
 
-// Add this test function
-async function testDirectFetch(): Promise<boolean> {
-  try {
-    console.log('[Test] Testing direct fetch...');
-    
     // Test page content
-    const pageContent = await fetchDirectly(`/content/98317?expand=body.storage,space,version`);
-    console.log('[Test] Page content:', {
-      id: pageContent.id,
-      title: pageContent.title,
-      spaceKey: pageContent.space?.key
-    });
-    
+    if (pageId) {
+      const pageContent = await fetchDirectly(`/content/${pageId}?expand=body.storage,space,version`);
+      testLog.info(`Fetched page "${pageContent.title}" (${pageContent.id})`, { spaceKey: pageContent.space?.key });
+    }
+
     // Test space access
-    const spaceContent = await fetchDirectly(`/space/~5c0ec264b203a71cc9cb2d97`);
-    console.log('[Test] Space content:', {
-      key: spaceContent.key,
-      name: spaceContent.name
-    });
+    if (spaceKey) {
+      const spaceContent = await fetchDirectly(`/space/${encodeURIComponent(spaceKey)}`) as ConfluenceSpace;
+      testLog.info(`Fetched space "${spaceContent.name}" (${spaceContent.key})`);
+    }
     
     return true;
   } catch (error: unknown) {
-    console.error('[Test] Direct fetch failed:', error);
+    testLog.error('Direct fetch failed', { error });
     return false;
   }
 }
 
 // Main execution function - examples of usage
+// Entry point when run directly: everything is driven by the command line (see src/cli.ts)
 async function main(): Promise<void> {
-  try {
-    console.log('[Main] Testing direct fetch first...');
-    const directFetchWorking = await testDirectFetch();
-    
-    if (!directFetchWorking) {
-      console.error('[Main] Direct API access failed. Please verify credentials and permissions.');
-      process.exit(1);
-    }
-
-    console.log('[Main] Initializing Confluence client...');
-    const client = createConfluenceClient();
-    console.log('[Main] Client initialized successfully');
-
-    // Example 1: Scrape a single page by ID
-    const pageId = process.env.CONFLUENCE_PAGE_ID || "98317"; // Using the known working page ID
-    console.log(`[Main] Starting single page scrape for ID: ${pageId}`);
-    await scrapePage(client, pageId);
-
-    // Example 2: Scrape all pages in space
-    const spaceKey = process.env.CONFLUENCE_SPACE_KEY || "~5c0ec264b203a71cc9cb2d97"; // Using the known working space key
-    console.log(`[Main] Starting space scrape for key: ${spaceKey}`);
-    const pagesInSpace = await getAllPagesInSpace(client, spaceKey);
-
-    console.log(`[Main] Found ${pagesInSpace.length} pages in space ${spaceKey}`);
-    
-    for (const page of pagesInSpace) {
-      console.log(`[Main] Processing page "${page.title}" (${page.id})`);
-      await scrapePage(client, page.id);
-    }
-
-    console.log('[Main] Scraping completed successfully!');
-  } catch (error: unknown) {
-    const err = error as any;
-    console.error('[Main] Fatal error in scraping process:', {
-      error: err.message || String(error),
-      stack: err.stack,
-      details: err.response?.data
-    });
-    process.exit(1);
-  }
+  process.exitCode = await runCli(process.argv.slice(2));
 }
 
+export type { AttachmentExtractor, AttachmentFilter, AttachmentRecord, ContentTypeDefinition, PageComment, ReferenceReport, PageLink, PageTitleIndex, LinkGraph, LinkReport, HistoryOptions, PageHistory, PageVersion, ConfluencePageResponse, ScrapeOptions, SpaceScrapeResult, QueryScrapeResult, MacroNode, TableModel, ChunkingOptions, Tokenizer, CqlQuery, EmbeddingOptions, EmbeddingProvider, VectorizedContent, VectorSink, OutputFormat, LabelFilter };
 export {
   createConfluenceClient,
   sanitizeFilename,
   getPageContent,
   getPageAttachments,
+  getPageComments,
+  registerAttachmentExtractor,
   downloadAttachment,
   parseContentHtml,
+  storageToMarkdown,
   getAllPagesInSpace,
   searchPages,
+  buildCql,
   saveContentToFile,
   extractVectorContent,
+  countTokens,
+  chunkBlocks,
+  resolveChunkingOptions,
+  registerChunkingStrategy,
+  registerTokenizer,
+  embedVectors,
+  createOpenAIEmbeddingProvider,
+  createHashEmbeddingProvider,
+  createFileEmbeddingCache,
+  createJsonlSink,
+  createQdrantSink,
+  createPgvectorSink,
+  closeSinks,
+  OUTPUT_FORMATS,
   processTable,
+  extractTables,
+  tableToCsv,
   scrapePage,
+  scrapeSpace,
+  scrapeQuery,
+  matchesLabelFilter,
+  registerContentType,
+  getContentType,
+  resolveContentTypes,
+  iterateSpaceContent,
+  createPageTitleIndex,
+  writeLinkGraph,
+  writeSpaceLinkGraph,
+  resolvePageDirectories,
+  createPageDirectoryResolver,
+  RESERVED_PAGE_ENTRIES,
+  syncSpace,
+  scrapePageTree,
+  paginate,
+  iterateSpacePages,
+  iterateChildPages,
+  iterateSearchResults,
+  runWithConcurrency,
   validateConfiguration,
   testSpaceAccess,
   fetchDirectly,
-  testDirectFetch
+  testDirectFetch,
+  confluenceRequest,
+  buildAuthorizationHeader,
+  ConfluenceHttpError
 };
 
 // Run the main function only if this file is executed directly
@@ -0,0 +1,401 @@
+// src/job.ts
+// Declarative job files: several targets (spaces, page trees, CQL queries) with per-target options
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { OUTPUT_FORMATS, createConfluenceClient, scrapeQuery, scrapeSpace } from "./index.ts";
+import type { OutputFormat, ScrapeOptions } from "./index.ts";
+import { parseByteSize } from "./attachments.ts";
+import type { AttachmentFilter } from "./attachments.ts";
+import { parseHistoryDate } from "./history.ts";
+import type { HistoryOptions } from "./history.ts";
+import type { ChunkingOptions } from "./chunking.ts";
+import { contentTypeNames } from "./content-types.ts";
+import type { LabelFilter } from "./labels.ts";
+import { closeSinks, createSinksFromEnv } from "./sinks.ts";
+import { scrapePageTree } from "./tree.ts";
+import { createLogger } from "./logger.ts";
+
+const log = createLogger("Job");
+
+// Options a target can set for itself, falling back to the job-level value
+interface TargetOptions {
+  output?: string;
+  formats?: OutputFormat[];
+  labels?: LabelFilter;
+  chunking?: ChunkingOptions;
+  // space and cql targets: content types to include, e.g. ["page", "blogpost"]
+  contentTypes?: string[];
+  // Add comment chunks to vector_content.json and the sinks
+  commentChunks?: boolean;
+  attachments?: AttachmentFilter;
+  // Chunk the text of downloaded attachments (default true)
+  attachmentText?: boolean;
+  // Earlier page versions with diffs: enabled, maxVersions, since
+  history?: HistoryOptions;
+}
+
+// Exactly one of space, tree or cql selects what the target scrapes
+interface JobTarget extends TargetOptions {
+  space?: string;
+  tree?: string;
+  cql?: string;
+  // tree targets: levels below the root to include
+  maxDepth?: number;
+  // cql targets: maximum number of matching pages
+  limit?: number;
+}
+
+interface JobFile extends TargetOptions {
+  host?: string;
+  auth?: string;
+  concurrency?: number;
+  attachmentConcurrency?: number;
+  sinks?: string[];
+  embedding?: {
+    provider?: string;
+    model?: string;
+    url?: string;
+    dimensions?: number;
+  };
+  targets: JobTarget[];
+}
+
+interface TargetResult {
+  target: string;
+  scraped: number;
+  failed: { pageId: string; title: string; error: string }[];
+  // Set when the target could not be crawled at all
+  error?: string;
+}
+
+type Schema =
+  | { type: "string" }
+  | { type: "boolean" }
+  // Byte counts: a number, or a string such as "25MB"
+  | { type: "size" }
+  // Dates such as 2024-01-31 or an ISO timestamp
+  | { type: "date" }
+  // Page ids and similar: YAML reads unquoted 123456 as a number, so accept both
+  | { type: "id" }
+  | { type: "integer"; minimum: number }
+  | { type: "enum"; values: readonly string[] }
+  | { type: "array"; items: Schema; minItems?: number }
+  | { type: "object"; properties: Record<string, Schema>; required?: string[] };
+
+// Raised for unreadable or invalid job files; every problem is listed with its path
+class JobFileError extends Error {
+  issues: string[];
+
+  constructor(filePath: string, issues: string[]) {
+    super(`Invalid job file ${filePath}:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "JobFileError";
+    this.issues = issues;
+  }
+}
+
+// Job-level settings that stand in for environment variables. A variable that is already set
+// wins over the file, so one job file can be reused across environments.
+const JOB_ENV: [string, string][] = [
+  ["host", "CONFLUENCE_HOST"],
+  ["auth", "AUTH_METHOD"],
+  ["concurrency", "CONFLUENCE_PAGE_CONCURRENCY"],
+  ["attachmentConcurrency", "CONFLUENCE_ATTACHMENT_CONCURRENCY"],
+  ["sinks", "CONFLUENCE_SINKS"],
+  ["embedding.provider", "CONFLUENCE_EMBEDDING_PROVIDER"],
+  ["embedding.model", "CONFLUENCE_EMBEDDING_MODEL"],
+  ["embedding.url", "CONFLUENCE_EMBEDDING_URL"],
+  ["embedding.dimensions", "CONFLUENCE_EMBEDDING_DIMENSIONS"],
+  ["chunking.strategy", "CONFLUENCE_CHUNK_STRATEGY"],
+  ["chunking.targetTokens", "CONFLUENCE_CHUNK_TARGET_TOKENS"],
+  ["chunking.maxTokens", "CONFLUENCE_CHUNK_MAX_TOKENS"],
+  ["chunking.overlapTokens", "CONFLUENCE_CHUNK_OVERLAP_TOKENS"],
+  ["chunking.tokenizer", "CONFLUENCE_CHUNK_TOKENIZER"],
+  ["labels.include", "CONFLUENCE_INCLUDE_LABELS"],
+  ["labels.exclude", "CONFLUENCE_EXCLUDE_LABELS"],
+  ["contentTypes", "CONFLUENCE_CONTENT_TYPES"],
+  ["commentChunks", "CONFLUENCE_COMMENT_CHUNKS"],
+  ["attachments.maxSize", "CONFLUENCE_ATTACHMENT_MAX_SIZE"],
+  ["attachments.include", "CONFLUENCE_ATTACHMENT_INCLUDE_TYPES"],
+  ["attachments.exclude", "CONFLUENCE_ATTACHMENT_EXCLUDE_TYPES"],
+  ["attachmentText", "CONFLUENCE_ATTACHMENT_TEXT"],
+  ["history.enabled", "CONFLUENCE_HISTORY"],
+  ["history.maxVersions", "CONFLUENCE_HISTORY_MAX_VERSIONS"],
+  ["history.since", "CONFLUENCE_HISTORY_SINCE"],
+];
+
+// Built on demand: src/index.ts is still loading when the CLI imports this module
+function jobSchema(): Schema {
+  const stringList: Schema = { type: "array", items: { type: "string" } };
+  const targetOptions: Record<string, Schema> = {
+    output: { type: "string" },
+    formats: { type: "array", items: { type: "enum", values: OUTPUT_FORMATS } },
+    labels: { type: "object", properties: { include: stringList, exclude: stringList } },
+    chunking: {
+      type: "object",
+      properties: {
+        strategy: { type: "string" },
+        targetTokens: { type: "integer", minimum: 1 },
+        maxTokens: { type: "integer", minimum: 1 },
+        overlapTokens: { type: "integer", minimum: 0 },
+        tokenizer: { type: "string" },
+      },
+    },
+    contentTypes: { type: "array", items: { type: "enum", values: contentTypeNames() }, minItems: 1 },
+    commentChunks: { type: "boolean" },
+    attachments: { type: "object", properties: { maxSize: { type: "size" }, include: stringList, exclude: stringList } },
+    attachmentText: { type: "boolean" },
+    history: {
+      type: "object",
+      properties: { enabled: { type: "boolean" }, maxVersions: { type: "integer", minimum: 1 }, since: { type: "date" } },
+    },
+  };
+
+  return {
+    type: "object",
+    required: ["targets"],
+    properties: {
+      ...targetOptions,
+      host: { type: "string" },
+      auth: { type: "enum", values: ["basic", "oauth2", "jwt", "pat"] },
+      concurrency: { type: "integer", minimum: 1 },
+      attachmentConcurrency: { type: "integer", minimum: 1 },
+      sinks: { type: "array", items: { type: "enum", values: ["jsonl", "qdrant", "pgvector"] } },
+      embedding: {
+        type: "object",
+        properties: {
+          provider: { type: "enum", values: ["openai", "hash"] },
+          model: { type: "string" },
+          url: { type: "string" },
+          dimensions: { type: "integer", minimum: 1 },
+        },
+      },
+      targets: {
+        type: "array",
+        minItems: 1,
+        items: {
+          type: "object",
+          properties: {
+            ...targetOptions,
+            space: { type: "string" },
+            tree: { type: "id" },
+            cql: { type: "string" },
+            maxDepth: { type: "integer", minimum: 0 },
+            limit: { type: "integer", minimum: 1 },
+          },
+        },
+      },
+    },
+  };
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "string") return JSON.stringify(value);
+  return typeof value === "object" ? "an object" : String(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Check a value against the schema, collecting one message per problem as "path: message"
+function validateSchema(value: unknown, schema: Schema, at: string, issues: string[]): void {
+  const where = at || "(root)";
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string" || value.trim() === "") {
+        issues.push(`${where}: expected a non-empty string, got ${describe(value)}`);
+      }
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") {
+        issues.push(`${where}: expected true or false, got ${describe(value)}`);
+      }
+      return;
+    case "size":
+      try {
+        if (typeof value !== "number" && typeof value !== "string") throw new Error();
+        parseByteSize(value);
+      } catch {
+        issues.push(`${where}: expected a size in bytes or with a KB, MB or GB suffix, got ${describe(value)}`);
+      }
+      return;
+    case "date":
+      try {
+        if (typeof value !== "string") throw new Error();
+        parseHistoryDate(value);
+      } catch {
+        issues.push(`${where}: expected a date such as 2024-01-31, got ${describe(value)}`);
+      }
+      return;
+    case "id":
+      if (!(typeof value === "string" && value.trim() !== "") && !(Number.isInteger(value) && (value as number) >= 0)) {
+        issues.push(`${where}: expected an id (string or number), got ${describe(value)}`);
+      }
+      return;
+    case "integer":
+      if (!Number.isInteger(value) || (value as number) < schema.minimum) {
+        issues.push(`${where}: expected an integer of at least ${schema.minimum}, got ${describe(value)}`);
+      }
+      return;
+    case "enum":
+      if (typeof value !== "string" || !schema.values.includes(value)) {
+        issues.push(`${where}: expected one of ${schema.values.join(", ")}, got ${describe(value)}`);
+      }
+      return;
+    case "array":
+      if (!Array.isArray(value)) {
+        issues.push(`${where}: expected an array, got ${describe(value)}`);
+        return;
+      }
+      if (schema.minItems && value.length < schema.minItems) {
+        issues.push(`${where}: expected at least ${schema.minItems} item(s)`);
+      }
+      value.forEach((item, index) => validateSchema(item, schema.items, `${at}[${index}]`, issues));
+      return;
+    case "object":
+      if (!isPlainObject(value)) {
+        issues.push(`${where}: expected an object, got ${describe(value)}`);
+        return;
+      }
+      for (const key of schema.required ?? []) {
+        if (value[key] === undefined) issues.push(`${at ? `${at}.` : ""}${key}: is required`);
+      }
+      for (const [key, item] of Object.entries(value)) {
+        const property = schema.properties[key];
+        const keyPath = at ? `${at}.${key}` : key;
+        if (!property) {
+          issues.push(`${keyPath}: unknown property (expected one of ${Object.keys(schema.properties).join(", ")})`);
+        } else if (item !== undefined) {
+          validateSchema(item, property, keyPath, issues);
+        }
+      }
+  }
+}
+
+// Rules the schema cannot express: what each target selects and which options apply to it
+function validateTargets(targets: unknown[], issues: string[]): void {
+  targets.forEach((target, index) => {
+    if (!isPlainObject(target)) return;
+    const at = `targets[${index}]`;
+    const kinds = (["space", "tree", "cql"] as const).filter((kind) => target[kind] !== undefined);
+    if (kinds.length !== 1) {
+      issues.push(`${at}: expected exactly one of space, tree or cql, got ${kinds.length ? kinds.join(" and ") : "none"}`);
+    }
+    if (target.maxDepth !== undefined && target.tree === undefined) {
+      issues.push(`${at}.maxDepth: only applies to tree targets`);
+    }
+    if (target.limit !== undefined && target.cql === undefined) {
+      issues.push(`${at}.limit: only applies to cql targets`);
+    }
+  });
+}
+
+// True when the data has the shape of a job file, otherwise false with the problems added to issues
+function isJobFile(data: unknown, issues: string[]): data is JobFile {
+  validateSchema(data, jobSchema(), "", issues);
+  if (isPlainObject(data) && Array.isArray(data.targets)) {
+    validateTargets(data.targets, issues);
+  }
+  return issues.length === 0;
+}
+
+// Validate parsed job file contents; throws a JobFileError listing every problem found
+function parseJob(data: unknown, filePath: string = "job file"): JobFile {
+  const issues: string[] = [];
+  if (!isJobFile(data, issues)) throw new JobFileError(filePath, issues);
+
+  return {
+    ...data,
+    targets: data.targets.map((target) => (target.tree === undefined ? target : { ...target, tree: String(target.tree) })),
+  };
+}
+
+// Read a .json, .yaml or .yml job file
+async function loadJobFile(filePath: string): Promise<JobFile> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, "utf8");
+  } catch (error: unknown) {
+    throw new JobFileError(filePath, [`cannot be read: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  let data: unknown;
+  try {
+    if (/\.ya?ml$/i.test(filePath)) {
+      data = parseYaml(text);
+    } else {
+      data = JSON.parse(text);
+    }
+  } catch (error: unknown) {
+    throw new JobFileError(filePath, [`cannot be parsed: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+  return parseJob(data, filePath);
+}
+
+// Copy job-level settings into the environment where the matching variable is not set yet
+function applyJobEnvironment(job: JobFile): void {
+  for (const [key, envName] of JOB_ENV) {
+    const value = key.split(".").reduce<unknown>((parent, part) => (isPlainObject(parent) ? parent[part] : undefined), job);
+    if (value === undefined || process.env[envName] !== undefined) continue;
+    process.env[envName] = Array.isArray(value) ? value.join(",") : String(value);
+  }
+}
+
+function describeTarget(target: JobTarget): string {
+  if (target.space !== undefined) return `space ${target.space}`;
+  if (target.tree !== undefined) return `tree ${target.tree}`;
+  return `cql ${target.cql}`;
+}
+
+// Run every target in order, sharing the sinks configured for the job. A target that fails
+// outright is recorded and the remaining targets still run.
+async function runJob(job: JobFile, outputOverride?: string): Promise<TargetResult[]> {
+  applyJobEnvironment(job);
+  const baseOutput = outputOverride || job.output || "./output";
+  const sinks = createSinksFromEnv(baseOutput);
+  const results: TargetResult[] = [];
+
+  try {
+    for (const target of job.targets) {
+      const name = describeTarget(target);
+      const outputDir = outputOverride || target.output || baseOutput;
+      const options: ScrapeOptions = {
+        formats: target.formats ?? job.formats,
+        // Per-target settings are the most specific, so they win over the environment
+        chunking: target.chunking,
+        labels: target.labels,
+        contentTypes: target.contentTypes,
+        commentChunks: target.commentChunks,
+        attachments: target.attachments,
+        attachmentText: target.attachmentText,
+        history: target.history,
+        sinks,
+      };
+      log.info(`Running ${name} -> ${path.resolve(outputDir)}`);
+
+      try {
+        const client = createConfluenceClient();
+        const summary = target.space !== undefined
+          ? await scrapeSpace(client, target.space, outputDir, undefined, options)
+          : target.tree !== undefined
+            ? await scrapePageTree(client, target.tree, outputDir, { ...options, maxDepth: target.maxDepth })
+            : await scrapeQuery(client, target.cql as string, outputDir, undefined, { ...options, maxResults: target.limit });
+        results.push({ target: name, scraped: summary.scraped.length, failed: summary.failed });
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        log.error(`${name} failed`, { error: message });
+        results.push({ target: name, scraped: 0, failed: [], error: message });
+      }
+    }
+  } finally {
+    await closeSinks(sinks);
+  }
+  return results;
+}
+
+export type { JobFile, JobTarget, TargetOptions, TargetResult };
+export { JobFileError, parseJob, loadJobFile, applyJobEnvironment, runJob };
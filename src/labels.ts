@@ -0,0 +1,63 @@
+// src/labels.ts
+// Page labels: reading them from API responses and include/exclude filtering for crawls
+
+import { createLogger } from "./logger.ts";
+
+const log = createLogger("Labels");
+
+interface LabelFilter {
+  // Keep only pages carrying at least one of these labels
+  include?: string[];
+  // Drop pages carrying any of these labels; wins over include
+  exclude?: string[];
+}
+
+// Expansion that makes the content API return a page's labels
+const LABELS_EXPAND = "metadata.labels";
+
+// Label names of a page fetched with LABELS_EXPAND
+function pageLabels(page: any): string[] {
+  const results = page?.metadata?.labels?.results;
+  if (!Array.isArray(results)) return [];
+  return results.map((label: any) => label?.name).filter((name: unknown): name is string => typeof name === "string");
+}
+
+function splitLabels(value: string | undefined): string[] {
+  return (value || "").split(",").map((label) => label.trim()).filter(Boolean);
+}
+
+// The filter to apply, from the options or CONFLUENCE_INCLUDE_LABELS / CONFLUENCE_EXCLUDE_LABELS.
+// Returns null when nothing would be filtered.
+function resolveLabelFilter(filter?: LabelFilter): LabelFilter | null {
+  const include = filter?.include ?? splitLabels(process.env.CONFLUENCE_INCLUDE_LABELS);
+  const exclude = filter?.exclude ?? splitLabels(process.env.CONFLUENCE_EXCLUDE_LABELS);
+  if (include.length === 0 && exclude.length === 0) return null;
+  return { include, exclude };
+}
+
+// Confluence stores labels in lower case, so compare case-insensitively
+function matchesLabelFilter(labels: string[], filter: LabelFilter | null): boolean {
+  if (!filter) return true;
+  const names = new Set(labels.map((label) => label.toLowerCase()));
+  if ((filter.exclude ?? []).some((label) => names.has(label.toLowerCase()))) return false;
+  const include = filter.include ?? [];
+  return include.length === 0 || include.some((label) => names.has(label.toLowerCase()));
+}
+
+// Pass through the pages of a listing that match the filter, logging the ones left out
+async function* filterByLabels<T extends { id: string; title: string }>(
+  pages: AsyncIterable<T>,
+  filter: LabelFilter | null,
+  labelsOf: (page: T) => string[] = pageLabels,
+): AsyncGenerator<T> {
+  for await (const page of pages) {
+    if (matchesLabelFilter(labelsOf(page), filter)) {
+      yield page;
+    } else {
+      log.info(`Skipping "${page.title}" (${page.id}): labels [${labelsOf(page).join(", ")}]`);
+    }
+  }
+}
+
+export type { LabelFilter };
+export { LABELS_EXPAND, pageLabels, resolveLabelFilter, matchesLabelFilter, filterByLabels };
@@ -0,0 +1,285 @@
+// src/links.ts
+// Links between pages: outbound links of a page resolved to page ids (links.json), and the
+// space-wide link graph with its broken links and orphan pages (link-graph.json, link-report.json)
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { HTMLElement } from "node-html-parser";
+import { saveContentToFile } from "./fs-utils.ts";
+import { childElement, readPlainText, tagName } from "./storage.ts";
+import { fetchDirectly } from "./transport.ts";
+import { createLogger } from "./logger.ts";
+
+const log = createLogger("Links");
+
+interface PageLink {
+  // page and blogpost links point at Confluence content, external links anywhere else
+  type: "page" | "blogpost" | "external";
+  text: string;
+  // Target as the page names it; links by id or URL may leave the title unknown
+  spaceKey: string | null;
+  title: string | null;
+  anchor: string | null;
+  // href of links written as <a>; null for ac:link
+  url: string | null;
+  targetId: string | null;
+  // resolved: targetId is known; broken: no content has that title; unknown: the lookup failed
+  status: "resolved" | "broken" | "unknown" | null;
+}
+
+interface PageLinks {
+  pageId: string;
+  title: string;
+  spaceKey: string;
+  links: PageLink[];
+}
+
+// Title to id lookups shared by the pages of a crawl, so every linked title is fetched once
+interface PageTitleIndex {
+  add(content: { id: string; title: string; spaceKey: string; type?: string }): void;
+  // Id of the content with this title, or null when the space has none
+  find(spaceKey: string, title: string, type: "page" | "blogpost"): Promise<string | null>;
+}
+
+interface LinkGraphNode {
+  id: string;
+  title: string | null;
+  spaceKey: string | null;
+  contentType: string | null;
+  // Page directory relative to the space directory; null for linked pages that were not scraped
+  path: string | null;
+}
+
+interface LinkGraphEdge {
+  source: string;
+  target: string;
+  // Links from source to target; a page often links the same page more than once
+  count: number;
+}
+
+interface LinkGraph {
+  spaceKey: string;
+  generatedAt: string;
+  nodes: LinkGraphNode[];
+  edges: LinkGraphEdge[];
+}
+
+interface LinkReport {
+  spaceKey: string;
+  generatedAt: string;
+  pages: number;
+  links: number;
+  brokenLinks: { sourceId: string; sourceTitle: string; type: string; spaceKey: string | null; title: string | null; text: string }[];
+  // Links whose target could not be looked up; neither counted as broken nor as edges
+  unknownLinks: number;
+  // Scraped pages no other page links to
+  orphanPages: { id: string; title: string; path: string }[];
+}
+
+// Space-level files written next to the page directories
+const LINK_GRAPH_FILES = ["link-graph.json", "link-report.json"];
+
+function indexKey(spaceKey: string, title: string, type: string): string {
+  return `${type}\u0000${spaceKey}\u0000${title}`;
+}
+
+function createPageTitleIndex(): PageTitleIndex {
+  const entries = new Map<string, Promise<string | null>>();
+
+  return {
+    add(content) {
+      const type = content.type === "blogpost" ? "blogpost" : "page";
+      entries.set(indexKey(content.spaceKey, content.title, type), Promise.resolve(content.id));
+    },
+    find(spaceKey, title, type) {
+      const key = indexKey(spaceKey, title, type);
+      let entry = entries.get(key);
+      if (!entry) {
+        const query = `spaceKey=${encodeURIComponent(spaceKey)}&title=${encodeURIComponent(title)}&type=${type}&limit=1`;
+        entry = fetchDirectly(`/content?${query}`).then((response: { results?: { id?: string | number }[] }) => {
+          const id = response?.results?.[0]?.id;
+          return id ? String(id) : null;
+        });
+        // A failed lookup is retried by the next page that links the same title
+        entry.catch(() => entries.delete(key));
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+  };
+}
+
+function pageLink(type: PageLink["type"], text: string, fields: Partial<PageLink>): PageLink {
+  return { type, text, spaceKey: null, title: null, anchor: null, url: null, targetId: null, status: null, ...fields };
+}
+
+// Confluence URLs that name a page: /spaces/KEY/pages/ID, /spaces/KEY/blog/.../ID,
+// viewpage.action?pageId=ID and /display/KEY/Title. Other URLs are external.
+function parseConfluenceUrl(href: string, host: string, text: string): PageLink | null {
+  let url: URL;
+  try {
+    url = new URL(href, `${host}/`);
+  } catch {
+    return null;
+  }
+  if (url.origin !== new URL(host).origin || !url.pathname.startsWith("/wiki/")) return null;
+
+  const anchor = url.hash ? decodeURIComponent(url.hash.slice(1)) : null;
+  const route = url.pathname.slice("/wiki".length);
+  const byId = /^\/spaces\/([^/]+)\/(pages|blog\/\d{4}\/\d{2}\/\d{2})\/(\d+)/.exec(route);
+  if (byId) {
+    const type = byId[2] === "pages" ? "page" : "blogpost";
+    return pageLink(type, text, { spaceKey: decodeURIComponent(byId[1] as string), anchor, url: href, targetId: byId[3] as string });
+  }
+  if (route === "/pages/viewpage.action" && url.searchParams.get("pageId")) {
+    return pageLink("page", text, { anchor, url: href, targetId: url.searchParams.get("pageId") });
+  }
+  const byTitle = /^\/display\/([^/]+)\/([^/]+)$/.exec(route);
+  if (byTitle) {
+    const title = decodeURIComponent((byTitle[2] as string).replace(/\+/g, " "));
+    return pageLink("page", text, { spaceKey: decodeURIComponent(byTitle[1] as string), title, anchor, url: href });
+  }
+  return null;
+}
+
+// Outbound links of a page in document order: ac:link to pages and blog posts, and <a> links,
+// either to Confluence pages or external. Same-page anchors, attachments and mentions are left out.
+function extractPageLinks(root: HTMLElement, page: { spaceKey: string; host: string }): PageLink[] {
+  const links: PageLink[] = [];
+
+  for (const element of root.querySelectorAll("ac\\:link, a")) {
+    if (tagName(element) === "a") {
+      const href = element.getAttribute("href");
+      if (!href || href.startsWith("#") || !/^(https?:|\/)/i.test(href)) continue;
+      const text = element.text.trim();
+      links.push(parseConfluenceUrl(href, page.host, text) ?? pageLink("external", text, { url: href }));
+      continue;
+    }
+
+    const target = childElement(element, "ri:page") || childElement(element, "ri:blog-post");
+    if (!target) continue;
+    const title = target.getAttribute("ri:content-title") || null;
+    const richBody = childElement(element, "ac:link-body");
+    const text = (richBody ? richBody.text : readPlainText(childElement(element, "ac:plain-text-link-body"))).trim() || title || "";
+    links.push(pageLink(tagName(target) === "ri:page" ? "page" : "blogpost", text, {
+      spaceKey: target.getAttribute("ri:space-key") || page.spaceKey,
+      title,
+      anchor: element.getAttribute("ac:anchor") || null,
+      targetId: target.getAttribute("ri:content-id") || null,
+    }));
+  }
+  return links;
+}
+
+// Fill in target ids of links that name their target by title
+async function resolvePageLinks(links: PageLink[], index: PageTitleIndex): Promise<PageLink[]> {
+  return Promise.all(links.map(async (link) => {
+    if (link.type === "external") return link;
+    if (link.targetId) return { ...link, status: "resolved" as const };
+    if (!link.spaceKey || !link.title) return { ...link, status: "broken" as const };
+    try {
+      const targetId = await index.find(link.spaceKey, link.title, link.type);
+      return { ...link, targetId, status: targetId ? "resolved" as const : "broken" as const };
+    } catch (error) {
+      log.warn(`Could not look up "${link.title}" in ${link.spaceKey}`, { error });
+      return { ...link, status: "unknown" as const };
+    }
+  }));
+}
+
+// Page directories below a space directory, found by their metadata.json. Tombstoned pages have
+// none, and attachments, tables and dot directories are not searched.
+async function findPageDirectories(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const found = entries.some((entry) => entry.isFile() && entry.name === "metadata.json") ? [dir] : [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith(".") || entry.name === "attachments" || entry.name === "tables") continue;
+    found.push(...await findPageDirectories(path.join(dir, entry.name)));
+  }
+  return found;
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Build the link graph of a space from the links.json files of the pages on disk, and report
+// broken links and orphan pages. Both are written to the space directory.
+async function writeLinkGraph(spaceDir: string, spaceKey: string): Promise<{ graph: LinkGraph; report: LinkReport }> {
+  const generatedAt = new Date().toISOString();
+  const nodes = new Map<string, LinkGraphNode>();
+  const edges = new Map<string, LinkGraphEdge>();
+  const report: LinkReport = { spaceKey, generatedAt, pages: 0, links: 0, brokenLinks: [], unknownLinks: 0, orphanPages: [] };
+  const pageLinks: PageLinks[] = [];
+
+  for (const pageDir of (await findPageDirectories(spaceDir)).sort()) {
+    const metadata = await readJson<{ id?: string; title?: string; spaceKey?: string; contentType?: string }>(
+      path.join(pageDir, "metadata.json"),
+    );
+    if (!metadata?.id) continue;
+    nodes.set(String(metadata.id), {
+      id: String(metadata.id),
+      title: metadata.title ?? null,
+      spaceKey: metadata.spaceKey ?? spaceKey,
+      contentType: metadata.contentType ?? "page",
+      path: path.relative(spaceDir, pageDir).split(path.sep).join("/"),
+    });
+    const links = await readJson<PageLinks>(path.join(pageDir, "links.json"));
+    if (links && Array.isArray(links.links)) pageLinks.push(links);
+  }
+  report.pages = nodes.size;
+
+  const linked = new Set<string>();
+  for (const page of pageLinks) {
+    const source = String(page.pageId);
+    for (const link of page.links) {
+      if (link.type === "external") continue;
+      report.links++;
+      if (link.status === "broken") {
+        report.brokenLinks.push({ sourceId: source, sourceTitle: page.title, type: link.type, spaceKey: link.spaceKey, title: link.title, text: link.text });
+        continue;
+      }
+      if (!link.targetId) {
+        report.unknownLinks++;
+        continue;
+      }
+
+      const target = link.targetId;
+      if (!nodes.has(target)) {
+        nodes.set(target, { id: target, title: link.title, spaceKey: link.spaceKey, contentType: link.type, path: null });
+      }
+      const key = `${source}\u0000${target}`;
+      const edge = edges.get(key);
+      if (edge) edge.count++;
+      else edges.set(key, { source, target, count: 1 });
+      if (target !== source) linked.add(target);
+    }
+  }
+
+  for (const node of nodes.values()) {
+    if (node.path !== null && !linked.has(node.id)) {
+      report.orphanPages.push({ id: node.id, title: node.title || "", path: node.path });
+    }
+  }
+
+  const graph: LinkGraph = { spaceKey, generatedAt, nodes: [...nodes.values()], edges: [...edges.values()] };
+  await saveContentToFile(JSON.stringify(graph, null, 2), path.join(spaceDir, "link-graph.json"));
+  await saveContentToFile(JSON.stringify(report, null, 2), path.join(spaceDir, "link-report.json"));
+  log.info(
+    `Space ${spaceKey}: ${graph.nodes.length} nodes, ${graph.edges.length} edges, ` +
+    `${report.brokenLinks.length} broken links, ${report.orphanPages.length} orphan pages`,
+  );
+  return { graph, report };
+}
+
+export type { PageLink, PageLinks, PageTitleIndex, LinkGraph, LinkGraphNode, LinkGraphEdge, LinkReport };
+export { LINK_GRAPH_FILES, createPageTitleIndex, extractPageLinks, resolvePageLinks, writeLinkGraph };
@@ -0,0 +1,145 @@
+// src/logger.ts
+// Leveled logging with component tags ([API], [Scrape], ...), as text or JSON lines, with
+// credentials redacted before anything is written
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+type LogFormat = "text" | "json";
+type LogFields = Record<string, unknown>;
+
+interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+// Most to least verbose; "silent" turns logging off
+const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+const LOG_FORMATS = ["text", "json"] as const;
+
+const REDACTED = "****";
+
+// Environment variables holding credentials; their values never reach the output
+const SECRET_ENV = /TOKEN|SECRET|PASSWORD|API_KEY|^CONFLUENCE_PAT$/;
+// Field names whose string values are credentials, wherever they are nested
+const SECRET_FIELD = /token|secret|password|authorization|cookie|api[-_]?key|^pat$/i;
+// Credentials that can show up inside messages: auth headers, URL query parameters and userinfo
+const SECRET_PATTERNS: [RegExp, string][] = [
+  // Credentials have digits, symbols or mixed case, which keeps "Basic authentication" readable
+  [/\b(Bearer|Basic|JWT)\s+(?=\S*[\d=+/]|\S*[a-z]\S*[A-Z])[A-Za-z0-9._~+/=-]{8,}/g, `$1 ${REDACTED}`],
+  [/([?&](?:access_token|token|api_key|apikey|jwt|signature)=)[^&#\s"']+/gi, `$1${REDACTED}`],
+  [/(\bhttps?:\/\/)[^/\s:@]+:[^/\s@]+@/gi, `$1${REDACTED}@`],
+];
+
+function parseLogLevel(value: string): (typeof LOG_LEVELS)[number] {
+  const level = value.trim().toLowerCase();
+  if (!(LOG_LEVELS as readonly string[]).includes(level)) {
+    throw new Error(`Invalid log level: ${value} (available: ${LOG_LEVELS.join(", ")})`);
+  }
+  return level as (typeof LOG_LEVELS)[number];
+}
+
+function parseLogFormat(value: string): LogFormat {
+  const format = value.trim().toLowerCase();
+  if (!(LOG_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Invalid log format: ${value} (available: ${LOG_FORMATS.join(", ")})`);
+  }
+  return format as LogFormat;
+}
+
+// CONFLUENCE_LOG_LEVEL and CONFLUENCE_LOG_FORMAT, read on every call so flags set after
+// startup apply. Logging never throws: invalid values fall back to info and text.
+function getLogSettings(): { level: (typeof LOG_LEVELS)[number]; format: LogFormat } {
+  let level: (typeof LOG_LEVELS)[number] = "info";
+  let format: LogFormat = "text";
+  try {
+    if (process.env.CONFLUENCE_LOG_LEVEL) level = parseLogLevel(process.env.CONFLUENCE_LOG_LEVEL);
+  } catch {
+    // Reported by the CLI before anything runs
+  }
+  try {
+    if (process.env.CONFLUENCE_LOG_FORMAT) format = parseLogFormat(process.env.CONFLUENCE_LOG_FORMAT);
+  } catch {
+    // Same as above
+  }
+  return { level, format };
+}
+
+function secretValues(): string[] {
+  return Object.entries(process.env)
+    .filter(([name, value]) => SECRET_ENV.test(name) && value && value.length >= 4)
+    .map(([, value]) => value as string)
+    // Longest first, so a secret containing another is replaced whole
+    .sort((a, b) => b.length - a.length);
+}
+
+function redactText(text: string, secrets: string[] = secretValues()): string {
+  let redacted = text;
+  for (const secret of secrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  for (const [pattern, replacement] of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, replacement);
+  }
+  return redacted;
+}
+
+// Copy of a field value that is safe to write: errors become their message, secret fields are
+// masked and every string is redacted
+function redactValue(value: unknown, secrets: string[], depth = 0): unknown {
+  if (typeof value === "string") return redactText(value, secrets);
+  if (value instanceof Error) return redactText(value.message, secrets);
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= 5) return "[Object]";
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, secrets, depth + 1));
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    SECRET_FIELD.test(key) && typeof item === "string" ? REDACTED : redactValue(item, secrets, depth + 1),
+  ]));
+}
+
+// key=value pairs after the message; strings with spaces or quotes are JSON-quoted
+function formatFields(fields: LogFields): string {
+  return Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      const text = typeof value === "string" && !/[\s"=]/.test(value) && value !== "" ? value : JSON.stringify(value);
+      return ` ${key}=${text}`;
+    })
+    .join("");
+}
+
+function write(level: LogLevel, component: string, message: string, fields: LogFields = {}): void {
+  const settings = getLogSettings();
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(settings.level)) return;
+
+  const secrets = secretValues();
+  const safeMessage = redactText(message, secrets);
+  const safeFields = redactValue(fields, secrets) as LogFields;
+  let line: string;
+  if (settings.format === "json") {
+    // The record's own keys come first and cannot be overwritten by a field of the same name
+    const record = { time: new Date().toISOString(), level, component, message: safeMessage };
+    line = JSON.stringify({ ...record, ...safeFields, ...record });
+  } else {
+    line = `[${component}] ${safeMessage}${formatFields(safeFields)}`;
+  }
+
+  // Warnings and errors go to stderr, the rest to stdout
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+}
+
+// Logger whose lines are tagged with the component, e.g. createLogger("API")
+function createLogger(component: string): Logger {
+  return {
+    debug: (message, fields) => write("debug", component, message, fields),
+    info: (message, fields) => write("info", component, message, fields),
+    warn: (message, fields) => write("warn", component, message, fields),
+    error: (message, fields) => write("error", component, message, fields),
+  };
+}
+
+export type { Logger, LogLevel, LogFormat, LogFields };
+export { LOG_LEVELS, LOG_FORMATS, createLogger, parseLogLevel, parseLogFormat, redactText };
@@ -0,0 +1,141 @@
+// src/macros.ts
+// Macro-aware reading of Confluence storage format: typed macro nodes and labeled plain text
+
+import { HTMLElement, NodeType } from "node-html-parser";
+import type { Node } from "node-html-parser";
+import { childElement, readPlainText, tagName } from "./storage.ts";
+
+type PanelKind = "info" | "note" | "warning" | "tip" | "panel";
+
+type MacroNode =
+  | { type: "code"; language?: string; title?: string; body: string }
+  | { type: "panel"; kind: PanelKind; title?: string; body: string }
+  | { type: "expand"; title?: string; body: string }
+  | { type: "toc"; parameters: Record<string, string> }
+  | { type: "status"; title: string; colour?: string }
+  | { type: "jira"; key?: string; jql?: string; server?: string; parameters: Record<string, string> }
+  | { type: "unknown"; name: string; parameters: Record<string, string>; body?: string };
+
+const PANEL_KINDS = new Set<PanelKind>(["info", "note", "warning", "tip", "panel"]);
+
+// Labels used when macros are flattened into plain text
+const PANEL_LABELS: Record<PanelKind, string> = {
+  info: "Info",
+  note: "Note",
+  warning: "Warning",
+  tip: "Tip",
+  panel: "Panel",
+};
+
+function macroParameters(macro: HTMLElement): Record<string, string> {
+  const parameters: Record<string, string> = {};
+  for (const child of macro.childNodes) {
+    if (tagName(child) === "ac:parameter") {
+      const element = child as HTMLElement;
+      parameters[element.getAttribute("ac:name") || ""] = element.text.trim();
+    }
+  }
+  return parameters;
+}
+
+// Text of a macro body, whether it is plain text (CDATA) or rich text
+function macroBody(macro: HTMLElement): string | undefined {
+  const plain = childElement(macro, "ac:plain-text-body");
+  if (plain) return readPlainText(plain);
+
+  const rich = childElement(macro, "ac:rich-text-body");
+  return rich ? extractText(rich).trim() : undefined;
+}
+
+function toMacroNode(macro: HTMLElement): MacroNode {
+  const name = (macro.getAttribute("ac:name") || "").toLowerCase();
+  const parameters = macroParameters(macro);
+  const body = macroBody(macro);
+
+  switch (name) {
+    case "code":
+    case "noformat":
+      return {
+        type: "code",
+        ...(parameters.language ? { language: parameters.language } : {}),
+        ...(parameters.title ? { title: parameters.title } : {}),
+        body: body || "",
+      };
+    case "expand":
+      return { type: "expand", ...(parameters.title ? { title: parameters.title } : {}), body: body || "" };
+    case "toc":
+      return { type: "toc", parameters };
+    case "status":
+      return {
+        type: "status",
+        title: parameters.title || "",
+        ...(parameters.colour ? { colour: parameters.colour } : {}),
+      };
+    case "jira":
+      return {
+        type: "jira",
+        ...(parameters.key ? { key: parameters.key } : {}),
+        ...(parameters.jqlQuery ? { jql: parameters.jqlQuery } : {}),
+        ...(parameters.server ? { server: parameters.server } : {}),
+        parameters,
+      };
+    default:
+      if (PANEL_KINDS.has(name as PanelKind)) {
+        return {
+          type: "panel",
+          kind: name as PanelKind,
+          ...(parameters.title ? { title: parameters.title } : {}),
+          body: body || "",
+        };
+      }
+      // Keep everything we know about unrecognized macros so nothing is silently lost
+      return { type: "unknown", name, parameters, ...(body !== undefined ? { body } : {}) };
+  }
+}
+
+// Every ac:structured-macro in document order, nested macros included
+function parseMacros(root: HTMLElement): MacroNode[] {
+  return root
+    .querySelectorAll("*")
+    .filter((element) => tagName(element) === "ac:structured-macro")
+    .map(toMacroNode);
+}
+
+// Plain text of a storage-format tree with macros labeled instead of dropped or garbled:
+// parameters are left out, plain-text bodies are unwrapped and panels/status/jira are tagged
+function extractText(node: Node): string {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    return node.text;
+  }
+  if (!(node instanceof HTMLElement)) return "";
+
+  const tag = tagName(node);
+  if (tag === "ac:parameter") return "";
+  if (tag === "ac:plain-text-body" || tag === "ac:plain-text-link-body") return readPlainText(node);
+  if (tag !== "ac:structured-macro") {
+    return node.childNodes.map(extractText).join("");
+  }
+
+  const macro = toMacroNode(node);
+  switch (macro.type) {
+    case "code":
+      return `\n${macro.body}\n`;
+    case "panel": {
+      const label = macro.title ? `${PANEL_LABELS[macro.kind]} (${macro.title})` : PANEL_LABELS[macro.kind];
+      return `\n${label}: ${macro.body}\n`;
+    }
+    case "expand":
+      return `\n${macro.title ? `${macro.title}: ` : ""}${macro.body}\n`;
+    case "status":
+      return macro.title ? `[${macro.title.toUpperCase()}]` : "";
+    case "jira":
+      return macro.key ? `[${macro.key}]` : "";
+    case "toc":
+      return "";
+    default:
+      return macro.body ? `\n${macro.body}\n` : "";
+  }
+}
+
+export type { MacroNode, PanelKind };
+export { parseMacros, extractText };
@@ -0,0 +1,368 @@
+// src/markdown.ts
+// Render Confluence storage format (as parsed by node-html-parser) to GitHub-flavored Markdown
+
+import { HTMLElement, NodeType } from "node-html-parser";
+import type { Node } from "node-html-parser";
+import { childElement, macroParameter, parseStorageFormat, readPlainText, tagName } from "./storage.ts";
+
+interface MarkdownOptions {
+  // Confluence base URL used for links to other pages, e.g. https://your-domain.atlassian.net
+  baseUrl?: string;
+  // Space of the page being rendered; links without ri:space-key point here
+  spaceKey?: string;
+  // Where attachment references point; defaults to the page's attachments/ directory. Gets the
+  // ri:attachment element too; an empty string drops the reference's link
+  attachmentPath?: (filename: string, reference: HTMLElement) => string;
+}
+
+// Panel macros rendered as GitHub alert blockquotes
+const PANEL_ALERTS: Record<string, string> = {
+  info: "NOTE",
+  tip: "TIP",
+  note: "WARNING",
+  warning: "CAUTION",
+};
+
+const BLOCK_TAGS = new Set([
+  "p", "div", "section", "article", "header", "footer", "main", "body",
+  "h1", "h2", "h3", "h4", "h5", "h6",
+  "ul", "ol", "table", "pre", "blockquote", "hr",
+  "ac:task-list", "ac:layout", "ac:layout-section", "ac:layout-cell", "ac:rich-text-body",
+]);
+
+// Macros that sit inside running text rather than forming their own block
+const INLINE_MACROS = new Set(["status", "jira", "anchor"]);
+
+function isBlock(node: Node): boolean {
+  const tag = tagName(node);
+  if (tag === "ac:structured-macro") {
+    return !INLINE_MACROS.has(node instanceof HTMLElement ? node.getAttribute("ac:name") || "" : "");
+  }
+  return BLOCK_TAGS.has(tag);
+}
+
+function escapeText(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, "\\$1");
+}
+
+// Keep surrounding whitespace outside emphasis markers, where Markdown requires it
+function wrapInline(content: string, marker: string): string {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2]) return content;
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
+
+function codeFence(body: string): string {
+  const longestRun = Math.max(2, ...(body.match(/`+/g) || []).map((run) => run.length));
+  return "`".repeat(longestRun + 1);
+}
+
+function indent(text: string, prefix: string): string {
+  return text.split("\n").map((line) => (line ? `${prefix}${line}` : line)).join("\n");
+}
+
+function quote(text: string): string {
+  return text.split("\n").map((line) => (line ? `> ${line}` : ">")).join("\n");
+}
+
+function defaultAttachmentPath(filename: string): string {
+  return `attachments/${encodeURIComponent(filename.replace(/[/\\?%*:|"<>]/g, "-"))}`;
+}
+
+function pageUrl(title: string, spaceKey: string | undefined, options: MarkdownOptions): string {
+  const space = spaceKey || options.spaceKey;
+  if (!options.baseUrl || !space) return `#${encodeURIComponent(title)}`;
+  return `${options.baseUrl.replace(/\/+$/, "")}/wiki/display/${encodeURIComponent(space)}/${encodeURIComponent(title)}`;
+}
+
+function renderImage(element: HTMLElement, options: MarkdownOptions): string {
+  const alt = element.getAttribute("ac:alt") || element.getAttribute("ac:title") || "";
+  const attachment = childElement(element, "ri:attachment");
+  const url = childElement(element, "ri:url");
+
+  let src = "";
+  if (attachment) {
+    const filename = attachment.getAttribute("ri:filename") || "";
+    src = (options.attachmentPath || defaultAttachmentPath)(filename, attachment);
+  } else if (url) {
+    src = url.getAttribute("ri:value") || "";
+  }
+  return src ? `![${escapeText(alt)}](${src})` : "";
+}
+
+function renderConfluenceLink(element: HTMLElement, options: MarkdownOptions): string {
+  const anchor = element.getAttribute("ac:anchor");
+  const page = childElement(element, "ri:page") || childElement(element, "ri:blog-post");
+  const attachment = childElement(element, "ri:attachment");
+  const user = childElement(element, "ri:user");
+  const url = childElement(element, "ri:url");
+
+  const richBody = childElement(element, "ac:link-body");
+  const plainBody = childElement(element, "ac:plain-text-link-body");
+  let text = richBody ? renderInlineChildren(richBody, options).trim() : escapeText(readPlainText(plainBody).trim());
+
+  let href = "";
+  if (page) {
+    const title = page.getAttribute("ri:content-title") || "";
+    text ||= escapeText(title);
+    href = pageUrl(title, page.getAttribute("ri:space-key"), options);
+  } else if (attachment) {
+    const filename = attachment.getAttribute("ri:filename") || "";
+    text ||= escapeText(filename);
+    href = (options.attachmentPath || defaultAttachmentPath)(filename, attachment);
+  } else if (url) {
+    href = url.getAttribute("ri:value") || "";
+    text ||= escapeText(href);
+  } else if (user) {
+    return text || `@${user.getAttribute("ri:userkey") || user.getAttribute("ri:account-id") || "user"}`;
+  }
+
+  if (anchor) {
+    href = href ? `${href.replace(/#.*$/, "")}#${encodeURIComponent(anchor)}` : `#${encodeURIComponent(anchor)}`;
+    text ||= escapeText(anchor);
+  }
+  return href ? `[${text}](${href})` : text;
+}
+
+function renderInlineMacro(macro: HTMLElement): string {
+  switch (macro.getAttribute("ac:name")) {
+    case "status": {
+      const title = macroParameter(macro, "title") || macroParameter(macro, "colour") || "";
+      return title ? `\`${title.toUpperCase()}\`` : "";
+    }
+    case "jira":
+      return macroParameter(macro, "key") || "";
+    default:
+      return "";
+  }
+}
+
+function renderInline(node: Node, options: MarkdownOptions): string {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    return escapeText(node.text.replace(/\s+/g, " "));
+  }
+  if (!(node instanceof HTMLElement)) return "";
+
+  const tag = tagName(node);
+  switch (tag) {
+    case "strong":
+    case "b":
+      return wrapInline(renderInlineChildren(node, options), "**");
+    case "em":
+    case "i":
+      return wrapInline(renderInlineChildren(node, options), "_");
+    case "s":
+    case "del":
+    case "strike":
+      return wrapInline(renderInlineChildren(node, options), "~~");
+    case "code": {
+      const code = node.text;
+      const ticks = code.includes("`") ? "``" : "`";
+      return code ? `${ticks}${code}${ticks}` : "";
+    }
+    case "br":
+      return "  \n";
+    case "a": {
+      const text = renderInlineChildren(node, options).trim();
+      const href = node.getAttribute("href");
+      return href ? `[${text || escapeText(href)}](${href})` : text;
+    }
+    case "img": {
+      const src = node.getAttribute("src");
+      return src ? `![${escapeText(node.getAttribute("alt") || "")}](${src})` : "";
+    }
+    case "ac:image":
+      return renderImage(node, options);
+    case "ac:link":
+      return renderConfluenceLink(node, options);
+    case "ac:emoticon":
+      return `:${node.getAttribute("ac:name") || "emoticon"}:`;
+    case "ac:structured-macro":
+      return renderInlineMacro(node);
+    case "time":
+      return node.getAttribute("datetime") || node.text;
+    case "ac:placeholder":
+    case "ac:parameter":
+      return "";
+    default:
+      return renderInlineChildren(node, options);
+  }
+}
+
+function renderInlineChildren(element: HTMLElement, options: MarkdownOptions): string {
+  return element.childNodes.map((child) => renderInline(child, options)).join("");
+}
+
+function cleanInline(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/^ +/, ""))
+    .join("\n")
+    .trim();
+}
+
+// Render a sequence of nodes, grouping runs of inline content into paragraphs
+function renderBlocks(nodes: Node[], options: MarkdownOptions): string[] {
+  const blocks: string[] = [];
+  let inline: Node[] = [];
+
+  const flushInline = () => {
+    const text = cleanInline(inline.map((node) => renderInline(node, options)).join(""));
+    if (text) blocks.push(text);
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (isBlock(node)) {
+      flushInline();
+      const block = renderBlock(node as HTMLElement, options);
+      if (block) blocks.push(block);
+    } else {
+      inline.push(node);
+    }
+  }
+  flushInline();
+
+  return blocks;
+}
+
+function renderList(list: HTMLElement, options: MarkdownOptions): string {
+  const ordered = tagName(list) === "ol";
+  const items = list.childNodes.filter((child): child is HTMLElement => tagName(child) === "li");
+
+  return items.map((item, index) => {
+    const marker = ordered ? `${index + 1}. ` : "- ";
+    const content = renderBlocks(item.childNodes, options).join("\n");
+    return `${marker}${indent(content, " ".repeat(marker.length)).trimStart()}`;
+  }).join("\n");
+}
+
+function renderTaskList(list: HTMLElement, options: MarkdownOptions): string {
+  return list.childNodes
+    .filter((child): child is HTMLElement => tagName(child) === "ac:task")
+    .map((task) => {
+      const done = readPlainText(childElement(task, "ac:task-status")).trim() === "complete";
+      const body = childElement(task, "ac:task-body");
+      const content = body ? renderBlocks(body.childNodes, options).join("\n") : "";
+      return `- [${done ? "x" : " "}] ${indent(content, "      ").trimStart()}`;
+    })
+    .join("\n");
+}
+
+function renderTableCell(cell: HTMLElement, options: MarkdownOptions): string {
+  return renderBlocks(cell.childNodes, options)
+    .join("<br>")
+    .replace(/ {2}\n|\n/g, "<br>")
+    .replace(/\|/g, "\\|");
+}
+
+function renderTable(table: HTMLElement, options: MarkdownOptions): string {
+  const rows = table.querySelectorAll("tr")
+    // Rows of nested tables belong to the cell that holds them
+    .filter((row) => row.closest("table") === table)
+    .map((row) => row.childNodes
+      .filter((cell): cell is HTMLElement => ["td", "th"].includes(tagName(cell)))
+      .map((cell) => renderTableCell(cell, options)));
+
+  if (rows.length === 0) return "";
+
+  const columns = Math.max(...rows.map((row) => row.length));
+  const pad = (row: string[]) => [...row, ...Array(columns - row.length).fill("")];
+  const line = (row: string[]) => `| ${pad(row).join(" | ")} |`;
+
+  const [header, ...body] = rows;
+  return [
+    line(header as string[]),
+    `| ${Array(columns).fill("---").join(" | ")} |`,
+    ...body.map(line),
+  ].join("\n");
+}
+
+function renderCodeBlock(body: string, language: string = ""): string {
+  const code = body.replace(/^\n+|\s+$/g, "");
+  const fence = codeFence(code);
+  return `${fence}${language}\n${code}\n${fence}`;
+}
+
+function renderMacro(macro: HTMLElement, options: MarkdownOptions): string {
+  const name = (macro.getAttribute("ac:name") || "").toLowerCase();
+  const richBody = childElement(macro, "ac:rich-text-body");
+  const content = richBody ? renderBlocks(richBody.childNodes, options).join("\n\n") : "";
+
+  switch (name) {
+    case "code":
+    case "noformat":
+      return renderCodeBlock(readPlainText(childElement(macro, "ac:plain-text-body")), macroParameter(macro, "language") || "");
+    case "info":
+    case "tip":
+    case "note":
+    case "warning": {
+      const title = macroParameter(macro, "title");
+      const body = [title ? `**${escapeText(title)}**` : "", content].filter(Boolean).join("\n\n");
+      return quote(`[!${PANEL_ALERTS[name]}]\n${body}`);
+    }
+    case "panel": {
+      const title = macroParameter(macro, "title");
+      return quote([title ? `**${escapeText(title)}**` : "", content].filter(Boolean).join("\n\n"));
+    }
+    case "expand": {
+      const title = macroParameter(macro, "title") || "Click here to expand...";
+      return `<details>\n<summary>${escapeText(title)}</summary>\n\n${content}\n\n</details>`;
+    }
+    case "toc":
+      return "";
+    default:
+      if (content) return content;
+      {
+        const plain = readPlainText(childElement(macro, "ac:plain-text-body"));
+        return plain.trim() ? renderCodeBlock(plain) : "";
+      }
+  }
+}
+
+function renderBlock(element: HTMLElement, options: MarkdownOptions): string {
+  const tag = tagName(element);
+
+  switch (tag) {
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6": {
+      const text = cleanInline(renderInlineChildren(element, options)).replace(/\s*\n\s*/g, " ");
+      return text ? `${"#".repeat(Number(tag[1]))} ${text}` : "";
+    }
+    case "ul":
+    case "ol":
+      return renderList(element, options);
+    case "ac:task-list":
+      return renderTaskList(element, options);
+    case "table":
+      return renderTable(element, options);
+    case "pre":
+      return renderCodeBlock(element.text);
+    case "blockquote":
+      return quote(renderBlocks(element.childNodes, options).join("\n\n"));
+    case "hr":
+      return "---";
+    case "ac:structured-macro":
+      return renderMacro(element, options);
+    default:
+      return renderBlocks(element.childNodes, options).join("\n\n");
+  }
+}
+
+// Render a parsed storage-format tree (or raw storage HTML) to Markdown
+function storageToMarkdown(content: string | HTMLElement, options: MarkdownOptions = {}): string {
+  const root = typeof content === "string" ? parseStorageFormat(content) : content;
+  const markdown = renderBlocks(root.childNodes, options)
+    .join("\n\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return markdown ? `${markdown}\n` : "";
+}
+
+export type { MarkdownOptions };
+export { storageToMarkdown };
@@ -0,0 +1,139 @@
+// src/outline.ts
+// Split storage format into sections following the page's heading hierarchy
+
+import type { HTMLElement, Node } from "node-html-parser";
+import { extractText } from "./macros.ts";
+import { parseTable, renderTableText } from "./tables.ts";
+import { tagName } from "./storage.ts";
+
+interface OutlineSection {
+  // Heading titles from the outermost heading down to this section's own heading
+  path: string[];
+  // Fragment identifier of the section heading, null before the first heading
+  anchor: string | null;
+  // Text blocks in document order, starting with the heading itself
+  blocks: string[];
+}
+
+const HEADING = /^h([1-6])$/;
+
+// Layout and wrapper elements whose children are blocks of their own
+const CONTAINER_TAGS = new Set([
+  "body", "div", "section", "article", "main",
+  "ac:layout", "ac:layout-section", "ac:layout-cell",
+]);
+
+// Elements that start a block of their own; anything else is inline and joins its neighbours
+const BLOCK_TAGS = new Set([
+  ...CONTAINER_TAGS,
+  "p", "pre", "blockquote", "table", "ul", "ol", "hr",
+  "h1", "h2", "h3", "h4", "h5", "h6",
+  "ac:structured-macro", "ac:task-list",
+]);
+
+// Confluence Cloud heading anchors are the heading text with whitespace replaced by hyphens;
+// repeated headings get a numeric suffix
+function headingAnchor(title: string, seen: Map<string, number>): string {
+  const base = title.trim().replace(/\s+/g, "-");
+  const count = seen.get(base) || 0;
+  seen.set(base, count + 1);
+  return count === 0 ? base : `${base}.${count}`;
+}
+
+function listText(list: HTMLElement, depth: number = 0): string {
+  const lines: string[] = [];
+  for (const item of list.childNodes) {
+    if (tagName(item) !== "li") continue;
+
+    const own = (item as HTMLElement).childNodes
+      .filter((child) => !["ul", "ol"].includes(tagName(child)))
+      .map(extractText)
+      .join("")
+      .replace(/\s+/g, " ")
+      .trim();
+    lines.push(`${"  ".repeat(depth)}• ${own}`);
+
+    for (const child of (item as HTMLElement).childNodes) {
+      if (["ul", "ol"].includes(tagName(child))) {
+        lines.push(listText(child as HTMLElement, depth + 1));
+      }
+    }
+  }
+  return lines.filter(Boolean).join("\n");
+}
+
+function blockText(node: Node): string {
+  const tag = tagName(node);
+  if (tag === "table") return renderTableText(parseTable(node as HTMLElement)).trim();
+  if (tag === "ul" || tag === "ol") return listText(node as HTMLElement);
+  return extractText(node).trim();
+}
+
+// Walk the document once, opening a new section at every heading. Headings close every open
+// section of the same or a deeper level, so the path mirrors the page outline.
+function buildOutline(root: HTMLElement): OutlineSection[] {
+  const sections: OutlineSection[] = [];
+  const stack: { level: number; title: string }[] = [];
+  const anchors = new Map<string, number>();
+  let current: OutlineSection = { path: [], anchor: null, blocks: [] };
+
+  const addBlock = (text: string) => {
+    if (text) current.blocks.push(text);
+  };
+
+  // Children of a container: consecutive inline nodes form one block
+  const visitChildren = (container: HTMLElement) => {
+    let inline: Node[] = [];
+    const flush = () => {
+      addBlock(inline.map(extractText).join("").replace(/\s+/g, " ").trim());
+      inline = [];
+    };
+
+    for (const child of container.childNodes) {
+      if (BLOCK_TAGS.has(tagName(child))) {
+        flush();
+        visit(child as HTMLElement);
+      } else {
+        inline.push(child);
+      }
+    }
+    flush();
+  };
+
+  const visit = (node: HTMLElement) => {
+    const tag = tagName(node);
+    const heading = tag.match(HEADING);
+    if (heading) {
+      const level = Number(heading[1]);
+      const title = extractText(node).replace(/\s+/g, " ").trim();
+      if (!title) return;
+
+      while (stack.length > 0 && (stack[stack.length - 1] as { level: number }).level >= level) {
+        stack.pop();
+      }
+      stack.push({ level, title });
+      sections.push(current);
+      current = {
+        path: stack.map((entry) => entry.title),
+        anchor: headingAnchor(title, anchors),
+        blocks: [title],
+      };
+      return;
+    }
+
+    if (CONTAINER_TAGS.has(tag)) {
+      visitChildren(node);
+      return;
+    }
+    addBlock(blockText(node));
+  };
+
+  visitChildren(root);
+  sections.push(current);
+
+  // Drop the empty lead-in when the page starts with a heading
+  return sections.filter((section) => section.blocks.length > 0);
+}
+
+export type { OutlineSection };
+export { buildOutline, headingAnchor };
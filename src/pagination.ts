@@ -0,0 +1,85 @@
+// src/pagination.ts
+// Streaming enumerators over paginated Confluence listings
+
+import { fetchDirectly } from "./transport.ts";
+import { createLogger } from "./logger.ts";
+
+const log = createLogger("API");
+
+interface PageIteratorOptions {
+  start?: number;
+  limit?: number;
+  expand?: string[];
+  // Content type to list (iterateSpacePages only): "page" or "blogpost"
+  type?: string;
+}
+
+// Yield every result of a paginated REST listing, following _links.next (offset or cursor based).
+// Errors are raised rather than ending the listing early.
+async function* paginate<T = any>(endpoint: string, options: { signal?: AbortSignal } = {}): AsyncGenerator<T> {
+  let next: string | undefined = endpoint;
+
+  while (next) {
+    const response = await fetchDirectly(next, options.signal ? { signal: options.signal } : {});
+    if (!response || !Array.isArray(response.results)) {
+      throw new Error(`Invalid paginated response for ${next}`);
+    }
+
+    log.debug(`Retrieved ${response.results.length} results from ${next.split("?")[0]}`);
+    yield* response.results as T[];
+
+    next = response._links?.next;
+  }
+}
+
+// Stream the pages (or blog posts, with type) of a space as the API returns them
+function iterateSpacePages(spaceKey: string, options: PageIteratorOptions = {}): AsyncGenerator<any> {
+  const { start = 0, limit = 50, expand = ["version"], type = "page" } = options;
+  const query = [
+    `spaceKey=${encodeURIComponent(spaceKey)}`,
+    `type=${encodeURIComponent(type)}`,
+    `start=${start}`,
+    `limit=${limit}`,
+    expand.length > 0 ? `expand=${expand.join(",")}` : "",
+  ].filter(Boolean).join("&");
+
+  return paginate(`/content?${query}`);
+}
+
+// Stream the direct children of a page
+function iterateChildPages(pageId: string, options: PageIteratorOptions = {}): AsyncGenerator<any> {
+  const { start = 0, limit = 50, expand = ["version"] } = options;
+  const query = [
+    `start=${start}`,
+    `limit=${limit}`,
+    expand.length > 0 ? `expand=${expand.join(",")}` : "",
+  ].filter(Boolean).join("&");
+
+  return paginate(`/content/${pageId}/child/page?${query}`);
+}
+
+// Stream CQL search results through the shared transport. _links.next carries a cursor on Cloud
+// and a start offset on Server and Data Center; paginate follows either.
+function iterateSearchResults(cql: string, options: PageIteratorOptions = {}): AsyncGenerator<any> {
+  const { start = 0, limit = 50, expand = ["version"] } = options;
+  const query = [
+    `cql=${encodeURIComponent(cql)}`,
+    `start=${start}`,
+    `limit=${limit}`,
+    expand.length > 0 ? `expand=${expand.join(",")}` : "",
+  ].filter(Boolean).join("&");
+
+  return paginate(`/content/search?${query}`);
+}
+
+// Drain an async iterator into an array
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const results: T[] = [];
+  for await (const item of items) {
+    results.push(item);
+  }
+  return results;
+}
+
+export type { PageIteratorOptions };
+export { paginate, iterateSpacePages, iterateChildPages, iterateSearchResults, collect };
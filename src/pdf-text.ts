@@ -0,0 +1,216 @@
+// src/pdf-text.ts
+// Text layer of simple PDFs: inflate the content streams and replay their text operators.
+// Scanned pages have no text layer, and fonts with custom encodings come out as Latin-1.
+
+import { inflateSync } from "node:zlib";
+import { createLogger } from "./logger.ts";
+import { DEFAULT_MAX_ENTRY_SIZE } from "./zip.ts";
+
+const log = createLogger("Attachments");
+
+type PdfToken =
+  | { kind: "string"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "operator"; value: string }
+  | { kind: "array"; value: PdfToken[] };
+
+// Decode string bytes: UTF-16BE when marked with a byte order mark, Latin-1 otherwise
+function decodePdfBytes(bytes: number[]): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let text = "";
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode(((bytes[i] as number) << 8) | (bytes[i + 1] as number));
+    }
+    return text;
+  }
+  // Not String.fromCharCode(...bytes): spreading a long string's bytes overflows the stack
+  return Buffer.from(bytes).toString("latin1");
+}
+
+const LITERAL_ESCAPES: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, "(": 40, ")": 41, "\\": 92 };
+
+// Tokenize a content stream (read as Latin-1, one char per byte). Names, dictionaries and
+// inline images are skipped; only what text operators need is kept.
+function tokenizeContent(source: string): PdfToken[] {
+  const root: PdfToken[] = [];
+  const stack: PdfToken[][] = [root];
+  let i = 0;
+  const push = (token: PdfToken) => (stack[stack.length - 1] as PdfToken[]).push(token);
+
+  while (i < source.length) {
+    const char = source[i] as string;
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "%") {
+      while (i < source.length && source[i] !== "\n" && source[i] !== "\r") i++;
+    } else if (char === "(") {
+      const bytes: number[] = [];
+      let depth = 1;
+      i++;
+      while (i < source.length && depth > 0) {
+        const c = source[i] as string;
+        if (c === "\\") {
+          const next = source[i + 1] as string;
+          if (/[0-7]/.test(next)) {
+            const octal = /^[0-7]{1,3}/.exec(source.slice(i + 1, i + 4)) as RegExpExecArray;
+            bytes.push(parseInt(octal[0], 8) & 0xff);
+            i += 1 + octal[0].length;
+          } else if (next === "\r" || next === "\n") {
+            // Line continuation
+            i += next === "\r" && source[i + 2] === "\n" ? 3 : 2;
+          } else {
+            bytes.push(LITERAL_ESCAPES[next] ?? next.charCodeAt(0));
+            i += 2;
+          }
+          continue;
+        }
+        if (c === "(") depth++;
+        if (c === ")" && --depth === 0) break;
+        bytes.push(c.charCodeAt(0));
+        i++;
+      }
+      i++;
+      push({ kind: "string", value: decodePdfBytes(bytes) });
+    } else if (char === "<" && source[i + 1] === "<") {
+      // Dictionaries only carry operands of marked-content operators; skip them whole
+      let depth = 0;
+      while (i < source.length) {
+        if (source.startsWith("<<", i)) { depth++; i += 2; continue; }
+        if (source.startsWith(">>", i)) { depth--; i += 2; if (depth === 0) break; continue; }
+        i++;
+      }
+    } else if (char === "<") {
+      const close = source.indexOf(">", i);
+      const hex = source.slice(i + 1, close < 0 ? source.length : close).replace(/\s/g, "");
+      const bytes = (hex.length % 2 ? `${hex}0` : hex).match(/../g)?.map((pair) => parseInt(pair, 16)) ?? [];
+      push({ kind: "string", value: decodePdfBytes(bytes) });
+      i = close < 0 ? source.length : close + 1;
+    } else if (char === "[") {
+      const array: PdfToken[] = [];
+      push({ kind: "array", value: array });
+      stack.push(array);
+      i++;
+    } else if (char === "]") {
+      if (stack.length > 1) stack.pop();
+      i++;
+    } else if (char === "/") {
+      i++;
+      while (i < source.length && !/[\s/[\]()<>{}%]/.test(source[i] as string)) i++;
+    } else {
+      const match = /^[^\s/[\]()<>{}%]+/.exec(source.slice(i, i + 64));
+      const word = match ? match[0] : char;
+      i += word.length;
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+        push({ kind: "number", value: parseFloat(word) });
+      } else {
+        push({ kind: "operator", value: word });
+        // Inline image data is binary; jump past it
+        if (word === "ID") {
+          const end = source.indexOf("EI", i);
+          i = end < 0 ? source.length : end + 2;
+        }
+      }
+    }
+  }
+  return root;
+}
+
+// Replay the text-showing and text-positioning operators of one content stream
+function contentStreamText(source: string): string {
+  let text = "";
+  let operands: PdfToken[] = [];
+  let lineY: number | null = null;
+  const newline = () => {
+    if (text && !text.endsWith("\n")) text += "\n";
+  };
+
+  for (const token of tokenizeContent(source)) {
+    if (token.kind !== "operator") {
+      operands.push(token);
+      continue;
+    }
+    const last = operands[operands.length - 1];
+    switch (token.value) {
+      case "Tj":
+        if (last?.kind === "string") text += last.value;
+        break;
+      case "'":
+      case "\"":
+        newline();
+        if (last?.kind === "string") text += last.value;
+        break;
+      case "TJ":
+        if (last?.kind === "array") {
+          for (const item of last.value) {
+            if (item.kind === "string") text += item.value;
+            // Large negative adjustments are word gaps rather than kerning
+            else if (item.kind === "number" && item.value < -200 && !text.endsWith(" ")) text += " ";
+          }
+        }
+        break;
+      case "Td":
+      case "TD": {
+        const ty = operands[operands.length - 1];
+        if (ty?.kind === "number" && ty.value !== 0) newline();
+        else if (text && !/\s$/.test(text)) text += " ";
+        break;
+      }
+      case "T*":
+        newline();
+        break;
+      case "Tm": {
+        // Runs placed on the same baseline belong to one line
+        const y = operands[5];
+        if (y?.kind === "number" && y.value !== lineY) newline();
+        else if (text && !/\s$/.test(text)) text += " ";
+        lineY = y?.kind === "number" ? y.value : null;
+        break;
+      }
+    }
+    operands = [];
+  }
+  return text;
+}
+
+// Text of every Flate-compressed or uncompressed content stream, in file order. Streams that
+// would inflate past maxStreamSize bytes are skipped, like oversized ZIP entries.
+function extractPdfText(buffer: Buffer, maxStreamSize: number = DEFAULT_MAX_ENTRY_SIZE): string {
+  const source = buffer.toString("latin1");
+  if (!source.startsWith("%PDF-")) {
+    throw new Error("Not a PDF file");
+  }
+
+  const pages: string[] = [];
+  const streamPattern = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(source))) {
+    const start = match.index + match[0].length;
+    const end = source.indexOf("endstream", start);
+    if (end < 0) break;
+    streamPattern.lastIndex = end + "endstream".length;
+
+    const dictionary = source.slice(source.lastIndexOf("obj", match.index), match.index);
+    if (/\/Subtype\s*\/Image|\/Type\s*\/(XRef|ObjStm|Metadata)/.test(dictionary)) continue;
+    const filters = [...dictionary.matchAll(/\/(\w+Decode)\b/g)].map((filter) => filter[1]);
+    if (filters.some((filter) => filter !== "FlateDecode")) continue;
+
+    let data = buffer.subarray(start, end);
+    if (filters.length > 0) {
+      try {
+        data = inflateSync(data, { maxOutputLength: maxStreamSize });
+      } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+          log.warn(`Skipping PDF stream at byte ${start}: over the ${maxStreamSize} byte limit once inflated`);
+        }
+        continue;
+      }
+    }
+    const content = data.toString("latin1");
+    if (!/\bBT\b/.test(content)) continue;
+    const text = contentStreamText(content).trim();
+    if (text) pages.push(text);
+  }
+  return pages.join("\n\n");
+}
+
+export { extractPdfText, contentStreamText };
@@ -0,0 +1,63 @@
+// src/pool.ts
+// Bounded-concurrency worker pool used for pages and attachments
+
+// Read a concurrency limit from the environment, falling back when unset or invalid
+function getConcurrencySetting(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "");
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Run `worker` over every item with at most `concurrency` in flight.
+// Items may come from an array or a (possibly still running) async iterator, so work starts
+// while enumeration continues. Worker failures are isolated per item and results keep the
+// source order, regardless of completion order. A failing source is re-thrown once in-flight
+// work has settled.
+async function runWithConcurrency<T, R>(
+  items: Iterable<T> | AsyncIterable<T>,
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const iterator = Symbol.asyncIterator in items
+    ? (items as AsyncIterable<T>)[Symbol.asyncIterator]()
+    : (items as Iterable<T>)[Symbol.iterator]();
+  const results: PromiseSettledResult<R>[] = [];
+  let nextIndex = 0;
+  let exhausted = false;
+  let sourceError: { error: unknown } | null = null;
+
+  const runWorker = async () => {
+    while (!exhausted) {
+      // Claim the index before awaiting so results follow the order items were produced
+      const index = nextIndex++;
+      let next: IteratorResult<T>;
+      try {
+        next = await iterator.next();
+      } catch (error) {
+        exhausted = true;
+        sourceError ??= { error };
+        return;
+      }
+      if (next.done) {
+        exhausted = true;
+        return;
+      }
+
+      try {
+        results[index] = { status: "fulfilled", value: await worker(next.value, index) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  const limit = Math.max(1, Math.floor(concurrency) || 1);
+  const workerCount = Array.isArray(items) ? Math.max(1, Math.min(limit, items.length)) : limit;
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+
+  if (sourceError) {
+    throw (sourceError as { error: unknown }).error;
+  }
+  return results;
+}
+
+export { getConcurrencySetting, runWithConcurrency };
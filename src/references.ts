@@ -0,0 +1,157 @@
+// src/references.ts
+// Attachment images and links in the storage format, pointed at the files downloaded into the
+// page's attachments/ directory so content.html and content.md render offline
+
+import { HTMLElement } from "node-html-parser";
+import type { AttachmentRecord } from "./attachments.ts";
+import { childElement, parseStorageFormat, readPlainText, tagName } from "./storage.ts";
+
+interface AttachmentResolution {
+  filename: string;
+  // Local path relative to the page directory, the Confluence download URL when the file is
+  // not on disk, or null when neither is known
+  href: string | null;
+  local: boolean;
+  // Why the file is not on disk
+  reason?: string;
+}
+
+type AttachmentResolver = (reference: HTMLElement) => AttachmentResolution;
+
+interface UnresolvedReference {
+  filename: string;
+  element: "image" | "link";
+  reason: string;
+}
+
+interface ReferenceReport {
+  resolved: number;
+  // One entry per file and element kind, however often the page refers to it
+  unresolved: UnresolvedReference[];
+}
+
+function localAttachmentPath(file: string): string {
+  return `attachments/${encodeURIComponent(file)}`;
+}
+
+function unavailableReason(record: AttachmentRecord): string {
+  switch (record.status) {
+    case "skipped":
+      return `skipped: ${record.reason || "filtered out"}`;
+    case "failed":
+      return `download failed: ${record.reason || "unknown error"}`;
+    case "listed":
+      return "not downloaded (attachments format not requested)";
+    default:
+      return "file missing from attachments/";
+  }
+}
+
+// Resolve ri:attachment elements against the page's attachment records. Files that are not on
+// disk fall back to their Confluence download URL so the link still works online.
+function createAttachmentResolver(records: AttachmentRecord[], page: { id: string; host: string }): AttachmentResolver {
+  const byTitle = new Map<string, AttachmentRecord>();
+  const byLowerTitle = new Map<string, AttachmentRecord>();
+  for (const record of records) {
+    if (!byTitle.has(record.title)) byTitle.set(record.title, record);
+    if (!byLowerTitle.has(record.title.toLowerCase())) byLowerTitle.set(record.title.toLowerCase(), record);
+  }
+
+  return (reference) => {
+    const filename = reference.getAttribute("ri:filename") || "";
+    // An attachment of another page or blog post names its container; its id is not known here
+    if (childElement(reference, "ri:page") || childElement(reference, "ri:blog-post")) {
+      return { filename, href: null, local: false, reason: "attached to another page" };
+    }
+
+    const record = byTitle.get(filename) ?? byLowerTitle.get(filename.toLowerCase());
+    if (record?.file && (record.status === "downloaded" || record.status === "unchanged")) {
+      return { filename, href: localAttachmentPath(record.file), local: true };
+    }
+    return {
+      filename,
+      href: `${page.host}/wiki/download/attachments/${encodeURIComponent(page.id)}/${encodeURIComponent(filename)}`,
+      local: false,
+      reason: record ? unavailableReason(record) : "no attachment with this name on the page",
+    };
+  };
+}
+
+function referenceKind(reference: HTMLElement): "image" | "link" | null {
+  const parent = reference.parentNode;
+  const tag = parent instanceof HTMLElement ? tagName(parent) : "";
+  if (tag === "ac:image") return "image";
+  if (tag === "ac:link") return "link";
+  return null;
+}
+
+// Count the attachment images and links that resolve to local files, and list the ones that do not
+function reportAttachmentReferences(root: HTMLElement, resolve: AttachmentResolver): ReferenceReport {
+  const report: ReferenceReport = { resolved: 0, unresolved: [] };
+  const seen = new Set<string>();
+
+  for (const reference of root.querySelectorAll("ri\\:attachment")) {
+    const element = referenceKind(reference);
+    if (!element) continue;
+    const resolution = resolve(reference);
+    if (resolution.local) {
+      report.resolved++;
+      continue;
+    }
+    const key = `${element}\u0000${resolution.filename}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    report.unresolved.push({ filename: resolution.filename, element, reason: resolution.reason || "unknown" });
+  }
+  return report;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeHtmlText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Rewrite the storage format so browsers can show it: ac:image becomes <img> and attachment
+// ac:link becomes <a>. Page links and references without a usable target are left as they are.
+function localizeStorageHtml(htmlContent: string, resolve: AttachmentResolver): string {
+  const root = parseStorageFormat(htmlContent);
+  let changed = false;
+
+  for (const image of root.querySelectorAll("ac\\:image")) {
+    const attachment = childElement(image, "ri:attachment");
+    const url = childElement(image, "ri:url");
+    const src = attachment ? resolve(attachment).href : url?.getAttribute("ri:value") || null;
+    if (!src) continue;
+
+    const attributes = [`src="${escapeAttribute(src)}"`];
+    const alt = image.getAttribute("ac:alt") || image.getAttribute("ac:title") || "";
+    attributes.push(`alt="${escapeAttribute(alt)}"`);
+    for (const name of ["title", "width", "height"]) {
+      const value = image.getAttribute(`ac:${name}`);
+      if (value) attributes.push(`${name}="${escapeAttribute(value)}"`);
+    }
+    image.replaceWith(`<img ${attributes.join(" ")} />`);
+    changed = true;
+  }
+
+  for (const link of root.querySelectorAll("ac\\:link")) {
+    const attachment = childElement(link, "ri:attachment");
+    const href = attachment ? resolve(attachment).href : null;
+    if (!attachment || !href) continue;
+
+    const richBody = childElement(link, "ac:link-body");
+    const plainBody = readPlainText(childElement(link, "ac:plain-text-link-body")).trim();
+    const body = richBody ? richBody.innerHTML : escapeHtmlText(plainBody || attachment.getAttribute("ri:filename") || "");
+    link.replaceWith(`<a href="${escapeAttribute(href)}">${body}</a>`);
+    changed = true;
+  }
+
+  // Untouched pages keep the exact markup Confluence returned
+  return changed ? root.toString() : htmlContent;
+}
+
+export { createAttachmentResolver, reportAttachmentReferences, localizeStorageHtml, localAttachmentPath };
+export type { AttachmentResolution, AttachmentResolver, ReferenceReport, UnresolvedReference };
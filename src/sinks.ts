@@ -0,0 +1,298 @@
+// src/sinks.ts
+// Output sinks that load vector chunks into files and vector stores
+
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { VectorizedContent } from "./index.ts";
+import { createLogger } from "./logger.ts";
+
+const log = createLogger("Sink");
+
+// Sinks receive one page's chunks per write. Writing a page replaces whatever the sink held
+// for it before, so re-running a scrape never duplicates or leaves stale chunks behind.
+interface VectorSink {
+  name: string;
+  write(vectors: VectorizedContent[]): Promise<void>;
+  // Drop everything stored for pages that were deleted in Confluence
+  deletePages(pageIds: string[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface QdrantSinkSettings {
+  url: string;
+  collection: string;
+  apiKey?: string;
+  distance?: "Cosine" | "Dot" | "Euclid";
+}
+
+interface PgvectorSinkSettings {
+  table?: string;
+  // Write statements to this file (a .sql script for psql)...
+  filePath?: string;
+  // ...or hand each transaction to a database client, e.g. (sql) => db.unsafe(sql)
+  execute?: (sql: string) => Promise<unknown>;
+}
+
+// Flat payload shared by every sink
+function vectorPayload(vector: VectorizedContent): Record<string, unknown> {
+  return {
+    chunkId: vector.id,
+    pageId: vector.pageId,
+    title: vector.title,
+    spaceKey: vector.spaceKey,
+    type: vector.type,
+    content: vector.content,
+    ...vector.metadata,
+  };
+}
+
+// Name-based UUID (version 5 layout over SHA-1) so the same chunk id always maps to the same point
+function chunkUuid(chunkId: string): string {
+  const bytes = createHash("sha1").update(`confluence-chunk:${chunkId}`).digest().subarray(0, 16);
+  bytes[6] = ((bytes[6] as number) & 0x0f) | 0x50;
+  bytes[8] = ((bytes[8] as number) & 0x3f) | 0x80;
+  const hex = bytes.toString("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// Concurrent page scrapes share a sink; chain operations so they never interleave
+function createSerialQueue() {
+  let tail: Promise<unknown> = Promise.resolve();
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const run = tail.then(task, task);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+}
+
+// One JSON object per chunk and line, streamed to disk as pages finish
+function createJsonlSink(filePath: string): VectorSink {
+  const enqueue = createSerialQueue();
+  let handle: fs.FileHandle | null = null;
+
+  const append = (lines: string[]) => enqueue(async () => {
+    if (!handle) {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      handle = await fs.open(filePath, "w");
+    }
+    if (lines.length > 0) await handle.write(`${lines.join("\n")}\n`);
+  });
+
+  return {
+    name: "jsonl",
+    write: (vectors) => append(vectors.map((vector) => JSON.stringify({
+      ...vectorPayload(vector),
+      ...(vector.embedding ? { embedding: vector.embedding } : {}),
+    }))),
+    // The stream is append-only: deletions become marker lines for the consumer to apply
+    deletePages: (pageIds) => append(pageIds.map((pageId) => JSON.stringify({ pageId, deleted: true }))),
+    close: () => enqueue(async () => {
+      await handle?.close();
+      handle = null;
+    }),
+  };
+}
+
+// Qdrant REST API: the collection is created on first use, points are keyed by chunk UUID
+function createQdrantSink(settings: QdrantSinkSettings): VectorSink {
+  const enqueue = createSerialQueue();
+  const base = `${settings.url.replace(/\/+$/, "")}/collections/${encodeURIComponent(settings.collection)}`;
+  let collectionReady = false;
+
+  const request = async (method: string, suffix: string, body?: unknown, allowNotFound = false) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (settings.apiKey) headers["api-key"] = settings.apiKey;
+
+    const response = await fetch(`${base}${suffix}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (allowNotFound && response.status === 404) return null;
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`Qdrant ${method} ${suffix || "/"} failed: ${response.status} ${detail}`.trim());
+    }
+    return response.json();
+  };
+
+  const ensureCollection = async (size: number) => {
+    if (collectionReady) return;
+    const existing = await request("GET", "", undefined, true);
+    if (!existing) {
+      await request("PUT", "", { vectors: { size, distance: settings.distance || "Cosine" } });
+      log.info(`Created Qdrant collection ${settings.collection} (${size} dimensions)`);
+    }
+    collectionReady = true;
+  };
+
+  const deleteByPage = (pageIds: string[]) =>
+    request("POST", "/points/delete?wait=true", {
+      filter: { should: pageIds.map((pageId) => ({ key: "pageId", match: { value: pageId } })) },
+    }, true);
+
+  return {
+    name: "qdrant",
+    write: (vectors) => enqueue(async () => {
+      const points = vectors.filter((vector) => vector.embedding);
+      const skipped = vectors.length - points.length;
+      if (skipped > 0) {
+        log.warn(`Qdrant: skipping ${skipped} chunks without embeddings`);
+      }
+      // Drop the pages' old points even when none of the new chunks has an embedding,
+      // so a page whose chunks all lost their vectors does not keep stale ones
+      const pageIds = [...new Set(vectors.map((vector) => vector.pageId))];
+      if (pageIds.length > 0) await deleteByPage(pageIds);
+      if (points.length === 0) return;
+
+      await ensureCollection(points[0]?.embedding?.dimensions as number);
+      await request("PUT", "/points?wait=true", {
+        points: points.map((vector) => ({
+          id: chunkUuid(vector.id),
+          vector: vector.embedding?.values,
+          payload: vectorPayload(vector),
+        })),
+      });
+    }),
+    deletePages: (pageIds) => enqueue(async () => {
+      if (pageIds.length > 0) await deleteByPage(pageIds);
+    }),
+    close: () => enqueue(async () => {}),
+  };
+}
+
+function sqlString(value: string | null | undefined): string {
+  return value === null || value === undefined ? "NULL" : `'${value.replace(/'/g, "''")}'`;
+}
+
+// Upserts into a pgvector table, one transaction per page
+function createPgvectorSink(settings: PgvectorSinkSettings): VectorSink {
+  const table = settings.table || "confluence_chunks";
+  if (!/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/.test(table)) {
+    throw new Error(`Invalid pgvector table name: ${table}`);
+  }
+  if (!settings.filePath && !settings.execute) {
+    throw new Error("pgvector sink needs a filePath or an execute function");
+  }
+
+  const enqueue = createSerialQueue();
+  let handle: fs.FileHandle | null = null;
+  let schemaReady = false;
+
+  const run = async (sql: string) => {
+    if (settings.execute) {
+      await settings.execute(sql);
+      return;
+    }
+    if (!handle) {
+      await fs.mkdir(path.dirname(settings.filePath as string), { recursive: true });
+      handle = await fs.open(settings.filePath as string, "w");
+    }
+    await handle.write(`${sql}\n`);
+  };
+
+  const ensureSchema = async (dimensions: number | undefined) => {
+    if (schemaReady) return;
+    await run(
+      "CREATE EXTENSION IF NOT EXISTS vector;\n" +
+      `CREATE TABLE IF NOT EXISTS ${table} (\n` +
+      "  id text PRIMARY KEY,\n" +
+      "  page_id text NOT NULL,\n" +
+      "  space_key text,\n" +
+      "  title text,\n" +
+      "  type text,\n" +
+      "  content text NOT NULL,\n" +
+      "  metadata jsonb NOT NULL,\n" +
+      `  embedding ${dimensions ? `vector(${dimensions})` : "vector"}\n` +
+      ");",
+    );
+    schemaReady = true;
+  };
+
+  const deleteStatement = (pageIds: string[]) =>
+    `DELETE FROM ${table} WHERE page_id IN (${pageIds.map(sqlString).join(", ")});`;
+
+  return {
+    name: "pgvector",
+    write: (vectors) => enqueue(async () => {
+      if (vectors.length === 0) return;
+      await ensureSchema(vectors.find((vector) => vector.embedding)?.embedding?.dimensions);
+
+      const rows = vectors.map((vector) => {
+        const values = [
+          sqlString(vector.id),
+          sqlString(vector.pageId),
+          sqlString(vector.spaceKey),
+          sqlString(vector.title),
+          sqlString(vector.type),
+          sqlString(vector.content),
+          `${sqlString(JSON.stringify(vector.metadata))}::jsonb`,
+          vector.embedding ? `${sqlString(`[${vector.embedding.values.join(",")}]`)}::vector` : "NULL",
+        ];
+        return `  (${values.join(", ")})`;
+      });
+      await run(
+        "BEGIN;\n" +
+        `${deleteStatement([...new Set(vectors.map((vector) => vector.pageId))])}\n` +
+        `INSERT INTO ${table} (id, page_id, space_key, title, type, content, metadata, embedding) VALUES\n` +
+        `${rows.join(",\n")}\n` +
+        "ON CONFLICT (id) DO UPDATE SET page_id = EXCLUDED.page_id, space_key = EXCLUDED.space_key, " +
+        "title = EXCLUDED.title, type = EXCLUDED.type, content = EXCLUDED.content, " +
+        "metadata = EXCLUDED.metadata, embedding = EXCLUDED.embedding;\n" +
+        "COMMIT;",
+      );
+    }),
+    deletePages: (pageIds) => enqueue(async () => {
+      if (pageIds.length === 0) return;
+      await ensureSchema(undefined);
+      await run(deleteStatement(pageIds));
+    }),
+    close: () => enqueue(async () => {
+      await handle?.close();
+      handle = null;
+    }),
+  };
+}
+
+// Sinks named in CONFLUENCE_SINKS (comma separated: jsonl, qdrant, pgvector)
+function createSinksFromEnv(outputDir: string): VectorSink[] {
+  const names = (process.env.CONFLUENCE_SINKS || "").split(",").map((name) => name.trim()).filter(Boolean);
+
+  return names.map((name) => {
+    switch (name) {
+      case "jsonl":
+        return createJsonlSink(process.env.CONFLUENCE_JSONL_PATH || path.join(outputDir, "chunks.jsonl"));
+      case "qdrant":
+        return createQdrantSink({
+          url: process.env.QDRANT_URL || "http://localhost:6333",
+          collection: process.env.QDRANT_COLLECTION || "confluence",
+          apiKey: process.env.QDRANT_API_KEY,
+        });
+      case "pgvector":
+        return createPgvectorSink({
+          table: process.env.CONFLUENCE_PGVECTOR_TABLE,
+          filePath: process.env.CONFLUENCE_PGVECTOR_PATH || path.join(outputDir, "chunks.sql"),
+        });
+      default:
+        throw new Error(`Unsupported sink: ${name}`);
+    }
+  });
+}
+
+async function closeSinks(sinks: VectorSink[]): Promise<void> {
+  for (const sink of sinks) {
+    await sink.close();
+  }
+}
+
+export type { VectorSink, QdrantSinkSettings, PgvectorSinkSettings };
+export {
+  vectorPayload,
+  chunkUuid,
+  createJsonlSink,
+  createQdrantSink,
+  createPgvectorSink,
+  createSinksFromEnv,
+  closeSinks,
+};
@@ -0,0 +1,50 @@
+// src/storage.ts
+// Helpers for reading Confluence storage format with node-html-parser
+
+import { parse, HTMLElement } from "node-html-parser";
+import type { Node } from "node-html-parser";
+
+// Plain-text macro bodies hold CDATA that must not be parsed as markup
+const STORAGE_PARSE_OPTIONS = {
+  blockTextElements: {
+    script: true,
+    noscript: true,
+    style: true,
+    pre: true,
+    "ac:plain-text-body": true,
+    "ac:plain-text-link-body": true,
+  },
+};
+
+function parseStorageFormat(htmlContent: string): HTMLElement {
+  return parse(htmlContent, STORAGE_PARSE_OPTIONS);
+}
+
+function tagName(node: Node): string {
+  return node instanceof HTMLElement ? (node.rawTagName || "").toLowerCase() : "";
+}
+
+function childElement(element: HTMLElement, name: string): HTMLElement | undefined {
+  return element.childNodes.find(
+    (child): child is HTMLElement => tagName(child) === name,
+  );
+}
+
+// Unwrap CDATA sections (Confluence splits "]]>" across several of them)
+function readPlainText(element: HTMLElement | undefined | null): string {
+  if (!element) return "";
+  const raw = element.rawText;
+  return raw.includes("<![CDATA[")
+    ? raw.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    : element.text;
+}
+
+function macroParameter(macro: HTMLElement, name: string): string | undefined {
+  const param = macro.childNodes.find(
+    (child): child is HTMLElement =>
+      tagName(child) === "ac:parameter" && (child as HTMLElement).getAttribute("ac:name") === name,
+  );
+  return param ? param.text.trim() : undefined;
+}
+
+export { parseStorageFormat, tagName, childElement, readPlainText, macroParameter };
@@ -0,0 +1,321 @@
+// src/sync.ts
+// Incremental sync: re-scrape only pages whose version moved since the last run,
+// and tombstone or remove the output of pages deleted or moved upstream
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { buildCql } from "./cql.ts";
+import type { CqlContentType } from "./cql.ts";
+import {
+  createPageTitleIndex,
+  iterateSpaceContent,
+  resolveContentTypes,
+  resolvePageDirectories,
+  scrapePage,
+  writeSpaceLinkGraph,
+} from "./index.ts";
+import type { ContentTypeDefinition, ScrapeOptions } from "./index.ts";
+import { saveContentToFile } from "./fs-utils.ts";
+import { LABELS_EXPAND, matchesLabelFilter, pageLabels, resolveLabelFilter } from "./labels.ts";
+import type { LabelFilter } from "./labels.ts";
+import { collect, paginate } from "./pagination.ts";
+import { getConcurrencySetting, runWithConcurrency } from "./pool.ts";
+import { ConfluenceHttpError, fetchDirectly } from "./transport.ts";
+import { createLogger } from "./logger.ts";
+
+const log = createLogger("Sync");
+
+type DeletionMode = "tombstone" | "remove";
+
+// Why a page's output was retired: gone from Confluence, in another space, or left out by the label filter
+type RemovalReason = "deleted" | "moved" | "excluded";
+
+interface SyncManifestEntry {
+  pageId: string;
+  title: string;
+  spaceKey: string;
+  version: number;
+  outputPath: string;
+  contentHash: string;
+  syncedAt: string;
+}
+
+interface SyncManifest {
+  spaces: Record<string, { lastSyncedAt: string }>;
+  pages: Record<string, SyncManifestEntry>;
+}
+
+interface SyncOptions {
+  deletionMode?: DeletionMode;
+  pageConcurrency?: number;
+  scrapeOptions?: ScrapeOptions;
+}
+
+interface SyncResult {
+  spaceKey: string;
+  added: string[];
+  updated: string[];
+  unchanged: string[];
+  removed: { pageId: string; reason: RemovalReason; outputPath: string }[];
+  failed: { pageId: string; title: string; error: string }[];
+}
+
+const MANIFEST_FILENAME = ".sync-manifest.json";
+
+// CQL dates are evaluated in the account's time zone; look back a day and let
+// the version comparison discard pages that did not actually change
+const CHANGE_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+async function loadSyncManifest(outputDir: string): Promise<SyncManifest> {
+  const manifestPath = path.join(outputDir, MANIFEST_FILENAME);
+  try {
+    const manifest = JSON.parse(await fs.readFile(manifestPath, "utf8"));
+    return { spaces: manifest.spaces || {}, pages: manifest.pages || {} };
+  } catch (error: unknown) {
+    const err = error as NodeJS.ErrnoException;
+    if (err.code !== "ENOENT") {
+      log.warn(`Ignoring unreadable manifest ${manifestPath}, running a full sync`, { error: err.message });
+    }
+    return { spaces: {}, pages: {} };
+  }
+}
+
+async function saveSyncManifest(outputDir: string, manifest: SyncManifest): Promise<void> {
+  const saved = await saveContentToFile(
+    JSON.stringify(manifest, null, 2),
+    path.join(outputDir, MANIFEST_FILENAME),
+  );
+  if (!saved) {
+    throw new Error(`Unable to write sync manifest to ${outputDir}`);
+  }
+}
+
+// Every page currently in the space (ids, titles, types and labels only). Enumeration errors
+// propagate so a partial listing can never be mistaken for deleted pages
+async function listSpacePages(
+  spaceKey: string,
+  contentTypes: ContentTypeDefinition[],
+): Promise<{ id: string; title: string; type?: string }[]> {
+  return collect(iterateSpaceContent(spaceKey, contentTypes, { limit: 200, expand: [LABELS_EXPAND] }));
+}
+
+// Pages in the space modified since the given date that pass the label filter, with their current version
+async function getPagesChangedSince(
+  spaceKey: string,
+  since: Date,
+  contentTypes: ContentTypeDefinition[],
+  labelFilter: LabelFilter | null = null,
+): Promise<{ id: string; title: string; version: { number: number } }[]> {
+  const type = contentTypes.map((contentType) => contentType.name as CqlContentType);
+  const cql = buildCql({ space: spaceKey, type, lastModified: { after: since } });
+  const changed = await collect(paginate<{ id: string; title: string; version: { number: number } }>(
+    `/content/search?cql=${encodeURIComponent(cql)}&limit=100&expand=version,${LABELS_EXPAND}`,
+  ));
+  return changed.filter((page) => matchesLabelFilter(pageLabels(page), labelFilter));
+}
+
+// Find out why a page disappeared from the space listing
+async function classifyMissingPage(pageId: string, spaceKey: string): Promise<{ reason: "deleted" | "moved"; spaceKey?: string } | null> {
+  try {
+    const page = await fetchDirectly(`/content/${pageId}?expand=space`);
+    if (page.status && page.status !== "current") {
+      return { reason: "deleted" };
+    }
+    if (page.space?.key && page.space.key !== spaceKey) {
+      return { reason: "moved", spaceKey: page.space.key };
+    }
+    // Still in the space: the listing was just out of date
+    return null;
+  } catch (error: unknown) {
+    if (error instanceof ConfluenceHttpError && error.status === 404) {
+      return { reason: "deleted" };
+    }
+    throw error;
+  }
+}
+
+// Remove a page's output, leaving a tombstone.json in its place unless told to remove it outright
+async function retirePageOutput(
+  entry: SyncManifestEntry,
+  reason: RemovalReason,
+  mode: DeletionMode,
+  details: Record<string, unknown> = {},
+): Promise<void> {
+  await fs.rm(entry.outputPath, { recursive: true, force: true });
+
+  if (mode === "tombstone") {
+    await saveContentToFile(
+      JSON.stringify({
+        pageId: entry.pageId,
+        title: entry.title,
+        spaceKey: entry.spaceKey,
+        lastVersion: entry.version,
+        reason,
+        detectedAt: new Date().toISOString(),
+        ...details,
+      }, null, 2),
+      path.join(entry.outputPath, "tombstone.json"),
+    );
+  }
+  log.info(`${mode === "tombstone" ? "Tombstoned" : "Removed"} ${reason} page "${entry.title}" (${entry.pageId})`);
+}
+
+async function readScrapedMetadata(pageDir: string): Promise<{ version: number; contentHash: string }> {
+  const metadata = JSON.parse(await fs.readFile(path.join(pageDir, "metadata.json"), "utf8"));
+  return { version: metadata.version, contentHash: metadata.contentHash };
+}
+
+// Bring outputDir in line with the current state of a space
+async function syncSpace(
+  client: any,
+  spaceKey: string,
+  outputDir: string = "./output",
+  options: SyncOptions = {},
+): Promise<SyncResult> {
+  const deletionMode = options.deletionMode || "tombstone";
+  const pageConcurrency = options.pageConcurrency ?? getConcurrencySetting("CONFLUENCE_PAGE_CONCURRENCY", 4);
+  const result: SyncResult = { spaceKey, added: [], updated: [], unchanged: [], removed: [], failed: [] };
+
+  const manifest = await loadSyncManifest(outputDir);
+  const syncStartedAt = new Date();
+  const lastSyncedAt = manifest.spaces[spaceKey]?.lastSyncedAt;
+  const contentTypes = resolveContentTypes(options.scrapeOptions?.contentTypes);
+  const labelFilter = resolveLabelFilter(options.scrapeOptions?.labels);
+
+  const spacePages = await listSpacePages(spaceKey, contentTypes);
+  const spaceIds = new Set(spacePages.map((page) => page.id));
+  // Pages the label filter leaves out are not scraped, and retired below if an earlier run kept them
+  const currentPages = spacePages.filter((page) => matchesLabelFilter(pageLabels(page), labelFilter));
+  const currentIds = new Set(currentPages.map((page) => page.id));
+  const knownEntries = Object.values(manifest.pages).filter((entry) => entry.spaceKey === spaceKey);
+
+  // Pages the API reports as changed since the last run, plus anything the manifest has never seen
+  const changed = lastSyncedAt
+    ? await getPagesChangedSince(spaceKey, new Date(Date.parse(lastSyncedAt) - CHANGE_LOOKBACK_MS), contentTypes, labelFilter)
+    : [];
+  const skipped = spacePages.length - currentPages.length;
+  log.info(
+    `Space ${spaceKey}: ${currentPages.length} pages${skipped > 0 ? ` (${skipped} left out by labels)` : ""}, ` +
+    `${changed.length} reported changed since ${lastSyncedAt || "never"}`,
+  );
+
+  const toScrape = new Map<string, { id: string; title: string }>();
+  for (const page of changed) {
+    const entry = manifest.pages[page.id];
+    if (!currentIds.has(page.id)) continue;
+    if (entry && entry.version === page.version?.number) continue;
+    toScrape.set(page.id, page);
+  }
+  for (const page of currentPages) {
+    if (!manifest.pages[page.id]) {
+      toScrape.set(page.id, page);
+    }
+  }
+  for (const page of currentPages) {
+    if (!toScrape.has(page.id)) {
+      result.unchanged.push(page.id);
+    }
+  }
+
+  // Directories are resolved over the whole space so they do not shift when the filter changes
+  const pageDirs = resolvePageDirectories(spacePages, outputDir, spaceKey);
+  // Links to any current page resolve without a lookup
+  const pageIndex = options.scrapeOptions?.pageIndex ?? createPageTitleIndex();
+  for (const page of spacePages) pageIndex.add({ id: page.id, title: page.title, spaceKey, type: page.type });
+  const pages = [...toScrape.values()];
+  const scrapes = await runWithConcurrency(pages, pageConcurrency, async (page) => {
+    const scraped = await scrapePage(client, page.id, outputDir, {
+      ...options.scrapeOptions,
+      pageIndex,
+      pageDir: pageDirs.get(page.id),
+    });
+    if (!scraped) {
+      throw new Error("Scrape failed");
+    }
+    return { scraped, metadata: await readScrapedMetadata(scraped.outputDir) };
+  });
+
+  const livePaths = new Set<string>();
+  scrapes.forEach((scrape, index) => {
+    const page = pages[index] as { id: string; title: string };
+    const previous = manifest.pages[page.id];
+
+    if (scrape.status === "rejected") {
+      const error = scrape.reason instanceof Error ? scrape.reason.message : String(scrape.reason);
+      result.failed.push({ pageId: page.id, title: page.title, error });
+      if (previous) livePaths.add(previous.outputPath);
+      return;
+    }
+
+    const { scraped, metadata } = scrape.value;
+    (previous ? result.updated : result.added).push(page.id);
+    livePaths.add(scraped.outputDir);
+    manifest.pages[page.id] = {
+      pageId: page.id,
+      title: scraped.title,
+      spaceKey,
+      version: metadata.version,
+      outputPath: scraped.outputDir,
+      contentHash: metadata.contentHash,
+      syncedAt: syncStartedAt.toISOString(),
+    };
+  });
+  for (const entry of Object.values(manifest.pages)) {
+    if (!toScrape.has(entry.pageId) && currentIds.has(entry.pageId)) livePaths.add(entry.outputPath);
+  }
+
+  // Renamed pages were written to a new directory; retire the old one
+  for (const entry of knownEntries) {
+    const current = manifest.pages[entry.pageId];
+    if (current && current.outputPath !== entry.outputPath && !livePaths.has(entry.outputPath)) {
+      await retirePageOutput(entry, "moved", deletionMode, { newOutputPath: current.outputPath });
+      result.removed.push({ pageId: entry.pageId, reason: "moved", outputPath: entry.outputPath });
+    }
+  }
+
+  // Pages that vanished from the listing were deleted or moved to another space; pages still in
+  // the space but now left out by the label filter go the same way
+  for (const entry of knownEntries) {
+    if (currentIds.has(entry.pageId)) continue;
+
+    try {
+      const missing: { reason: RemovalReason; spaceKey?: string } | null = spaceIds.has(entry.pageId)
+        ? { reason: "excluded" }
+        : await classifyMissingPage(entry.pageId, spaceKey);
+      if (!missing) {
+        result.unchanged.push(entry.pageId);
+        continue;
+      }
+      if (!livePaths.has(entry.outputPath)) {
+        await retirePageOutput(entry, missing.reason, deletionMode, missing.spaceKey ? { movedToSpace: missing.spaceKey } : {});
+      }
+      for (const sink of options.scrapeOptions?.sinks || []) {
+        await sink.deletePages([entry.pageId]);
+      }
+      delete manifest.pages[entry.pageId];
+      result.removed.push({ pageId: entry.pageId, reason: missing.reason, outputPath: entry.outputPath });
+    } catch (error: unknown) {
+      result.failed.push({
+        pageId: entry.pageId,
+        title: entry.title,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Only advance the change window when everything landed, so failed pages are retried next run
+  if (result.failed.length === 0) {
+    manifest.spaces[spaceKey] = { lastSyncedAt: syncStartedAt.toISOString() };
+  }
+  await saveSyncManifest(outputDir, manifest);
+  await writeSpaceLinkGraph(outputDir, spaceKey, options.scrapeOptions?.formats);
+
+  log.info(
+    `Space ${spaceKey}: ${result.added.length} added, ${result.updated.length} updated, ` +
+    `${result.unchanged.length} unchanged, ${result.removed.length} removed, ${result.failed.length} failed`,
+  );
+  return result;
+}
+
+export type { DeletionMode, RemovalReason, SyncManifest, SyncManifestEntry, SyncOptions, SyncResult };
+export { loadSyncManifest, saveSyncManifest, syncSpace };
@@ -0,0 +1,227 @@
+// src/tables.ts
+// Table model for storage-format tables: spanned cells expanded, header rows/columns detected
+
+import { HTMLElement, NodeType } from "node-html-parser";
+import type { Node } from "node-html-parser";
+import { extractText } from "./macros.ts";
+import { readPlainText, tagName } from "./storage.ts";
+
+interface TableModel {
+  // 1-based position among the page's tables, in document order
+  index: number;
+  // Index of the table this one is nested in, if any
+  parentIndex: number | null;
+  headerRows: number;
+  headerColumn: boolean;
+  // One label per column, built from the header rows ("Group / Column" for stacked headers)
+  headers: string[];
+  // Every row, header rows included, with spanned cells repeated in each slot they cover
+  rows: string[][];
+  spans: { row: number; column: number; rowSpan: number; colSpan: number }[];
+  links: { row: number; column: number; text: string; href: string }[];
+}
+
+interface GridCell {
+  text: string;
+  header: boolean;
+  links: { text: string; href: string }[];
+}
+
+const BLOCK_TAGS = new Set([
+  "p", "div", "ul", "ol", "li", "br", "pre", "blockquote",
+  "h1", "h2", "h3", "h4", "h5", "h6", "ac:task",
+]);
+
+// Guard against absurd span values blowing up the grid
+const MAX_COLSPAN = 1000;
+
+function collectCellText(node: Node, out: string[]): void {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    out.push(node.text);
+    return;
+  }
+  if (!(node instanceof HTMLElement)) return;
+
+  const tag = tagName(node);
+  // Nested tables are extracted as tables of their own
+  if (tag === "table") return;
+  if (tag === "ac:structured-macro") {
+    out.push(extractText(node));
+    return;
+  }
+  if (tag === "ac:plain-text-link-body") {
+    out.push(readPlainText(node));
+    return;
+  }
+
+  const block = BLOCK_TAGS.has(tag);
+  if (block) out.push("\n");
+  if (tag === "li") out.push("- ");
+  node.childNodes.forEach((child) => collectCellText(child, out));
+  if (block) out.push("\n");
+}
+
+// Cell text with lists and paragraphs kept on their own lines
+function cellText(cell: HTMLElement): string {
+  const out: string[] = [];
+  cell.childNodes.forEach((child) => collectCellText(child, out));
+  return out
+    .join("")
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+function cellLinks(cell: HTMLElement, table: HTMLElement): GridCell["links"] {
+  const links: GridCell["links"] = [];
+  cell.querySelectorAll("*").forEach((element) => {
+    if (element.closest("table") !== table) return;
+
+    const tag = tagName(element);
+    if (tag === "a" && element.getAttribute("href")) {
+      links.push({ text: element.text.trim(), href: element.getAttribute("href") as string });
+    } else if (tag === "ac:link") {
+      const page = element.childNodes.find((child) => tagName(child) === "ri:page") as HTMLElement | undefined;
+      const title = page?.getAttribute("ri:content-title");
+      if (title) {
+        const body = element.childNodes.find((child) => tagName(child) === "ac:plain-text-link-body") as
+          | HTMLElement
+          | undefined;
+        links.push({ text: readPlainText(body).trim() || title, href: `page:${title}` });
+      }
+    }
+  });
+  return links;
+}
+
+function parseSpan(value: string | undefined, fallback: number, max: number): number {
+  const span = parseInt(value || "", 10);
+  // rowspan="0" stretches to the end of the table
+  if (span === 0) return fallback;
+  return Number.isNaN(span) || span < 1 ? 1 : Math.min(span, max);
+}
+
+// Build the expanded model of a single table, ignoring rows of tables nested inside it
+function parseTable(table: HTMLElement, index: number = 1, parentIndex: number | null = null): TableModel {
+  const rows = table.querySelectorAll("tr").filter((row) => row.closest("table") === table);
+  const grid: (GridCell | undefined)[][] = rows.map(() => []);
+  const spans: TableModel["spans"] = [];
+
+  rows.forEach((row, r) => {
+    const inHead = tagName(row.parentNode) === "thead";
+    let column = 0;
+
+    for (const cell of row.childNodes) {
+      const tag = tagName(cell);
+      if (tag !== "td" && tag !== "th") continue;
+      const element = cell as HTMLElement;
+
+      // Skip slots already covered by a rowspan from an earlier row
+      while (grid[r]?.[column]) column++;
+
+      const remainingRows = rows.length - r;
+      const rowSpan = parseSpan(element.getAttribute("rowspan"), remainingRows, remainingRows);
+      const colSpan = parseSpan(element.getAttribute("colspan"), 1, MAX_COLSPAN);
+      const model: GridCell = {
+        text: cellText(element),
+        header: tag === "th" || inHead,
+        links: cellLinks(element, table),
+      };
+
+      for (let dr = 0; dr < rowSpan; dr++) {
+        for (let dc = 0; dc < colSpan; dc++) {
+          (grid[r + dr] as (GridCell | undefined)[])[column + dc] = model;
+        }
+      }
+      if (rowSpan > 1 || colSpan > 1) {
+        spans.push({ row: r, column, rowSpan, colSpan });
+      }
+      column += colSpan;
+    }
+  });
+
+  const width = Math.max(0, ...grid.map((row) => row.length));
+  const empty: GridCell = { text: "", header: false, links: [] };
+  const cells = grid.map((row) => Array.from({ length: width }, (_, c) => row[c] || empty));
+
+  // Leading rows made only of header cells are header rows
+  let headerRows = 0;
+  while (headerRows < cells.length && cells[headerRows]?.every((cell) => cell === empty || cell.header)) {
+    headerRows++;
+  }
+  // A table made only of header cells still has content: keep just the first row as its header
+  if (headerRows === cells.length) headerRows = cells.length > 1 ? 1 : 0;
+  const body = cells.slice(headerRows);
+  const headerColumn = width > 1 && body.length > 0 && body.every((row) => row[0]?.header === true);
+
+  const headers = headerRows === 0
+    ? []
+    : Array.from({ length: width }, (_, c) => {
+      const labels: string[] = [];
+      for (const row of cells.slice(0, headerRows)) {
+        const text = row[c]?.text.replace(/\n/g, " ") || "";
+        if (text && !labels.includes(text)) labels.push(text);
+      }
+      return labels.join(" / ") || `Column ${c + 1}`;
+    });
+
+  // Report each link once, at the top-left slot of its cell
+  const links: TableModel["links"] = [];
+  cells.forEach((row, r) => row.forEach((cell, c) => {
+    if (cells[r - 1]?.[c] === cell || row[c - 1] === cell) return;
+    cell.links.forEach((link) => links.push({ row: r, column: c, ...link }));
+  }));
+
+  return {
+    index,
+    parentIndex,
+    headerRows,
+    headerColumn,
+    headers,
+    rows: cells.map((row) => row.map((cell) => cell.text)),
+    spans,
+    links,
+  };
+}
+
+// Every table on the page in document order, nested tables included
+function extractTables(root: HTMLElement): TableModel[] {
+  const tables = root.querySelectorAll("table");
+  return tables.map((table, i) => {
+    const parent = table.parentNode?.closest("table") as HTMLElement | null | undefined;
+    const parentIndex = parent ? tables.indexOf(parent) + 1 : null;
+    return parseTable(table, i + 1, parentIndex || null);
+  });
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function tableToCsv(table: TableModel): string {
+  return table.rows.map((row) => row.map(escapeCsvField).join(",")).join("\n") + (table.rows.length ? "\n" : "");
+}
+
+// Text rendering for chunks: body rows keyed by their column headers, or by the
+// header column for vertical key/value tables
+function renderTableText(table: TableModel): string {
+  const flatten = (text: string) => text.replace(/\n/g, "; ");
+  const lines = table.rows.slice(table.headerRows).map((row) => {
+    if (table.headers.length > 0) {
+      return row
+        .map((value, c) => (value ? `${table.headers[c]}: ${flatten(value)}` : ""))
+        .filter(Boolean)
+        .join("; ");
+    }
+    if (table.headerColumn) {
+      return `${flatten(row[0] || "")}: ${row.slice(1).map(flatten).join(" | ")}`;
+    }
+    return `Row: ${row.map(flatten).join(" | ")}`;
+  });
+
+  return lines.filter((line) => line && line !== "Row: ").map((line) => `${line}\n`).join("");
+}
+
+export type { TableModel };
+export { parseTable, extractTables, tableToCsv, renderTableText };
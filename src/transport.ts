@@ -0,0 +1,387 @@
+// src/transport.ts
+// Shared HTTP transport for every request made against Confluence (REST API, pagination, downloads)
+
+import { createHash, createHmac } from "node:crypto";
+
+type AuthMethod = "basic" | "oauth2" | "jwt" | "pat";
+
+interface AuthSettings {
+  method: AuthMethod;
+  email: string;
+  apiToken: string;
+  accessToken: string;
+  jwtIssuer: string;
+  jwtSecret: string;
+  jwtExpirySeconds: number;
+  personalAccessToken: string;
+}
+
+interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+interface TransportSettings {
+  retry: RetryPolicy;
+  requestsPerSecond: number;
+  burst: number;
+  timeoutMs: number;
+}
+
+interface TokenBucket {
+  take(signal?: AbortSignal): Promise<void>;
+  pauseFor(delayMs: number): void;
+}
+
+const AUTH_METHODS: AuthMethod[] = ["basic", "oauth2", "jwt", "pat"];
+
+// Status codes worth retrying: timeouts, throttling and transient server errors
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+// Raised when a request fails for good; keeps the historical "HTTP error! status: N" message
+class ConfluenceHttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string = `HTTP error! status: ${status}`) {
+    super(message);
+    this.name = "ConfluenceHttpError";
+    this.status = status;
+  }
+}
+
+// Raised when a single attempt exceeds CONFLUENCE_REQUEST_TIMEOUT_MS
+class RequestTimeoutError extends Error {
+  constructor(url: string, timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+// Read at runtime so tests and long-running processes pick up env changes
+function getConfluenceHost(): string {
+  return (process.env.CONFLUENCE_HOST || "https://your-domain.atlassian.net").replace(/\/+$/, "");
+}
+
+function getAuthSettings(): AuthSettings {
+  const method = (process.env.AUTH_METHOD || "basic").toLowerCase();
+  if (!AUTH_METHODS.includes(method as AuthMethod)) {
+    throw new Error(`Unsupported authentication method: ${method}`);
+  }
+
+  return {
+    method: method as AuthMethod,
+    email: process.env.CONFLUENCE_EMAIL || "",
+    apiToken: process.env.CONFLUENCE_API_TOKEN || "",
+    accessToken: process.env.CONFLUENCE_ACCESS_TOKEN || "",
+    jwtIssuer: process.env.CONFLUENCE_JWT_ISSUER || "",
+    jwtSecret: process.env.CONFLUENCE_JWT_SECRET || "",
+    jwtExpirySeconds: parseInt(process.env.CONFLUENCE_JWT_EXPIRY || "180"),
+    personalAccessToken: process.env.CONFLUENCE_PAT || "",
+  };
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && process.env[name] !== "" && Number.isFinite(value) ? value : fallback;
+}
+
+// Retry, throttling and timeout settings, read at runtime like the auth settings
+function getTransportSettings(): TransportSettings {
+  const requestsPerSecond = readNumber("CONFLUENCE_RATE_LIMIT", 10);
+  return {
+    retry: {
+      maxRetries: readNumber("CONFLUENCE_MAX_RETRIES", 3),
+      baseDelayMs: readNumber("CONFLUENCE_RETRY_BASE_MS", 500),
+      maxDelayMs: readNumber("CONFLUENCE_RETRY_MAX_MS", 30000),
+    },
+    requestsPerSecond,
+    burst: readNumber("CONFLUENCE_RATE_BURST", Math.max(1, requestsPerSecond)),
+    timeoutMs: readNumber("CONFLUENCE_REQUEST_TIMEOUT_MS", 30000),
+  };
+}
+
+function sleep(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Client-side token bucket; a rate of 0 or less disables throttling
+function createTokenBucket(ratePerSecond: number, burst: number): TokenBucket {
+  let tokens = burst;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + ((now - lastRefill) / 1000) * ratePerSecond);
+    lastRefill = now;
+  };
+
+  return {
+    async take(signal?: AbortSignal): Promise<void> {
+      for (;;) {
+        const now = Date.now();
+        if (now < pausedUntil) {
+          await sleep(pausedUntil - now, signal);
+          continue;
+        }
+        if (ratePerSecond <= 0) return;
+
+        refill();
+        if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        }
+        await sleep(Math.ceil(((1 - tokens) / ratePerSecond) * 1000), signal);
+      }
+    },
+    pauseFor(delayMs: number): void {
+      pausedUntil = Math.max(pausedUntil, Date.now() + delayMs);
+    },
+  };
+}
+
+// One bucket shared by every request; rebuilt when the rate settings change
+let sharedBucket: { key: string; bucket: TokenBucket } | null = null;
+
+function getSharedBucket(settings: TransportSettings): TokenBucket {
+  const key = `${settings.requestsPerSecond}:${settings.burst}`;
+  if (!sharedBucket || sharedBucket.key !== key) {
+    sharedBucket = { key, bucket: createTokenBucket(settings.requestsPerSecond, settings.burst) };
+  }
+  return sharedBucket.bucket;
+}
+
+// Parse Retry-After as either delay-seconds or an HTTP date
+function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter
+function computeBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+// Resolve an API endpoint ("/content/123"), a wiki-relative path ("/rest/api/...", "/download/...",
+// "/wiki/...") or an absolute URL against the configured host
+function resolveConfluenceUrl(target: string): URL {
+  const host = getConfluenceHost();
+
+  if (/^https?:\/\//i.test(target)) {
+    return new URL(target);
+  }
+  if (target.startsWith("/wiki/")) {
+    return new URL(`${host}${target}`);
+  }
+  if (target.startsWith("/rest/") || target.startsWith("/download/")) {
+    return new URL(`${host}/wiki${target}`);
+  }
+  return new URL(`${host}/wiki/rest/api${target}`);
+}
+
+// RFC 3986 percent-encoding as required by the Atlassian query string hash spec
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+// Build the canonical request used for the JWT "qsh" claim:
+// METHOD & path relative to the app base URL & sorted, encoded query parameters (excluding "jwt")
+function createCanonicalRequest(method: string, url: URL): string {
+  const basePath = new URL(`${getConfluenceHost()}/wiki`).pathname.replace(/\/+$/, "");
+
+  let canonicalPath = url.pathname;
+  if (basePath && canonicalPath.startsWith(basePath)) {
+    canonicalPath = canonicalPath.slice(basePath.length);
+  }
+  if (!canonicalPath.startsWith("/")) {
+    canonicalPath = `/${canonicalPath}`;
+  }
+  if (canonicalPath.length > 1) {
+    canonicalPath = canonicalPath.replace(/\/+$/, "");
+  }
+  canonicalPath = canonicalPath.replace(/&/g, "%26");
+
+  const params = new Map<string, string[]>();
+  for (const [key, value] of url.searchParams) {
+    if (key === "jwt") continue;
+    params.set(key, [...(params.get(key) || []), value]);
+  }
+
+  const canonicalQuery = [...params.keys()]
+    .sort()
+    .map((key) => {
+      const values = (params.get(key) || []).map(encodeRfc3986).sort();
+      return `${encodeRfc3986(key)}=${values.join(",")}`;
+    })
+    .join("&");
+
+  return `${method.toUpperCase()}&${canonicalPath}&${canonicalQuery}`;
+}
+
+function createQueryStringHash(method: string, url: URL): string {
+  return createHash("sha256").update(createCanonicalRequest(method, url)).digest("hex");
+}
+
+// Sign an HS256 JWT bound to this specific request through the query string hash
+function createJwtToken(method: string, url: URL, auth: AuthSettings): string {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = { alg: "HS256", typ: "JWT" };
+  const payload = {
+    iss: auth.jwtIssuer,
+    iat: issuedAt,
+    exp: issuedAt + auth.jwtExpirySeconds,
+    qsh: createQueryStringHash(method, url),
+  };
+
+  const unsigned = [header, payload]
+    .map((part) => Buffer.from(JSON.stringify(part)).toString("base64url"))
+    .join(".");
+  const signature = createHmac("sha256", auth.jwtSecret).update(unsigned).digest("base64url");
+
+  return `${unsigned}.${signature}`;
+}
+
+// Produce the Authorization header value for the configured AUTH_METHOD
+function buildAuthorizationHeader(method: string, url: URL, auth: AuthSettings = getAuthSettings()): string {
+  switch (auth.method) {
+    case "basic":
+      return `Basic ${Buffer.from(`${auth.email}:${auth.apiToken}`).toString("base64")}`;
+    case "oauth2":
+      return `Bearer ${auth.accessToken}`;
+    case "pat":
+      return `Bearer ${auth.personalAccessToken}`;
+    case "jwt":
+      return `JWT ${createJwtToken(method, url, auth)}`;
+  }
+}
+
+// Run a single attempt with its own timeout, linked to the caller's abort signal
+async function fetchWithTimeout(url: URL, init: any, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  const timer = timeoutMs > 0
+    ? setTimeout(() => controller.abort(new RequestTimeoutError(url.toString(), timeoutMs)), timeoutMs)
+    : null;
+
+  try {
+    return await fetch(url.toString(), { ...init, signal: controller.signal });
+  } catch (error) {
+    // Surface our own timeout reason instead of a generic AbortError
+    if (controller.signal.aborted && controller.signal.reason instanceof Error) {
+      throw controller.signal.reason;
+    }
+    throw error;
+  } finally {
+    if (timer) clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+// Perform an authenticated request against Confluence and return the raw response.
+// Throttled by the shared token bucket; retries 408/429/5xx, network errors and timeouts
+// with exponential backoff, honoring Retry-After. Non-retryable responses are returned as-is.
+async function confluenceRequest(target: string, options: any = {}): Promise<Response> {
+  const url = resolveConfluenceUrl(target);
+  const method = (options.method || "GET").toUpperCase();
+  const settings = getTransportSettings();
+  const bucket = getSharedBucket(settings);
+  const { signal, ...init } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    await bucket.take(signal);
+
+    let response: Response | null = null;
+    try {
+      response = await fetchWithTimeout(url, {
+        ...init,
+        method,
+        headers: {
+          // Signed per attempt so JWT iat/exp stay fresh across retries
+          'Authorization': buildAuthorizationHeader(method, url),
+          'Accept': 'application/json',
+          ...init.headers
+        }
+      }, settings.timeoutMs, signal);
+
+      // Guard against malformed responses so they are retried like network failures
+      if (!response || typeof response.ok !== "boolean") {
+        throw new TypeError(`Invalid response received from ${url.pathname}`);
+      }
+    } catch (error) {
+      if (signal?.aborted || attempt >= settings.retry.maxRetries) {
+        throw error;
+      }
+      await sleep(computeBackoffDelay(attempt, settings.retry), signal);
+      continue;
+    }
+
+    if (response.ok || !RETRYABLE_STATUSES.has(response.status) || attempt >= settings.retry.maxRetries) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers?.get("retry-after"));
+    if (retryAfter !== null) {
+      // Throttle every in-flight worker, not just this request
+      bucket.pauseFor(retryAfter);
+    }
+    await sleep(retryAfter ?? computeBackoffDelay(attempt, settings.retry), signal);
+  }
+}
+
+// Fetch a REST API endpoint through the shared, auth-aware transport and parse the JSON body
+async function fetchDirectly(endpoint: string, options: any = {}): Promise<any> {
+  const response = await confluenceRequest(endpoint, options);
+
+  if (!response.ok) {
+    throw new ConfluenceHttpError(response.status);
+  }
+
+  return response.json();
+}
+
+export type { AuthMethod, AuthSettings, RetryPolicy, TransportSettings, TokenBucket };
+export {
+  ConfluenceHttpError,
+  RequestTimeoutError,
+  getConfluenceHost,
+  getAuthSettings,
+  getTransportSettings,
+  createTokenBucket,
+  parseRetryAfter,
+  computeBackoffDelay,
+  resolveConfluenceUrl,
+  createCanonicalRequest,
+  createQueryStringHash,
+  createJwtToken,
+  buildAuthorizationHeader,
+  confluenceRequest,
+  fetchDirectly,
+};
@@ -0,0 +1,117 @@
+// src/tree.ts
+// Crawl a page tree from a root page, mirroring the Confluence hierarchy on disk
+
+import path from "node:path";
+import {
+  RESERVED_PAGE_ENTRIES,
+  createPageDirectoryResolver,
+  createPageTitleIndex,
+  scrapePage,
+} from "./index.ts";
+import type { ScrapeOptions } from "./index.ts";
+import { sanitizeFilename } from "./fs-utils.ts";
+import { LABELS_EXPAND, filterByLabels, pageLabels, resolveLabelFilter } from "./labels.ts";
+import { iterateChildPages } from "./pagination.ts";
+import { getConcurrencySetting, runWithConcurrency } from "./pool.ts";
+import { fetchDirectly } from "./transport.ts";
+import { createLogger } from "./logger.ts";
+
+const log = createLogger("Scrape");
+
+interface TreeScrapeOptions extends ScrapeOptions {
+  // 0 scrapes only the root; unset walks the whole tree
+  maxDepth?: number;
+  pageConcurrency?: number;
+}
+
+interface TreeNode {
+  id: string;
+  title: string;
+  depth: number;
+  pageDir: string;
+  labels: string[];
+}
+
+interface TreeScrapeResult {
+  rootPageId: string;
+  scraped: { pageId: string; title: string; outputDir: string; depth: number }[];
+  failed: { pageId: string; title: string; depth: number; error: string }[];
+}
+
+// Breadth-first walk of the tree. Each child directory is nested in its parent's directory,
+// with sibling title clashes (and clashes with scrapePage's own files) resolved per parent.
+// Every page is walked, so the children of a page left out by a label filter are still reached.
+async function* walkPageTree(root: TreeNode, maxDepth: number): AsyncGenerator<TreeNode> {
+  const queue: TreeNode[] = [root];
+  const visited = new Set<string>([root.id]);
+
+  while (queue.length > 0) {
+    const node = queue.shift() as TreeNode;
+    yield node;
+
+    if (node.depth >= maxDepth) continue;
+
+    const resolveChildDir = createPageDirectoryResolver(node.pageDir, RESERVED_PAGE_ENTRIES);
+    for await (const child of iterateChildPages(node.id, { expand: ["version", LABELS_EXPAND] })) {
+      if (visited.has(child.id)) continue;
+      visited.add(child.id);
+      queue.push({
+        id: child.id,
+        title: child.title,
+        depth: node.depth + 1,
+        pageDir: resolveChildDir(child),
+        labels: pageLabels(child),
+      });
+    }
+  }
+}
+
+// Scrape a root page and its descendants into directories that mirror the page hierarchy
+async function scrapePageTree(
+  client: any,
+  rootPageId: string,
+  outputDir: string = "./output",
+  options: TreeScrapeOptions = {},
+): Promise<TreeScrapeResult> {
+  const { maxDepth = Infinity, pageConcurrency, ...scrapeOptions } = options;
+  const concurrency = pageConcurrency ?? getConcurrencySetting("CONFLUENCE_PAGE_CONCURRENCY", 4);
+
+  const rootPage = await fetchDirectly(`/content/${rootPageId}?expand=space,${LABELS_EXPAND}`);
+  const spaceKey = rootPage.space ? rootPage.space.key : "unknown";
+  const root: TreeNode = {
+    id: rootPage.id,
+    title: rootPage.title,
+    depth: 0,
+    pageDir: path.join(outputDir, spaceKey, sanitizeFilename(rootPage.title)),
+    labels: pageLabels(rootPage),
+  };
+  log.info(`Crawling page tree from "${root.title}" (${root.id}), max depth: ${maxDepth}`);
+
+  const pageIndex = scrapeOptions.pageIndex ?? createPageTitleIndex();
+  const nodes: TreeNode[] = [];
+  const listing = filterByLabels(walkPageTree(root, maxDepth), resolveLabelFilter(scrapeOptions.labels), (node) => node.labels);
+  const results = await runWithConcurrency(listing, concurrency, (node, index) => {
+    nodes[index] = node;
+    pageIndex.add({ id: node.id, title: node.title, spaceKey });
+    return scrapePage(client, node.id, outputDir, { ...scrapeOptions, pageIndex, pageDir: node.pageDir });
+  });
+
+  const summary: TreeScrapeResult = { rootPageId, scraped: [], failed: [] };
+  results.forEach((result, index) => {
+    const node = nodes[index] as TreeNode;
+    if (result.status === "fulfilled" && result.value) {
+      summary.scraped.push({ ...result.value, depth: node.depth });
+    } else {
+      const error = result.status === "rejected"
+        ? (result.reason instanceof Error ? result.reason.message : String(result.reason))
+        : "Scrape failed";
+      summary.failed.push({ pageId: node.id, title: node.title, depth: node.depth, error });
+    }
+  });
+
+  log.info(`Page tree ${rootPageId}: ${summary.scraped.length} scraped, ${summary.failed.length} failed`);
+  return summary;
+}
+
+export type { TreeScrapeOptions, TreeScrapeResult };
+export { scrapePageTree };
@@ -0,0 +1,86 @@
+// src/zip.ts
+// Minimal ZIP reader for Office Open XML documents: central directory, stored and deflated
+// entries. ZIP64, encryption and multi-disk archives are not supported.
+
+import { inflateRawSync } from "node:zlib";
+import { createLogger } from "./logger.ts";
+
+const log = createLogger("Attachments");
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_FILE_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Largest uncompressed entry read by default; a few KB of deflated zeros can claim gigabytes
+const DEFAULT_MAX_ENTRY_SIZE = 64 * 1024 * 1024;
+
+// Entries of an archive by name; contents are only inflated when read. Entries declaring more
+// than maxEntrySize bytes uncompressed are skipped, and inflating never produces more than that
+// even when the declared size is wrong.
+function readZipEntries(buffer: Buffer, maxEntrySize: number = DEFAULT_MAX_ENTRY_SIZE): Map<string, () => Buffer> {
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error("Not a ZIP archive: end of central directory not found");
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10);
+  const entries = new Map<string, () => Buffer>();
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let index = 0; index < entryCount; index++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP archive: bad central directory entry ${index}`);
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (uncompressedSize > maxEntrySize) {
+      log.warn(`Skipping ZIP entry ${name}: ${uncompressedSize} bytes uncompressed, over the ${maxEntrySize} byte limit`);
+      continue;
+    }
+    entries.set(name, () => {
+      if (flags & 0x1) throw new Error(`ZIP entry ${name} is encrypted`);
+      if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+        throw new Error(`Corrupt ZIP archive: bad local header for ${name}`);
+      }
+      // The local header repeats name and extra field, with lengths of its own
+      const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+      if (method !== 0 && method !== 8) {
+        throw new Error(`ZIP entry ${name} uses unsupported compression method ${method}`);
+      }
+      let content: Buffer;
+      try {
+        content = method === 0 ? data : inflateRawSync(data, { maxOutputLength: Math.max(uncompressedSize, 1) });
+      } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+          throw new Error(`Corrupt ZIP archive: ${name} inflates to more than its declared ${uncompressedSize} bytes`);
+        }
+        throw error;
+      }
+      if (content.length !== uncompressedSize) {
+        throw new Error(`Corrupt ZIP archive: ${name} is ${content.length} bytes, ${uncompressedSize} declared`);
+      }
+      return content;
+    });
+  }
+  return entries;
+}
+
+export { DEFAULT_MAX_ENTRY_SIZE, readZipEntries };
@@ -0,0 +1,143 @@
+import { test, expect, beforeAll, afterAll, beforeEach, afterEach, spyOn } from "bun:test";
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+const originalEnv = process.env;
+const previousFetch = global.fetch;
+const files: Record<string, string> = {
+  "/wiki/download/attachments/1/diagram.png": "same bytes",
+  "/wiki/download/attachments/1/Diagram.png": "other bytes",
+  "/wiki/download/attachments/2/copy.png": "same bytes",
+  "/wiki/download/attachments/1/huge.bin": "x".repeat(2048),
+};
+let server: ReturnType<typeof Bun.serve>;
+let downloads: string[];
+let workDir: string;
+let logSpy: ReturnType<typeof spyOn>;
+
+function listed(id: string, title: string, download: string, mediaType: string, fileSize?: number) {
+  return { id, title, version: { number: 1 }, extensions: { mediaType, fileSize }, _links: { download } };
+}
+
+beforeAll(() => {
+  global.fetch = Bun.fetch as any;
+  server = Bun.serve({
+    port: 0,
+    fetch(req) {
+      const url = new URL(req.url);
+      downloads.push(url.pathname);
+      const body = files[url.pathname];
+      return body === undefined ? new Response("not found", { status: 404 }) : new Response(body);
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+  global.fetch = previousFetch;
+});
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(path.join(os.tmpdir(), "attachments-test-"));
+  downloads = [];
+  process.env = {
+    ...originalEnv,
+    AUTH_METHOD: "pat",
+    CONFLUENCE_PAT: "token",
+    CONFLUENCE_HOST: `http://localhost:${server.port}`,
+    CONFLUENCE_RATE_LIMIT: "0",
+    CONFLUENCE_MAX_RETRIES: "0",
+    CONFLUENCE_ATTACHMENT_MAX_SIZE: undefined,
+    CONFLUENCE_ATTACHMENT_INCLUDE_TYPES: undefined,
+    CONFLUENCE_ATTACHMENT_EXCLUDE_TYPES: undefined,
+  };
+  logSpy = spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  logSpy.mockRestore();
+  process.env = originalEnv;
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+test("parseByteSize and resolveAttachmentFilter", async () => {
+  const { parseByteSize, resolveAttachmentFilter } = await import("../src/attachments.ts");
+
+  expect(parseByteSize(1024)).toBe(1024);
+  expect(parseByteSize("512KB")).toBe(512 * 1024);
+  expect(parseByteSize("1.5 mb")).toBe(1.5 * 1024 * 1024);
+  expect(() => parseByteSize("lots")).toThrow("Invalid attachment size: lots");
+
+  expect(resolveAttachmentFilter()).toBeNull();
+  process.env.CONFLUENCE_ATTACHMENT_MAX_SIZE = "10MB";
+  process.env.CONFLUENCE_ATTACHMENT_EXCLUDE_TYPES = "video/*";
+  expect(resolveAttachmentFilter({ include: ["Image/*"] })).toEqual({
+    maxSize: 10 * 1024 * 1024,
+    include: ["image/*"],
+    exclude: ["video/*"],
+  });
+});
+
+test("createAttachmentNamer - later clashes get the attachment id", async () => {
+  const { createAttachmentNamer } = await import("../src/attachments.ts");
+  const nameFor = createAttachmentNamer();
+
+  expect(nameFor({ id: "a1", title: "plan/v2.pdf" })).toBe("plan-v2.pdf");
+  expect(nameFor({ id: "a2", title: "plan:v2.pdf" })).toBe("plan-v2-a2.pdf");
+  expect(nameFor({ id: "a3", title: "PLAN-V2.pdf" })).toBe("PLAN-V2-a3.pdf");
+  expect(nameFor({ id: "a1", title: "plan/v2.pdf" })).toBe("plan-v2.pdf");
+});
+
+test("downloadPageAttachments - filters, names, checksums and dedups through the store", async () => {
+  const { downloadPageAttachments } = await import("../src/attachments.ts");
+  const storeDir = path.join(workDir, ".attachment-store");
+  const pageOne = [
+    listed("a1", "diagram.png", "/download/attachments/1/diagram.png", "image/png"),
+    listed("a2", "Diagram.png", "/download/attachments/1/Diagram.png", "image/png"),
+    listed("a3", "talk.mp4", "/download/attachments/1/talk.mp4", "video/mp4"),
+    // No size in the listing: the limit is enforced while streaming
+    listed("a4", "huge.bin", "/download/attachments/1/huge.bin", "application/octet-stream"),
+  ];
+  const filter = { maxSize: "1KB", exclude: ["video/*"] };
+
+  const records = await downloadPageAttachments(pageOne, path.join(workDir, "one", "attachments"), {
+    storeDir,
+    concurrency: 2,
+    filter,
+  });
+
+  const sameSha = createHash("sha256").update("same bytes").digest("hex");
+  expect(records.map((record) => [record.id, record.status, record.file])).toEqual([
+    ["a1", "downloaded", "diagram.png"],
+    ["a2", "downloaded", "Diagram-a2.png"],
+    ["a3", "skipped", null],
+    ["a4", "skipped", null],
+  ]);
+  expect(records[0]).toMatchObject({ sha256: sameSha, fileSize: 10 });
+  expect(records[2]?.reason).toBe("media type video/mp4 is excluded");
+  expect(await fs.readdir(path.join(workDir, "one", "attachments"))).toEqual(["Diagram-a2.png", "diagram.png"].sort());
+  expect(downloads).not.toContain("/wiki/download/attachments/1/talk.mp4");
+
+  // Identical content on another page is stored once and linked into both pages
+  const [copy] = await downloadPageAttachments(
+    [listed("b1", "copy.png", "/download/attachments/2/copy.png", "image/png")],
+    path.join(workDir, "two", "attachments"),
+    { storeDir, concurrency: 1 },
+  );
+  expect(copy).toMatchObject({ status: "downloaded", sha256: sameSha, deduplicated: true });
+  const stored = await fs.stat(path.join(storeDir, sameSha.slice(0, 2), sameSha));
+  expect((await fs.stat(path.join(workDir, "two", "attachments", "copy.png"))).ino).toBe(stored.ino);
+
+  // Unchanged versions are placed from the store without another download
+  downloads = [];
+  const again = await downloadPageAttachments(pageOne.slice(0, 1), path.join(workDir, "one", "attachments"), {
+    storeDir,
+    concurrency: 1,
+    previous: records,
+  });
+  expect(again[0]).toMatchObject({ status: "unchanged", file: "diagram.png", sha256: sameSha });
+  expect(downloads).toEqual([]);
+  expect(await fs.readdir(path.join(workDir, "one", "attachments"))).toEqual(["diagram.png"]);
+});
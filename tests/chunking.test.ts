@@ -0,0 +1,163 @@
+import { test, expect } from "bun:test";
+
+const mockPageMetadata = {
+  id: "123456",
+  title: "Test Page",
+  space: { key: "TEST" },
+  version: {
+    when: "2024-01-01T00:00:00.000Z",
+    by: { displayName: "Test User" }
+  }
+};
+
+test("countTokens - BPE tokens by default, or the estimate", async () => {
+  const { countTokens } = await import("../src/chunking.ts");
+  const originalEnv = process.env;
+
+  try {
+    process.env = { ...originalEnv, CONFLUENCE_CHUNK_TOKENIZER: undefined };
+    expect(countTokens("")).toBe(0);
+    expect(countTokens("the cat sat")).toBe(3);
+    expect(countTokens("configuration")).toBe(1);
+    // The estimate counts one token per CJK character; the BPE vocabulary needs more
+    expect(countTokens("日本語")).toBe(4);
+
+    expect(countTokens("the cat sat", "estimate")).toBe(3);
+    // "configuration" is 13 letters, so four tokens
+    expect(countTokens("configuration", "estimate")).toBe(4);
+    expect(countTokens("v1.2.3!", "estimate")).toBe(7);
+    expect(countTokens("日本語", "estimate")).toBe(3);
+
+    process.env.CONFLUENCE_CHUNK_TOKENIZER = "estimate";
+    expect(countTokens("configuration")).toBe(4);
+    expect(() => countTokens("text", "gpt2")).toThrow("Unknown tokenizer: gpt2");
+  } finally {
+    process.env = originalEnv;
+  }
+});
+
+test("chunkBlocks - packs to the target and never exceeds the maximum", async () => {
+  const { chunkBlocks, countTokens, resolveChunkingOptions } = await import("../src/chunking.ts");
+
+  const sentence = "Failover requires checking the replica lag first.";
+  const blocks = [
+    Array(20).fill(sentence).join(" "),
+    "Short note.",
+    // A single "sentence" far over the limit must still be split
+    Array(200).fill("word").join(" "),
+  ];
+  const options = resolveChunkingOptions({ targetTokens: 40, maxTokens: 50, overlapTokens: 13 });
+
+  const chunks = chunkBlocks(blocks, options);
+
+  expect(chunks.length).toBeGreaterThan(3);
+  for (const chunk of chunks) {
+    expect(countTokens(chunk)).toBeLessThanOrEqual(50);
+  }
+  // Sentence boundaries are kept and the next chunk starts with the overlapping sentence
+  expect(chunks[0]?.endsWith("first.")).toBe(true);
+  expect(chunks[1]?.startsWith(sentence)).toBe(true);
+});
+
+test("chunkBlocks - long unbroken words are cut without counting every prefix", async () => {
+  const { chunkBlocks, countTokens, registerTokenizer, resolveChunkingOptions } = await import("../src/chunking.ts");
+  // Base64 blobs, the kind of text that made the cut quadratic
+  let seed = 7;
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+  const blobOf = (length: number) =>
+    Array.from({ length }, () => alphabet[(seed = (seed * 1103515245 + 12345) % 2 ** 31) % 64]).join("");
+  const options = (tokenizer: string) => resolveChunkingOptions({ maxTokens: 512, overlapTokens: 0, tokenizer });
+
+  // The BPE tokenizers encode the word once and slice the tokens
+  const blob = blobOf(50_000);
+  const chunks = chunkBlocks([`Payload: ${blob}`], options("cl100k_base"));
+  expect(chunks.join("").replace(/\s+/g, "")).toBe(`Payload:${blob}`);
+  expect(chunks.every((chunk) => countTokens(chunk, "cl100k_base") <= 512)).toBe(true);
+
+  // A tokenizer without split gets a searched cut, in few calls
+  const small = blobOf(20_000);
+  let calls = 0;
+  registerTokenizer("counted-cl100k", (text) => {
+    calls++;
+    return countTokens(text, "cl100k_base");
+  });
+  const counted = chunkBlocks([`Payload: ${small}`], options("counted-cl100k"));
+  expect(counted.join("").replace(/\s+/g, "")).toBe(`Payload:${small}`);
+  expect(counted.every((chunk) => countTokens(chunk, "cl100k_base") <= 512)).toBe(true);
+  // One call per character would be 20,000
+  expect(calls).toBeLessThan(1_000);
+});
+
+test("chunkBlocks - the maximum holds for code, URLs and CJK text under the configured tokenizer", async () => {
+  const { chunkBlocks, countTokens, registerTokenizer, resolveChunkingOptions } = await import("../src/chunking.ts");
+  const blocks = [
+    Array(30).fill("https://example.atlassian.net/wiki/spaces/OPS/pages/123456/Runbook?focusedCommentId=42").join(" "),
+    Array(40).fill("if (!x?.y) { return z[0] ?? -1; }").join(" "),
+    "運用手順書を確認してください。".repeat(40),
+  ];
+
+  const options = resolveChunkingOptions({ targetTokens: 40, maxTokens: 50, overlapTokens: 0 });
+  expect(options.tokenizer).toBe("cl100k_base");
+  for (const chunk of chunkBlocks(blocks, options)) {
+    expect(countTokens(chunk, "cl100k_base")).toBeLessThanOrEqual(50);
+  }
+
+  // A model with another vocabulary brings its own tokenizer
+  registerTokenizer("per-character", (text) => [...text].length);
+  const chunks = chunkBlocks(blocks, resolveChunkingOptions({ maxTokens: 64, tokenizer: "per-character" }));
+  expect(chunks.every((chunk) => [...chunk].length <= 64)).toBe(true);
+});
+
+test("chunkBlocks - the paragraph strategy keeps one chunk per block", async () => {
+  const { chunkBlocks, resolveChunkingOptions } = await import("../src/chunking.ts");
+
+  const chunks = chunkBlocks(["First block.", "Second block."], resolveChunkingOptions({ strategy: "paragraph" }));
+
+  expect(chunks).toEqual(["First block.", "Second block."]);
+});
+
+test("resolveChunkingOptions - reads the environment and rejects unknown strategies", async () => {
+  const { resolveChunkingOptions, registerChunkingStrategy } = await import("../src/chunking.ts");
+  const originalEnv = process.env;
+
+  process.env = {
+    ...originalEnv,
+    CONFLUENCE_CHUNK_STRATEGY: "paragraph",
+    CONFLUENCE_CHUNK_TARGET_TOKENS: "800",
+    CONFLUENCE_CHUNK_MAX_TOKENS: "256",
+    CONFLUENCE_CHUNK_OVERLAP_TOKENS: "0",
+    CONFLUENCE_CHUNK_TOKENIZER: "estimate",
+  };
+  try {
+    // The target is capped at the maximum
+    expect(resolveChunkingOptions()).toEqual({
+      strategy: "paragraph",
+      targetTokens: 256,
+      maxTokens: 256,
+      overlapTokens: 0,
+      tokenizer: "estimate",
+    });
+    expect(resolveChunkingOptions({ strategy: "token" }).strategy).toBe("token");
+    expect(() => resolveChunkingOptions({ strategy: "semantic" })).toThrow("Unknown chunking strategy: semantic");
+    expect(() => resolveChunkingOptions({ tokenizer: "gpt2" })).toThrow("Unknown tokenizer: gpt2");
+
+    registerChunkingStrategy("semantic", (blocks) => [blocks.join(" ")]);
+    expect(resolveChunkingOptions({ strategy: "semantic" }).strategy).toBe("semantic");
+  } finally {
+    process.env = originalEnv;
+  }
+});
+
+test("extractVectorContent - chunk sizes follow the chunking options", async () => {
+  const { extractVectorContent, countTokens } = await import("../src/index.ts");
+
+  const longText = "This is a very long paragraph. ".repeat(100);
+  const result = extractVectorContent(`<p>${longText}</p>`, mockPageMetadata, { targetTokens: 60, maxTokens: 80 });
+
+  const sections = result.filter((v) => v.type === "section");
+  expect(sections.length).toBeGreaterThan(10);
+  for (const vector of sections) {
+    expect(countTokens(vector.content)).toBeLessThanOrEqual(80);
+    expect(vector.metadata.tokens).toBe(countTokens(vector.content));
+  }
+});
@@ -0,0 +1,192 @@
+import { test, expect, beforeAll, afterAll, beforeEach, afterEach, spyOn } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+const originalEnv = process.env;
+const previousFetch = global.fetch;
+const pages = [
+  { id: "1", title: "Home" },
+  { id: "2", title: "Broken" },
+];
+let server: ReturnType<typeof Bun.serve>;
+let outputDir: string;
+let stdout: string;
+let searchQueries: string[];
+let authHeaders: string[];
+let writeSpy: ReturnType<typeof spyOn>;
+let logSpy: ReturnType<typeof spyOn>;
+let errorSpy: ReturnType<typeof spyOn>;
+
+beforeAll(() => {
+  global.fetch = Bun.fetch as any;
+
+  server = Bun.serve({
+    port: 0,
+    fetch(req) {
+      const url = new URL(req.url);
+      authHeaders.push(req.headers.get("authorization") || "");
+      if (url.pathname === "/wiki/rest/api/content" && url.searchParams.get("spaceKey") === "DOCS") {
+        return Response.json({ results: pages, size: pages.length });
+      }
+      if (url.pathname.endsWith("/search")) {
+        searchQueries.push(url.searchParams.get("cql") as string);
+        return Response.json({
+          results: [{ content: { id: "1", title: "Home", type: "page", space: { key: "DOCS" } } }],
+          size: 1,
+          totalSize: 1,
+        });
+      }
+      if (url.pathname.endsWith("/child/attachment")) {
+        return Response.json({ results: [] });
+      }
+      if (url.pathname === "/wiki/rest/api/content/1") {
+        return Response.json({
+          id: "1",
+          title: "Home",
+          body: { storage: { value: "<h1>Welcome</h1><p>Hello.</p>" } },
+          space: { key: "DOCS" },
+          version: { number: 3, when: "2024-01-01T00:00:00.000Z", by: { displayName: "Stub" } },
+        });
+      }
+      return new Response("not found", { status: 404 });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+  global.fetch = previousFetch;
+});
+
+beforeEach(async () => {
+  outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "cli-test-"));
+  // Deliberately wrong host and credentials: the flags must win
+  process.env = {
+    ...originalEnv,
+    AUTH_METHOD: "basic",
+    CONFLUENCE_HOST: "http://127.0.0.1:1",
+    CONFLUENCE_RATE_LIMIT: "0",
+    CONFLUENCE_MAX_RETRIES: "0",
+  };
+  stdout = "";
+  searchQueries = [];
+  authHeaders = [];
+  writeSpy = spyOn(process.stdout, "write").mockImplementation((chunk: any) => {
+    stdout += String(chunk);
+    return true;
+  });
+  logSpy = spyOn(console, "log").mockImplementation(() => {});
+  errorSpy = spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  writeSpy.mockRestore();
+  logSpy.mockRestore();
+  errorSpy.mockRestore();
+  process.env = originalEnv;
+  await fs.rm(outputDir, { recursive: true, force: true });
+});
+
+function connectionFlags(): string[] {
+  return ["--host", `http://localhost:${server.port}`, "--auth", "pat", "--pat", "token", "-o", outputDir];
+}
+
+test("runCli - help and usage errors", async () => {
+  const { runCli } = await import("../src/cli.ts");
+
+  expect(await runCli(["--help"])).toBe(0);
+  expect(stdout).toContain("scrape page <id>");
+
+  expect(await runCli([])).toBe(64);
+  expect(await runCli(["publish"])).toBe(64);
+  expect(await runCli(["scrape", "page"])).toBe(64);
+  expect(await runCli(["scrape", "space", "DOCS", "--concurrency", "zero"])).toBe(64);
+  expect(await runCli(["scrape", "page", "1", "--format", "pdf"])).toBe(64);
+  expect(await runCli(["scrape", "page", "1", "--bogus"])).toBe(64);
+});
+
+test("runCli - scrape page with flags overriding the environment", async () => {
+  const { runCli } = await import("../src/cli.ts");
+
+  const code = await runCli(["scrape", "page", "1", ...connectionFlags(), "--format", "markdown"]);
+
+  expect(code).toBe(0);
+  expect(process.env.CONFLUENCE_HOST).toBe(`http://localhost:${server.port}`);
+  const files = await fs.readdir(path.join(outputDir, "DOCS", "Home"));
+  expect(files.sort()).toEqual(["content.md", "metadata.json"]);
+});
+
+test("runCli - partial failures exit with 2, total failures with 1", async () => {
+  const { runCli } = await import("../src/cli.ts");
+
+  expect(await runCli(["scrape", "space", "DOCS", ...connectionFlags()])).toBe(2);
+  expect(await runCli(["scrape", "page", "2", ...connectionFlags()])).toBe(1);
+});
+
+test("runCli - scrape query builds CQL from the query flags", async () => {
+  const { runCli } = await import("../src/cli.ts");
+
+  const code = await runCli(["scrape", "query", "--space", "DOCS", "--label", "runbook", ...connectionFlags()]);
+
+  expect(code).toBe(0);
+  expect(searchQueries).toEqual(['space = "DOCS" and type = "page" and label = "runbook"']);
+  expect(await fs.readdir(path.join(outputDir, "DOCS", "Home"))).toContain("content.md");
+  expect(await runCli(["scrape", "query", "--ancestor", "12 or 1=1"])).toBe(64);
+  expect(await runCli(["search"])).toBe(64);
+});
+
+test("runCli - --space is a query list, and one space only where a single space is meant", async () => {
+  const { runCli } = await import("../src/cli.ts");
+  process.env.CONFLUENCE_SPACE_KEY = "HOME";
+
+  expect(await runCli(["search", "--space", "DOCS,OPS", ...connectionFlags()])).toBe(0);
+  expect(searchQueries).toEqual(['space in ("DOCS", "OPS")']);
+  expect(process.env.CONFLUENCE_SPACE_KEY).toBe("HOME");
+
+  expect(await runCli(["validate", "--space", "DOCS,OPS", ...connectionFlags()])).toBe(64);
+  expect(await runCli(["sync", "--space", "DOCS,OPS", ...connectionFlags()])).toBe(64);
+  expect(errorSpy.mock.calls[0]?.[0]).toStartWith('--space takes a single space key here, got "DOCS,OPS"');
+});
+
+test("runCli - JWT credentials from flags", async () => {
+  const { runCli } = await import("../src/cli.ts");
+
+  const code = await runCli(["scrape", "page", "1", ...connectionFlags(), "--auth", "jwt", "--jwt-issuer", "scraper-app", "--jwt-secret", "shared-secret"]);
+  expect(code).toBe(0);
+  expect(process.env.AUTH_METHOD).toBe("jwt");
+  expect(process.env.CONFLUENCE_JWT_ISSUER).toBe("scraper-app");
+  expect(process.env.CONFLUENCE_JWT_SECRET).toBe("shared-secret");
+  expect(authHeaders.length).toBeGreaterThan(0);
+  expect(authHeaders.every((header) => header.startsWith("JWT "))).toBe(true);
+});
+
+test("runCli - search prints matching pages", async () => {
+  const { runCli } = await import("../src/cli.ts");
+
+  expect(await runCli(["search", "space = DOCS", "--json", ...connectionFlags()])).toBe(0);
+  expect(JSON.parse(stdout)).toEqual([{ id: "1", title: "Home", spaceKey: "DOCS", type: "page" }]);
+});
+
+test("runCli - log level, JSON lines and redacted credentials", async () => {
+  const { runCli } = await import("../src/cli.ts");
+  const lines = () => logSpy.mock.calls.map((call: unknown[]) => String(call[0]));
+  const flags = ["--host", `http://localhost:${server.port}`, "--auth", "pat", "--pat", "pat-secret-1234", "-o", outputDir];
+
+  expect(await runCli(["scrape", "page", "1", ...flags, "--log-format", "json", "--log-level", "debug"])).toBe(0);
+  const records = lines().map((line: string) => JSON.parse(line));
+  expect(records.some((record: { level: string; component: string }) => record.level === "debug" && record.component === "API")).toBe(true);
+  expect(records.find((record: { level: string; component: string }) => record.component === "Scrape" && record.level === "info")).toMatchObject({
+    message: 'Scraped page "Home" (ID: 1)',
+  });
+  expect(lines().join("\n")).not.toContain("pat-secret-1234");
+
+  logSpy.mockClear();
+  process.env.CONFLUENCE_LOG_FORMAT = "text";
+  expect(await runCli(["scrape", "page", "1", ...flags, "--quiet"])).toBe(0);
+  expect(lines()).toEqual([]);
+
+  expect(await runCli(["scrape", "page", "1", "--quiet", "--log-level", "debug"])).toBe(64);
+  expect(await runCli(["scrape", "page", "1", "--log-level", "loud"])).toBe(64);
+  expect(String(errorSpy.mock.calls.at(-1)?.[0])).toContain("Invalid log level: loud");
+});
@@ -0,0 +1,144 @@
+import { test, expect, spyOn } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+const rawComments = [
+  {
+    id: "c1",
+    body: { storage: { value: "<p>We decided to use <strong>Postgres</strong>.</p>" } },
+    history: { createdDate: "2024-02-01T10:00:00.000Z", createdBy: { displayName: "Ada", accountId: "acc-1" } },
+    version: { when: "2024-02-02T10:00:00.000Z", by: { displayName: "Ada" } },
+    extensions: { location: "footer" },
+    ancestors: [],
+  },
+  {
+    id: "c2",
+    body: { storage: { value: "<p>Agreed.</p>" } },
+    history: { createdDate: "2024-02-03T10:00:00.000Z", createdBy: { displayName: "Grace" } },
+    version: { when: "2024-02-03T10:00:00.000Z", by: { displayName: "Grace" } },
+    extensions: { location: "footer" },
+    ancestors: [{ id: "c1" }],
+  },
+  {
+    id: "c3",
+    body: { storage: { value: "<p>Is this still true?</p>" } },
+    history: { createdDate: "2024-02-04T10:00:00.000Z", createdBy: { displayName: "Linus" } },
+    version: { when: "2024-02-05T10:00:00.000Z", by: { displayName: "Linus" } },
+    extensions: {
+      location: "inline",
+      inlineProperties: { originalSelection: "runs on MySQL", markerRef: "m-1" },
+      resolution: { status: "resolved" },
+    },
+    ancestors: [],
+  },
+];
+
+test("buildCommentThreads - nests replies and keeps inline anchors and resolution", async () => {
+  const { buildCommentThreads } = await import("../src/comments.ts");
+
+  const threads = buildCommentThreads(rawComments);
+
+  expect(threads.map((comment) => comment.id)).toEqual(["c1", "c3"]);
+  expect(threads[0]).toMatchObject({
+    parentId: null,
+    location: "footer",
+    author: { displayName: "Ada", accountId: "acc-1" },
+    createdAt: "2024-02-01T10:00:00.000Z",
+    updatedAt: "2024-02-02T10:00:00.000Z",
+    resolution: null,
+    inlineText: null,
+    text: "We decided to use Postgres.",
+  });
+  expect(threads[0]?.replies.map((reply) => [reply.id, reply.parentId])).toEqual([["c2", "c1"]]);
+  expect(threads[1]).toMatchObject({ location: "inline", resolution: "resolved", inlineText: "runs on MySQL" });
+});
+
+const openInline = {
+  id: "c4",
+  body: { storage: { value: "<p>Typo here.</p>" } },
+  history: { createdDate: "2024-02-06T10:00:00.000Z", createdBy: { displayName: "Grace" } },
+  version: { when: "2024-02-06T10:00:00.000Z", by: { displayName: "Grace" } },
+  extensions: { location: "inline", inlineProperties: { originalSelection: "Postgress" }, resolution: { status: "open" } },
+  ancestors: [],
+};
+
+test("scrapePage - writes comments.json and optional comment chunks", async () => {
+  const { scrapePage } = await import("../src/index.ts");
+  const previousFetch = global.fetch;
+  const originalEnv = process.env;
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "comments-test-"));
+  let commentQuery: URLSearchParams | undefined;
+  process.env = {
+    ...originalEnv,
+    AUTH_METHOD: "pat",
+    CONFLUENCE_PAT: "token",
+    CONFLUENCE_HOST: "https://example.atlassian.net",
+    CONFLUENCE_RATE_LIMIT: "0",
+    CONFLUENCE_COMMENT_CHUNKS: undefined,
+  };
+  global.fetch = (async (input: string | URL) => {
+    const url = new URL(String(input));
+    if (url.pathname.endsWith("/child/attachment")) {
+      return new Response(JSON.stringify({ results: [] }), { status: 200 });
+    }
+    if (url.pathname.endsWith("/child/comment")) {
+      commentQuery = url.searchParams;
+      // Like Confluence: resolved inline comments only come back under location=resolved
+      const locations = url.searchParams.getAll("location");
+      const results = [...rawComments, openInline].filter((comment) =>
+        comment.extensions.resolution?.status === "resolved" ? locations.includes("resolved") : locations.includes(comment.extensions.location));
+      return new Response(JSON.stringify({ results }), { status: 200 });
+    }
+    return new Response(JSON.stringify({
+      id: "7",
+      title: "Decisions",
+      space: { key: "ENG" },
+      version: { number: 1, when: "2024-01-01T00:00:00.000Z", by: { displayName: "Stub" } },
+      body: { storage: { value: "<p>Body</p>" } },
+    }), { status: 200 });
+  }) as any;
+  const log = spyOn(console, "log").mockImplementation(() => {});
+
+  try {
+    const pageDir = path.join(outputDir, "ENG", "Decisions");
+    await scrapePage(null, "7", outputDir, { formats: ["comments", "vectors"] });
+
+    expect(commentQuery?.get("depth")).toBe("all");
+    expect(commentQuery?.getAll("location")).toEqual(["footer", "inline", "resolved"]);
+    const saved = JSON.parse(await fs.readFile(path.join(pageDir, "comments.json"), "utf8"));
+    expect(saved.comments.map((comment: any) => [comment.id, comment.location, comment.resolution])).toEqual([
+      ["c1", "footer", null],
+      ["c3", "inline", "resolved"],
+      ["c4", "inline", "open"],
+    ]);
+    expect(saved.comments[0].replies[0].text).toBe("Agreed.");
+    const metadata = JSON.parse(await fs.readFile(path.join(pageDir, "metadata.json"), "utf8"));
+    expect(metadata.comments).toBe(4);
+    let vectors = JSON.parse(await fs.readFile(path.join(pageDir, "vector_content.json"), "utf8"));
+    expect(vectors.some((vector: any) => vector.type === "comment")).toBe(false);
+
+    await scrapePage(null, "7", outputDir, { formats: ["vectors"], commentChunks: true });
+    vectors = JSON.parse(await fs.readFile(path.join(pageDir, "vector_content.json"), "utf8"));
+    const commentVectors = vectors.filter((vector: any) => vector.type === "comment");
+    expect(commentVectors.map((vector: any) => vector.id)).toEqual(["7-comment-c1-0", "7-comment-c2-0", "7-comment-c3-0", "7-comment-c4-0"]);
+    expect(commentVectors[2]).toMatchObject({
+      pageId: "7",
+      content: 'On "runs on MySQL":\n\nIs this still true?',
+      metadata: {
+        url: "https://example.atlassian.net/wiki/spaces/ENG/pages/7?focusedCommentId=c3#comment-c3",
+        author: "Linus",
+        contentType: "comment",
+        commentLocation: "inline",
+        resolution: "resolved",
+        parentCommentId: null,
+      },
+    });
+    expect(commentVectors[1].metadata.parentCommentId).toBe("c1");
+  } finally {
+    log.mockRestore();
+    global.fetch = previousFetch;
+    process.env = originalEnv;
+    await fs.rm(outputDir, { recursive: true, force: true });
+  }
+});
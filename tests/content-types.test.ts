@@ -0,0 +1,107 @@
+import { test, expect, spyOn } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+test("resolveContentTypes - options, environment, then pages only", async () => {
+  const { resolveContentTypes, getContentType } = await import("../src/index.ts");
+  const originalEnv = process.env;
+
+  try {
+    process.env = { ...originalEnv, CONFLUENCE_CONTENT_TYPES: undefined };
+    expect(resolveContentTypes().map((type) => type.name)).toEqual(["page"]);
+
+    process.env = { ...originalEnv, CONFLUENCE_CONTENT_TYPES: "page, blogpost, page" };
+    expect(resolveContentTypes().map((type) => type.name)).toEqual(["page", "blogpost"]);
+    expect(resolveContentTypes(["blogpost"]).map((type) => type.name)).toEqual(["blogpost"]);
+
+    expect(getContentType(undefined).name).toBe("page");
+    expect(() => resolveContentTypes(["whiteboard"])).toThrow("Unknown content type: whiteboard");
+  } finally {
+    process.env = originalEnv;
+  }
+});
+
+test("extractVectorContent - chunks carry the content type and its URL", async () => {
+  const { extractVectorContent } = await import("../src/index.ts");
+  const originalEnv = process.env;
+  process.env = { ...originalEnv, CONFLUENCE_HOST: "https://example.atlassian.net" };
+
+  try {
+    const vectors = extractVectorContent("<p>Release notes.</p>", {
+      id: "42",
+      title: "Shipped",
+      type: "blogpost",
+      space: { key: "NEWS" },
+      version: { when: "2024-01-01T00:00:00.000Z", by: { displayName: "Stub" } },
+    });
+
+    expect(vectors.length).toBeGreaterThan(0);
+    expect(vectors[0]?.metadata.contentType).toBe("blogpost");
+    expect(vectors[0]?.metadata.url).toBe("https://example.atlassian.net/wiki/pages/viewpage.action?pageId=42");
+  } finally {
+    process.env = originalEnv;
+  }
+});
+
+test("scrapeSpace - blog posts are listed after pages and written under blog/", async () => {
+  const { scrapeSpace } = await import("../src/index.ts");
+  const previousFetch = global.fetch;
+  const originalEnv = process.env;
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "content-types-test-"));
+  const listings: Record<string, { id: string; title: string }[]> = {
+    page: [{ id: "1", title: "blog" }, { id: "2", title: "Shipped" }],
+    blogpost: [{ id: "3", title: "Shipped" }],
+  };
+  const listedTypes: string[] = [];
+  process.env = { ...originalEnv, AUTH_METHOD: "pat", CONFLUENCE_PAT: "token", CONFLUENCE_RATE_LIMIT: "0" };
+  global.fetch = (async (input: string | URL) => {
+    const url = new URL(String(input));
+    if (url.pathname.endsWith("/child/attachment")) {
+      return new Response(JSON.stringify({ results: [] }), { status: 200 });
+    }
+    if (url.pathname.endsWith("/content")) {
+      const type = url.searchParams.get("type") as string;
+      listedTypes.push(type);
+      return new Response(JSON.stringify({ results: listings[type] }), { status: 200 });
+    }
+    const id = url.pathname.split("/").pop() as string;
+    const [type, page] = Object.entries(listings)
+      .flatMap(([name, items]) => items.map((item) => [name, item] as const))
+      .find(([, item]) => item.id === id) as [string, { id: string; title: string }];
+    return new Response(JSON.stringify({
+      ...page,
+      type,
+      space: { key: "NEWS" },
+      version: { number: 1, when: "2024-01-01T00:00:00.000Z", by: { displayName: "Stub" } },
+      body: { storage: { value: "<p>Body</p>" } },
+    }), { status: 200 });
+  }) as any;
+  const log = spyOn(console, "log").mockImplementation(() => {});
+
+  try {
+    const result = await scrapeSpace(null, "NEWS", outputDir, 2, {
+      formats: ["vectors"],
+      contentTypes: ["page", "blogpost"],
+    });
+
+    expect(listedTypes).toEqual(["page", "blogpost"]);
+    expect(result.failed).toEqual([]);
+    expect(result.scraped.map((page) => page.outputDir).sort()).toEqual([
+      path.join(outputDir, "NEWS", "Shipped"),
+      // The blog directory is reserved, so a page titled "blog" cannot take it
+      path.join(outputDir, "NEWS", "blog-1"),
+      path.join(outputDir, "NEWS", "blog", "Shipped"),
+    ]);
+
+    const metadata = JSON.parse(await fs.readFile(path.join(outputDir, "NEWS", "blog", "Shipped", "metadata.json"), "utf8"));
+    expect(metadata.contentType).toBe("blogpost");
+    const vectors = JSON.parse(await fs.readFile(path.join(outputDir, "NEWS", "blog", "Shipped", "vector_content.json"), "utf8"));
+    expect(vectors[0].metadata.contentType).toBe("blogpost");
+  } finally {
+    log.mockRestore();
+    global.fetch = previousFetch;
+    process.env = originalEnv;
+    await fs.rm(outputDir, { recursive: true, force: true });
+  }
+});
@@ -168,9 +168,7 @@ test("processTable - basic table processing", async () => {
   const tableNode = parse(tableHtml).querySelector("table");
   const result = processTable(tableNode);
 
-  expect(result).toContain("Table Headers: Name | Value");
-  expect(result).toContain("Row: Item 1 | 100");
-  expect(result).toContain("Row: Item 2 | 200");
+  expect(result).toBe("Name: Item 1; Value: 100\nName: Item 2; Value: 200\n");
 });
 
 test("processTable - table without headers", async () => {
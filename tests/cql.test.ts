@@ -0,0 +1,113 @@
+import { test, expect, spyOn } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+test("buildCql - combines filters with escaped values", async () => {
+  const { buildCql } = await import("../src/cql.ts");
+
+  expect(buildCql({
+    text: 'say "hello" \\ bye',
+    space: ["DOCS", "OPS"],
+    type: "page",
+    label: "runbook",
+    excludeLabel: ["draft", "archived"],
+    ancestor: 123456,
+    lastModified: { after: new Date("2024-03-01T08:30:00Z"), before: "2024-04-01" },
+    creator: "5b10ac8d82e05b22cc7d4ef5",
+  })).toBe(
+    'text ~ "say \\"hello\\" \\\\ bye" and space in ("DOCS", "OPS") and type = "page" and label = "runbook" ' +
+    'and label not in ("draft", "archived") and ancestor = 123456 and lastmodified >= "2024-03-01 08:30" ' +
+    'and lastmodified < "2024-04-01" and creator = "5b10ac8d82e05b22cc7d4ef5"',
+  );
+});
+
+test("buildCql - raw passthrough and functions", async () => {
+  const { buildCql } = await import("../src/cql.ts");
+
+  expect(buildCql({ raw: "space = DOCS or space = OPS" })).toBe("space = DOCS or space = OPS");
+  expect(buildCql({ title: "On-call", raw: "space = DOCS or space = OPS" }))
+    .toBe('title ~ "On-call" and (space = DOCS or space = OPS)');
+  expect(buildCql({ creator: "currentUser()", excludeLabel: "draft" })).toBe('label != "draft" and creator = currentUser()');
+});
+
+test("buildCql - rejects values that cannot be expressed safely", async () => {
+  const { buildCql } = await import("../src/cql.ts");
+
+  expect(() => buildCql({})).toThrow("CQL query needs at least one condition");
+  expect(() => buildCql({ raw: "  " })).toThrow("CQL query needs at least one condition");
+  expect(() => buildCql({ ancestor: "1 or space = X" })).toThrow("Invalid CQL ancestor page id");
+  expect(() => buildCql({ lastModified: { after: 'now("-1d")' } })).toThrow("Invalid CQL date for lastModified.after");
+  expect(() => buildCql({ type: "whiteboard" as any })).toThrow("Unknown CQL content type: whiteboard");
+});
+
+test("scrapeQuery - searches and scrapes through the transport with the configured auth", async () => {
+  const { scrapeQuery } = await import("../src/index.ts");
+  const previousFetch = global.fetch;
+  const originalEnv = process.env;
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "query-test-"));
+  const requests: { url: URL; authorization: string | null }[] = [];
+  let throttled = false;
+  process.env = {
+    ...originalEnv,
+    AUTH_METHOD: "pat",
+    CONFLUENCE_HOST: "https://example.atlassian.net",
+    CONFLUENCE_PAT: "query-pat",
+    CONFLUENCE_RATE_LIMIT: "0",
+    CONFLUENCE_RETRY_BASE_MS: "1",
+    CONFLUENCE_CONTENT_TYPES: undefined,
+    CONFLUENCE_INCLUDE_LABELS: undefined,
+    CONFLUENCE_EXCLUDE_LABELS: undefined,
+  };
+  global.fetch = (async (input: string | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    requests.push({ url, authorization: new Headers(init?.headers).get("authorization") });
+    if (url.pathname.endsWith("/content/search")) {
+      // The first search is throttled, and retried by the transport
+      if (!throttled) {
+        throttled = true;
+        return new Response("slow down", { status: 429, headers: { "Retry-After": "0" } });
+      }
+      if (url.searchParams.get("cursor") === "page-2") {
+        return Response.json({ results: [{ id: "2", title: "Rollback", type: "page", space: { key: "OPS" } }] });
+      }
+      return Response.json({
+        results: [{ id: "1", title: "Restart", type: "page", space: { key: "OPS" } }],
+        _links: { next: `/rest/api/content/search?cql=${encodeURIComponent(url.searchParams.get("cql") as string)}&cursor=page-2` },
+      });
+    }
+    if (url.pathname.endsWith("/child/attachment")) {
+      return Response.json({ results: [] });
+    }
+    const id = url.pathname.split("/").pop() as string;
+    return Response.json({
+      id,
+      title: id === "1" ? "Restart" : "Rollback",
+      space: { key: "OPS" },
+      version: { number: 1, when: "2024-01-01T00:00:00.000Z", by: { displayName: "Stub" } },
+      body: { storage: { value: "<p>Steps.</p>" } },
+    });
+  }) as any;
+  const log = spyOn(console, "log").mockImplementation(() => {});
+  const warn = spyOn(console, "warn").mockImplementation(() => {});
+
+  try {
+    const result = await scrapeQuery(null, { space: "OPS", label: "runbook" }, outputDir, 2, { formats: ["markdown"], embedding: null });
+
+    expect(result.cql).toBe('space = "OPS" and type = "page" and label = "runbook"');
+    expect(result.scraped.map((page) => page.pageId).sort()).toEqual(["1", "2"]);
+    expect(result.failed).toEqual([]);
+    expect((await fs.readdir(path.join(outputDir, "OPS"))).sort()).toEqual(["Restart", "Rollback"]);
+
+    const searches = requests.filter((request) => request.url.pathname === "/wiki/rest/api/content/search");
+    expect(searches.map((request) => request.url.searchParams.get("cursor"))).toEqual([null, null, "page-2"]);
+    expect(searches[0]?.url.searchParams.get("expand")).toBe("space,metadata.labels");
+    expect(requests.every((request) => request.authorization === "Bearer query-pat")).toBe(true);
+  } finally {
+    log.mockRestore();
+    warn.mockRestore();
+    global.fetch = previousFetch;
+    process.env = originalEnv;
+    await fs.rm(outputDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,125 @@
+import { test, expect, spyOn } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+test("createHashEmbeddingProvider - deterministic unit vectors", async () => {
+  const { createHashEmbeddingProvider } = await import("../src/embeddings.ts");
+  const provider = createHashEmbeddingProvider(32);
+
+  const [a, b, c] = await provider.embed(["Failover the database", "failover the DATABASE", "Rotate keys"]);
+
+  expect(provider.model).toBe("hash-32");
+  expect(a).toHaveLength(32);
+  expect(a).toEqual(b as number[]);
+  expect(a).not.toEqual(c as number[]);
+  expect(Math.hypot(...(a as number[]))).toBeCloseTo(1, 6);
+});
+
+test("embedTexts - batches uncached texts and reuses the cache", async () => {
+  const { embedTexts, createFileEmbeddingCache } = await import("../src/embeddings.ts");
+  const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "embedding-cache-"));
+  const batches: string[][] = [];
+  const provider = {
+    name: "stub",
+    model: "stub-model",
+    async embed(texts: string[]) {
+      batches.push(texts);
+      return texts.map((text) => [text.length, 1]);
+    },
+  };
+  const options = { provider, batchSize: 2, cache: createFileEmbeddingCache(cacheDir) };
+
+  try {
+    const first = await embedTexts(["a", "bb", "a", "ccc"], options);
+    // Duplicates are sent once, in batches of two
+    expect(batches).toEqual([["a", "bb"], ["ccc"]]);
+    expect(first.map((e) => e.values)).toEqual([[1, 1], [2, 1], [1, 1], [3, 1]]);
+    expect(first[0]).toMatchObject({ provider: "stub", model: "stub-model", dimensions: 2 });
+
+    const second = await embedTexts(["ccc", "dddd"], options);
+    expect(batches[2]).toEqual(["dddd"]);
+    expect(second.map((e) => e.values)).toEqual([[3, 1], [4, 1]]);
+  } finally {
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  }
+});
+
+test("createOpenAIEmbeddingProvider - calls an OpenAI-compatible endpoint", async () => {
+  const { createOpenAIEmbeddingProvider } = await import("../src/embeddings.ts");
+  const previousFetch = global.fetch;
+  global.fetch = Bun.fetch as any;
+  const requests: { auth: string | null; body: any }[] = [];
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const body = await req.json() as any;
+      requests.push({ auth: req.headers.get("authorization"), body });
+      if (body.input.includes("fail")) return new Response("model overloaded", { status: 503 });
+      // Returned out of order on purpose
+      return Response.json({
+        data: body.input.map((_: string, index: number) => ({ index, embedding: [index, 0.5] })).reverse(),
+      });
+    },
+  });
+
+  try {
+    const provider = createOpenAIEmbeddingProvider({
+      baseUrl: `http://localhost:${server.port}/v1/`,
+      model: "nomic-embed-text",
+      apiKey: "sk-test",
+      dimensions: 2,
+    });
+
+    expect(await provider.embed(["one", "two"])).toEqual([[0, 0.5], [1, 0.5]]);
+    expect(requests[0]).toEqual({
+      auth: "Bearer sk-test",
+      body: { model: "nomic-embed-text", input: ["one", "two"], dimensions: 2 },
+    });
+    await expect(provider.embed(["fail"])).rejects.toThrow("Embedding request failed: 503 model overloaded");
+  } finally {
+    server.stop(true);
+    global.fetch = previousFetch;
+  }
+});
+
+test("scrapePage - stores embeddings with model and dimensions", async () => {
+  const { scrapePage, createHashEmbeddingProvider } = await import("../src/index.ts");
+  const previousFetch = global.fetch;
+  const originalEnv = process.env;
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "embeddings-test-"));
+  process.env = { ...originalEnv, AUTH_METHOD: "pat", CONFLUENCE_PAT: "token", CONFLUENCE_RATE_LIMIT: "0" };
+  global.fetch = (async (input: string | URL) => {
+    if (String(input).includes("/child/attachment")) {
+      return new Response(JSON.stringify({ results: [] }), { status: 200 });
+    }
+    return new Response(JSON.stringify({
+      id: "7",
+      title: "Embedded",
+      space: { key: "OPS" },
+      version: { number: 1, when: "2024-01-01T00:00:00.000Z", by: { displayName: "Stub" } },
+      body: { storage: { value: "<h1>Intro</h1><p>Vectors please.</p>" } },
+    }), { status: 200 });
+  }) as any;
+  const log = spyOn(console, "log").mockImplementation(() => {});
+
+  try {
+    const result = await scrapePage(null, "7", outputDir, {
+      embedding: { provider: createHashEmbeddingProvider(8) },
+    });
+    const pageDir = result?.outputDir as string;
+
+    const vectors = JSON.parse(await fs.readFile(path.join(pageDir, "vector_content.json"), "utf8"));
+    expect(vectors[0].embedding).toMatchObject({ provider: "hash", model: "hash-8", dimensions: 8 });
+    expect(vectors[0].embedding.values).toHaveLength(8);
+    expect(vectors[vectors.length - 1].embedding).toBeUndefined();
+
+    const metadata = JSON.parse(await fs.readFile(path.join(pageDir, "metadata.json"), "utf8"));
+    expect(metadata.vectorization.embedding).toEqual({ provider: "hash", model: "hash-8", dimensions: 8 });
+  } finally {
+    log.mockRestore();
+    global.fetch = previousFetch;
+    process.env = originalEnv;
+    await fs.rm(outputDir, { recursive: true, force: true });
+  }
+});
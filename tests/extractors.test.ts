@@ -0,0 +1,215 @@
+import { test, expect, spyOn } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { deflateRawSync, deflateSync } from "node:zlib";
+import type { AttachmentRecord } from "../src/attachments.ts";
+
+// Just enough of a ZIP writer to build OOXML fixtures: deflated entries and a central directory
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.from(content, "utf8");
+    const compressed = deflateRawSync(data);
+    const nameBytes = Buffer.from(name, "utf8");
+    const crc = Bun.hash.crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, compressed);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function pdf(content: string): Buffer {
+  const stream = deflateSync(Buffer.from(content, "latin1"));
+  return Buffer.concat([
+    Buffer.from("%PDF-1.4\n1 0 obj\n<< /Type /Catalog >>\nendobj\n", "latin1"),
+    Buffer.from(`4 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+    stream,
+    Buffer.from("\nendstream\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n", "latin1"),
+  ]);
+}
+
+async function extract(mediaType: string, filename: string, content: Buffer | string): Promise<string> {
+  const { findAttachmentExtractor } = await import("../src/extractors.ts");
+  const extractor = findAttachmentExtractor(mediaType, filename);
+  if (!extractor) throw new Error(`No extractor for ${filename}`);
+  return extractor.extract(Buffer.isBuffer(content) ? content : Buffer.from(content, "utf8"));
+}
+
+test("extractors - Office Open XML documents", async () => {
+  const docx = zip({
+    "word/document.xml":
+      '<w:document><w:body><w:p><w:r><w:t>Deployment</w:t></w:r><w:r><w:t xml:space="preserve"> guide</w:t></w:r></w:p>' +
+      "<w:p><w:r><w:t>Step&#160;1:</w:t><w:tab/><w:t>build &amp; ship</w:t></w:r></w:p></w:body></w:document>",
+  });
+  expect(await extract("application/octet-stream", "guide.docx", docx)).toBe("Deployment guide\n\nStep 1:\tbuild & ship");
+
+  const xlsx = zip({
+    "xl/workbook.xml": '<workbook><sheets><sheet name="Costs" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    "xl/_rels/workbook.xml.rels": '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+    "xl/sharedStrings.xml": "<sst><si><t>Service</t></si><si><t>Cost</t></si><si><r><t>api</t></r></si></sst>",
+    "xl/worksheets/sheet1.xml":
+      '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+      '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2"><v>42.5</v></c><c r="C2" t="inlineStr"><is><t>monthly</t></is></c></row></sheetData></worksheet>',
+  });
+  expect(await extract("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", "costs.xlsx", xlsx))
+    .toBe("Sheet: Costs\nService | Cost\napi | 42.5 | monthly");
+
+  const pptx = zip({
+    "ppt/slides/slide10.xml": "<p:sld><a:p><a:r><a:t>Last</a:t></a:r></a:p></p:sld>",
+    "ppt/slides/slide2.xml": "<p:sld><a:p><a:r><a:t>Roadmap</a:t></a:r></a:p><a:p><a:r><a:t>Q3: search</a:t></a:r></a:p></p:sld>",
+  });
+  expect(await extract("application/octet-stream", "deck.pptx", pptx)).toBe("Slide 1\nRoadmap\nQ3: search\n\nSlide 2\nLast");
+});
+
+test("extractors - oversized ZIP entries are skipped and never inflated past their declared size", async () => {
+  const { readZipEntries } = await import("../src/zip.ts");
+  const originalEnv = process.env;
+  const warn = spyOn(console, "warn").mockImplementation(() => {});
+  // Deflated runs of one character: a few KB in the archive, megabytes once inflated
+  const bomb = "<w:p><w:r><w:t>a</w:t></w:r></w:p>".repeat(64 * 1024);
+
+  try {
+    process.env = { ...originalEnv, CONFLUENCE_ZIP_MAX_ENTRY_SIZE: "1MB" };
+    const document = `<w:document><w:body>${bomb}</w:body></w:document>`;
+    const docx = zip({ "word/document.xml": document, "docProps/app.xml": "<Properties/>" });
+    expect(docx.length).toBeLessThan(64 * 1024);
+    await expect(extract("application/octet-stream", "bomb.docx", docx)).rejects.toThrow("word/document.xml is missing");
+    expect(warn.mock.calls[0]?.[0]).toContain(`Skipping ZIP entry word/document.xml: ${document.length} bytes uncompressed, over the 1048576 byte limit`);
+    expect([...readZipEntries(docx, 1024 * 1024).keys()]).toEqual(["docProps/app.xml"]);
+    expect(readZipEntries(docx, 4 * 1024 * 1024).get("word/document.xml")?.().length).toBe(document.length);
+
+    // An entry that understates its size stops inflating at the declared size
+    const lying = Buffer.from(docx);
+    lying.writeUInt32LE(1000, lying.readUInt32LE(lying.length - 6) + 24);
+    expect(() => readZipEntries(lying).get("word/document.xml")?.()).toThrow(
+      "Corrupt ZIP archive: word/document.xml inflates to more than its declared 1000 bytes",
+    );
+  } finally {
+    warn.mockRestore();
+    process.env = originalEnv;
+  }
+});
+
+test("extractors - PDF text layer", async () => {
+  const file = pdf(
+    "BT /F1 12 Tf 72 712 Td (Incident \\(P1\\) review) Tj 0 -14 Td [(Root) -250 (cau) 10 (se)] TJ T* <FEFF00E9> Tj ET",
+  );
+  expect(await extract("application/pdf", "review.pdf", file)).toBe("Incident (P1) review\nRoot cause\né");
+  await expect(extract("application/pdf", "fake.pdf", "not a pdf")).rejects.toThrow("Not a PDF file");
+});
+
+test("extractors - oversized PDF streams are skipped and long strings decoded", async () => {
+  const originalEnv = process.env;
+  const warn = spyOn(console, "warn").mockImplementation(() => {});
+
+  try {
+    process.env = { ...originalEnv, CONFLUENCE_ZIP_MAX_ENTRY_SIZE: "1536KB" };
+    // Two megabytes of text operators deflate to a few KB
+    const bomb = pdf("BT (x) Tj ET\n".repeat(160 * 1024));
+    expect(bomb.length).toBeLessThan(64 * 1024);
+    // Too many bytes to spread into String.fromCharCode
+    const long = "a".repeat(1_000_000);
+    const file = Buffer.concat([bomb, pdf(`BT (Kept) Tj T* (${long}) Tj ET`)]);
+
+    expect(await extract("application/pdf", "bomb.pdf", file)).toBe(`Kept\n${long}`);
+    expect(warn.mock.calls[0]?.[0]).toContain("over the 1572864 byte limit once inflated");
+  } finally {
+    warn.mockRestore();
+    process.env = originalEnv;
+  }
+});
+
+test("extractors - text-like formats", async () => {
+  expect(await extract("text/csv", "data.csv", "a,b\n1,2")).toBe("a,b\n1,2");
+  expect(await extract("application/json", "config.json", '{"retries":3}')).toBe('{\n  "retries": 3\n}');
+  expect(await extract("text/html", "page.html", "<h1>Title</h1><script>alert(1)</script><p>Body &amp; more</p>"))
+    .toBe("Title\nBody & more");
+  expect(await extract("application/xml", "pom.xml", "<?xml version=\"1.0\"?><project><name>core</name><![CDATA[a < b]]></project>"))
+    .toBe("core\na < b");
+});
+
+test("extractAttachmentVectors - attachment chunks linked to the page and attachment", async () => {
+  const { extractAttachmentVectors } = await import("../src/extractors.ts");
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "extractors-test-"));
+  const error = spyOn(console, "error").mockImplementation(() => {});
+  const log = spyOn(console, "log").mockImplementation(() => {});
+
+  try {
+    await fs.writeFile(path.join(dir, "notes.md"), "# Runbook\n\nRestart the worker.");
+    await fs.writeFile(path.join(dir, "broken.docx"), "not a zip");
+    const record = (id: string, title: string, mediaType: string, status: "downloaded" | "skipped" = "downloaded"): AttachmentRecord => ({
+      id, title, mediaType, fileSize: null, version: 1, status, file: status === "skipped" ? null : title, sha256: null,
+    });
+    const records = [
+      record("att1", "notes.md", "text/markdown"),
+      record("att2", "broken.docx", "application/octet-stream"),
+      record("att3", "photo.png", "image/png"),
+      record("att4", "big.pdf", "application/pdf", "skipped"),
+    ];
+
+    const vectors = await extractAttachmentVectors(records, dir, {
+      id: "7",
+      title: "Ops",
+      spaceKey: "OPS",
+      url: "https://example.atlassian.net/wiki/spaces/OPS/pages/7",
+      lastUpdated: "2024-01-01T00:00:00.000Z",
+      author: "Stub",
+      labels: ["runbook"],
+    });
+
+    expect(vectors).toHaveLength(1);
+    expect(vectors[0]).toMatchObject({
+      id: "7-attachment-att1-0",
+      pageId: "7",
+      type: "attachment",
+      content: "# Runbook\n\nRestart the worker.",
+      metadata: {
+        url: "https://example.atlassian.net/wiki/spaces/OPS/pages/7?preview=%2F7%2Fatt1%2Fnotes.md",
+        contentType: "attachment",
+        attachmentId: "att1",
+        attachmentTitle: "notes.md",
+        mediaType: "text/markdown",
+        labels: ["runbook"],
+      },
+    });
+    expect(records[0]?.text).toEqual({ extractor: "text", characters: 30, chunks: 1 });
+    expect(records[1]?.text).toMatchObject({ extractor: "docx", error: expect.stringContaining("Not a ZIP archive") });
+    expect(records[2]?.text).toBeUndefined();
+  } finally {
+    error.mockRestore();
+    log.mockRestore();
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
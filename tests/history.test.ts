@@ -0,0 +1,139 @@
+import { test, expect, spyOn } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+test("createUnifiedDiff - hunks with context in diff -u format", async () => {
+  const { createUnifiedDiff, countChanges } = await import("../src/diff.ts");
+  const before = "a\nb\nc\nd\ne\nf\ng\nh\ni\nj\n";
+  const after = "a\nB\nc\nd\ne\nf\ng\nh\ni\nj\nk\n";
+
+  expect(createUnifiedDiff(before, after, "v1", "v2")).toBe(
+    "--- v1\n+++ v2\n" +
+    "@@ -1,5 +1,5 @@\n a\n-b\n+B\n c\n d\n e\n" +
+    "@@ -8,3 +8,4 @@\n h\n i\n j\n+k\n",
+  );
+  expect(createUnifiedDiff("", "new\n", "v1", "v2")).toBe("--- v1\n+++ v2\n@@ -0,0 +1,1 @@\n+new\n");
+  expect(createUnifiedDiff("same\n", "same", "v1", "v2")).toBe("");
+  expect(countChanges(before, after)).toEqual({ added: 2, removed: 1 });
+});
+
+test("resolveHistoryOptions - opt-in, with count and date limits", async () => {
+  const { resolveHistoryOptions } = await import("../src/history.ts");
+  const originalEnv = process.env;
+
+  try {
+    process.env = { ...originalEnv, CONFLUENCE_HISTORY: undefined, CONFLUENCE_HISTORY_MAX_VERSIONS: undefined, CONFLUENCE_HISTORY_SINCE: undefined };
+    expect(resolveHistoryOptions()).toBeNull();
+    expect(resolveHistoryOptions({ enabled: true })).toEqual({ maxVersions: 10, since: null });
+
+    process.env = { ...originalEnv, CONFLUENCE_HISTORY: "true", CONFLUENCE_HISTORY_MAX_VERSIONS: "3", CONFLUENCE_HISTORY_SINCE: "2024-01-31" };
+    expect(resolveHistoryOptions()).toEqual({ maxVersions: 3, since: new Date("2024-01-31") });
+    expect(resolveHistoryOptions({ maxVersions: 5, since: "2024-06-01" })).toEqual({ maxVersions: 5, since: new Date("2024-06-01") });
+    expect(resolveHistoryOptions({ enabled: false })).toBeNull();
+    expect(() => resolveHistoryOptions({ maxVersions: 0 })).toThrow("Invalid history version count: 0");
+    expect(() => resolveHistoryOptions({ since: "last week" })).toThrow("Invalid history date: last week");
+  } finally {
+    process.env = originalEnv;
+  }
+});
+
+test("scrapePage - history keeps versions in the window with diffs between them", async () => {
+  const { scrapePage } = await import("../src/index.ts");
+  const previousFetch = global.fetch;
+  const originalEnv = process.env;
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "history-test-"));
+  const versions = [
+    { number: 4, when: "2024-04-01T00:00:00.000Z", by: { displayName: "Ada", accountId: "acc-1" }, message: "Add rollback", minorEdit: false },
+    { number: 3, when: "2024-03-01T00:00:00.000Z", by: { displayName: "Grace" }, message: "", minorEdit: true },
+    { number: 2, when: "2024-02-01T00:00:00.000Z", by: { displayName: "Linus" }, message: "Reword", minorEdit: false },
+    { number: 1, when: "2024-01-01T00:00:00.000Z", by: { displayName: "Ada" }, message: "", minorEdit: false },
+  ];
+  const bodies: Record<number, string> = {
+    1: "<p>Restart the service.</p>",
+    2: "<p>Restart the worker.</p>",
+    3: '<p style="text-align: left;">Restart the worker.</p>',
+    4: "<p>Restart the worker.</p><p>Roll back if it fails.</p>",
+  };
+  const historicalFetches: string[] = [];
+  process.env = {
+    ...originalEnv,
+    AUTH_METHOD: "pat",
+    CONFLUENCE_PAT: "token",
+    CONFLUENCE_RATE_LIMIT: "0",
+    CONFLUENCE_HISTORY: undefined,
+    CONFLUENCE_HISTORY_MAX_VERSIONS: undefined,
+    CONFLUENCE_HISTORY_SINCE: undefined,
+  };
+  global.fetch = (async (input: string | URL) => {
+    const url = new URL(String(input));
+    if (url.pathname.endsWith("/child/attachment")) {
+      return new Response(JSON.stringify({ results: [] }), { status: 200 });
+    }
+    if (url.pathname.endsWith("/version")) {
+      return new Response(JSON.stringify({ results: versions }), { status: 200 });
+    }
+    if (url.searchParams.get("status") === "historical") {
+      const number = Number(url.searchParams.get("version"));
+      historicalFetches.push(`v${number}`);
+      return new Response(JSON.stringify({ id: "9", body: { storage: { value: bodies[number] } } }), { status: 200 });
+    }
+    return new Response(JSON.stringify({
+      id: "9",
+      title: "Runbook",
+      space: { key: "OPS" },
+      version: { number: 4, when: "2024-04-01T00:00:00.000Z", by: { displayName: "Ada" } },
+      body: { storage: { value: bodies[4] } },
+    }), { status: 200 });
+  }) as any;
+  const log = spyOn(console, "log").mockImplementation(() => {});
+
+  try {
+    const pageDir = path.join(outputDir, "OPS", "Runbook");
+    await scrapePage(null, "9", outputDir, { formats: [], embedding: null });
+    await expect(fs.access(path.join(pageDir, "history"))).rejects.toThrow();
+    expect(JSON.parse(await fs.readFile(path.join(pageDir, "metadata.json"), "utf8")).history).toBeNull();
+
+    await scrapePage(null, "9", outputDir, { formats: [], embedding: null, history: { enabled: true, maxVersions: 3 } });
+    const historyDir = path.join(pageDir, "history");
+    expect(historicalFetches).toEqual(["v3", "v2"]);
+    expect((await fs.readdir(historyDir)).sort()).toEqual(["v2.html", "v3.html", "v4.diff", "v4.html", "versions.json"]);
+    expect(await fs.readFile(path.join(historyDir, "v2.html"), "utf8")).toBe(bodies[2] as string);
+
+    const saved = JSON.parse(await fs.readFile(path.join(historyDir, "versions.json"), "utf8"));
+    expect(saved.versions.map((version: any) => [version.number, version.diff, version.changes])).toEqual([
+      [2, null, null],
+      // Only an attribute changed: the storage body differs but the text does not
+      [3, null, { added: 0, removed: 0 }],
+      [4, "v4.diff", { added: 2, removed: 0 }],
+    ]);
+    expect(saved.versions[2]).toMatchObject({
+      author: { displayName: "Ada", accountId: "acc-1" },
+      createdAt: "2024-04-01T00:00:00.000Z",
+      message: "Add rollback",
+      minorEdit: false,
+      file: "v4.html",
+    });
+    expect(await fs.readFile(path.join(historyDir, "v4.diff"), "utf8")).toBe(
+      "--- v3 (2024-03-01T00:00:00.000Z, Grace)\n" +
+      "+++ v4 (2024-04-01T00:00:00.000Z, Ada)\n" +
+      "@@ -1,1 +1,3 @@\n" +
+      " Restart the worker.\n" +
+      "+\n" +
+      "+Roll back if it fails.\n",
+    );
+    const metadata = JSON.parse(await fs.readFile(path.join(pageDir, "metadata.json"), "utf8"));
+    expect(metadata.history).toEqual({ versions: 3, oldest: 2, newest: 4 });
+
+    // Stored versions are not fetched again, and the date window drops version 2
+    historicalFetches.length = 0;
+    await scrapePage(null, "9", outputDir, { formats: [], embedding: null, history: { enabled: true, since: "2024-02-15" } });
+    expect(historicalFetches).toEqual([]);
+    expect((await fs.readdir(historyDir)).sort()).toEqual(["v3.html", "v4.diff", "v4.html", "versions.json"]);
+  } finally {
+    log.mockRestore();
+    global.fetch = previousFetch;
+    process.env = originalEnv;
+    await fs.rm(outputDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,199 @@
+import { test, expect, spyOn } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+test("parseJob - accepts targets and normalizes page ids", async () => {
+  const { parseJob } = await import("../src/job.ts");
+
+  const job = parseJob({
+    formats: ["markdown", "vectors"],
+    chunking: { strategy: "paragraph" },
+    targets: [
+      { space: "DOCS" },
+      { tree: 123456, maxDepth: 2, formats: ["markdown"] },
+      { cql: "label = runbook", limit: 20, chunking: { maxTokens: 256 } },
+    ],
+  });
+
+  expect(job.targets[1]?.tree).toBe("123456");
+  expect(job.targets[2]).toEqual({ cql: "label = runbook", limit: 20, chunking: { maxTokens: 256 } });
+});
+
+test("parseJob - reports every problem with its path", async () => {
+  const { parseJob, JobFileError } = await import("../src/job.ts");
+
+  let error: unknown;
+  try {
+    parseJob({
+      concurrency: 0,
+      formats: ["markdown", "pdf"],
+      targets: [
+        { space: "DOCS", maxDepth: 1 },
+        { tree: "1", cql: "type = page" },
+        { spce: "OPS" },
+        { cql: "", chunking: { maxTokens: "big" } },
+      ],
+    }, "jobs/nightly.yaml");
+  } catch (caught) {
+    error = caught;
+  }
+
+  expect(error).toBeInstanceOf(JobFileError);
+  expect((error as InstanceType<typeof JobFileError>).issues).toEqual([
+    "concurrency: expected an integer of at least 1, got 0",
+    "formats[1]: expected one of html, json, text, markdown, tables, attachments, vectors, comments, links, got \"pdf\"",
+    "targets[2].spce: unknown property (expected one of output, formats, labels, chunking, contentTypes, commentChunks, attachments, attachmentText, history, space, tree, cql, maxDepth, limit)",
+    "targets[3].cql: expected a non-empty string, got \"\"",
+    "targets[3].chunking.maxTokens: expected an integer of at least 1, got \"big\"",
+    "targets[0].maxDepth: only applies to tree targets",
+    "targets[1]: expected exactly one of space, tree or cql, got tree and cql",
+    "targets[2]: expected exactly one of space, tree or cql, got none",
+  ]);
+  expect((error as Error).message).toStartWith("Invalid job file jobs/nightly.yaml:\n  - concurrency: expected");
+
+  expect(() => parseJob({ targets: [] })).toThrow("targets: expected at least 1 item(s)");
+  expect(() => parseJob([])).toThrow("(root): expected an object, got an array");
+});
+
+test("loadJobFile - reads YAML and JSON files", async () => {
+  const { loadJobFile } = await import("../src/job.ts");
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "job-file-"));
+
+  try {
+    const yamlPath = path.join(dir, "job.yml");
+    await fs.writeFile(yamlPath, [
+      "output: ./kb",
+      "sinks: [jsonl]",
+      "targets:",
+      "  - space: DOCS",
+      "  - tree: 42",
+      "    maxDepth: 0",
+      "    history:",
+      "      since: 2024-01-31",
+      "",
+    ].join("\n"));
+    expect(await loadJobFile(yamlPath)).toEqual({
+      output: "./kb",
+      sinks: ["jsonl"],
+      // Unquoted dates stay strings
+      targets: [{ space: "DOCS" }, { tree: "42", maxDepth: 0, history: { since: "2024-01-31" } }],
+    });
+
+    await fs.writeFile(yamlPath, "targets:\n  - space: DOCS\n   tree: 42\n");
+    await expect(loadJobFile(yamlPath)).rejects.toThrow(`Invalid job file ${yamlPath}:\n  - cannot be parsed`);
+
+    const jsonPath = path.join(dir, "job.json");
+    await fs.writeFile(jsonPath, JSON.stringify({ targets: [{ cql: "space = OPS" }] }));
+    expect((await loadJobFile(jsonPath)).targets).toEqual([{ cql: "space = OPS" }]);
+
+    await fs.writeFile(jsonPath, "{ \"targets\": [");
+    await expect(loadJobFile(jsonPath)).rejects.toThrow(`Invalid job file ${jsonPath}:\n  - cannot be parsed`);
+    await expect(loadJobFile(path.join(dir, "missing.json"))).rejects.toThrow("cannot be read");
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("applyJobEnvironment - environment variables win over the job file", async () => {
+  const { applyJobEnvironment, parseJob } = await import("../src/job.ts");
+  const originalEnv = process.env;
+  process.env = {
+    ...originalEnv,
+    CONFLUENCE_HOST: "https://env.example.com",
+    CONFLUENCE_SINKS: undefined,
+    CONFLUENCE_CHUNK_MAX_TOKENS: undefined,
+  };
+
+  try {
+    applyJobEnvironment(parseJob({
+      host: "https://file.example.com",
+      sinks: ["jsonl", "qdrant"],
+      chunking: { maxTokens: 256 },
+      targets: [{ space: "DOCS" }],
+    }));
+
+    expect(process.env.CONFLUENCE_HOST).toBe("https://env.example.com");
+    expect(process.env.CONFLUENCE_SINKS).toBe("jsonl,qdrant");
+    expect(process.env.CONFLUENCE_CHUNK_MAX_TOKENS).toBe("256");
+  } finally {
+    process.env = originalEnv;
+  }
+});
+
+test("runJob - runs each target with its own options", async () => {
+  const { runJob, parseJob } = await import("../src/job.ts");
+  const previousFetch = global.fetch;
+  const originalEnv = process.env;
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "job-run-"));
+  global.fetch = Bun.fetch as any;
+  const log = spyOn(console, "log").mockImplementation(() => {});
+  const error = spyOn(console, "error").mockImplementation(() => {});
+
+  const server = Bun.serve({
+    port: 0,
+    fetch(req) {
+      const url = new URL(req.url);
+      if (url.pathname === "/wiki/rest/api/content" && url.searchParams.get("spaceKey") === "DOCS") {
+        return Response.json({ results: [{ id: "1", title: "Home" }], size: 1 });
+      }
+      if (url.pathname.endsWith("/search")) {
+        return Response.json({
+          results: [
+            { content: { id: "2", title: "Runbook", type: "page", space: { key: "OPS" } } },
+            { content: { id: "9", title: "diagram.png", type: "attachment" } },
+          ],
+          size: 2,
+        });
+      }
+      if (url.pathname.endsWith("/child/attachment")) return Response.json({ results: [] });
+      const page = { "1": ["Home", "DOCS"], "2": ["Runbook", "OPS"] }[url.pathname.split("/").pop() as string];
+      if (!page) return new Response("not found", { status: 404 });
+      return Response.json({
+        id: url.pathname.split("/").pop(),
+        title: page[0],
+        space: { key: page[1] },
+        body: { storage: { value: "<h1>Steps</h1><p>Do the thing.</p>" } },
+        version: { number: 1, when: "2024-01-01T00:00:00.000Z", by: { displayName: "Stub" } },
+      });
+    },
+  });
+  process.env = {
+    ...originalEnv,
+    AUTH_METHOD: "pat",
+    CONFLUENCE_PAT: "token",
+    CONFLUENCE_RATE_LIMIT: "0",
+    CONFLUENCE_MAX_RETRIES: "0",
+    CONFLUENCE_HOST: undefined,
+    CONFLUENCE_SINKS: undefined,
+  };
+
+  try {
+    const results = await runJob(parseJob({
+      host: `http://localhost:${server.port}`,
+      output: outputDir,
+      formats: ["markdown"],
+      targets: [
+        { space: "DOCS" },
+        { cql: "label = runbook", formats: ["text"] },
+        { space: "GONE" },
+      ],
+    }));
+
+    expect(results.map(({ target, scraped, failed }) => ({ target, scraped, failed: failed.length }))).toEqual([
+      { target: "space DOCS", scraped: 1, failed: 0 },
+      { target: "cql label = runbook", scraped: 1, failed: 0 },
+      { target: "space GONE", scraped: 0, failed: 0 },
+    ]);
+    expect(results[2]?.error).toBeDefined();
+    expect((await fs.readdir(path.join(outputDir, "DOCS", "Home"))).sort()).toEqual(["content.md", "metadata.json"]);
+    expect((await fs.readdir(path.join(outputDir, "OPS", "Runbook"))).sort()).toEqual(["content.txt", "metadata.json"]);
+  } finally {
+    log.mockRestore();
+    error.mockRestore();
+    server.stop(true);
+    global.fetch = previousFetch;
+    process.env = originalEnv;
+    await fs.rm(outputDir, { recursive: true, force: true });
+  }
+});
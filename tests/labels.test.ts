@@ -0,0 +1,105 @@
+import { test, expect, spyOn } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+function withLabels(...names: string[]) {
+  return { metadata: { labels: { results: names.map((name) => ({ prefix: "global", name })) } } };
+}
+
+test("matchesLabelFilter - exclude wins over include, case-insensitively", async () => {
+  const { matchesLabelFilter } = await import("../src/labels.ts");
+
+  expect(matchesLabelFilter(["public"], null)).toBe(true);
+  expect(matchesLabelFilter(["public", "ops"], { include: ["Public"] })).toBe(true);
+  expect(matchesLabelFilter(["ops"], { include: ["public"] })).toBe(false);
+  expect(matchesLabelFilter([], { include: ["public"] })).toBe(false);
+  expect(matchesLabelFilter([], { exclude: ["draft"] })).toBe(true);
+  expect(matchesLabelFilter(["public", "draft"], { include: ["public"], exclude: ["draft"] })).toBe(false);
+});
+
+test("resolveLabelFilter - options per field, environment otherwise", async () => {
+  const { resolveLabelFilter } = await import("../src/labels.ts");
+  const originalEnv = process.env;
+  process.env = {
+    ...originalEnv,
+    CONFLUENCE_INCLUDE_LABELS: "public, kb",
+    CONFLUENCE_EXCLUDE_LABELS: "draft",
+  };
+
+  try {
+    expect(resolveLabelFilter()).toEqual({ include: ["public", "kb"], exclude: ["draft"] });
+    expect(resolveLabelFilter({ exclude: ["archived"] })).toEqual({ include: ["public", "kb"], exclude: ["archived"] });
+
+    process.env = { ...originalEnv, CONFLUENCE_INCLUDE_LABELS: undefined, CONFLUENCE_EXCLUDE_LABELS: undefined };
+    expect(resolveLabelFilter()).toBeNull();
+    expect(resolveLabelFilter({ include: [], exclude: [] })).toBeNull();
+  } finally {
+    process.env = originalEnv;
+  }
+});
+
+test("extractVectorContent - every chunk carries the page labels", async () => {
+  const { extractVectorContent } = await import("../src/index.ts");
+
+  const vectors = extractVectorContent("<h1>Intro</h1><p>Hello.</p><h2>Next</h2><p>More.</p>", {
+    id: "7",
+    title: "Labelled",
+    space: { key: "OPS" },
+    version: { when: "2024-01-01T00:00:00.000Z", by: { displayName: "Stub" } },
+    ...withLabels("runbook", "public"),
+  });
+
+  expect(vectors.length).toBeGreaterThan(2);
+  for (const vector of vectors) {
+    expect(vector.metadata.labels).toEqual(["runbook", "public"]);
+  }
+});
+
+test("scrapeSpace - skips pages that fail the label filter", async () => {
+  const { scrapeSpace } = await import("../src/index.ts");
+  const previousFetch = global.fetch;
+  const originalEnv = process.env;
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "labels-test-"));
+  const listing = [
+    { id: "1", title: "Runbook", ...withLabels("public") },
+    { id: "2", title: "Scratch", ...withLabels("public", "draft") },
+    { id: "3", title: "Unlabelled", ...withLabels() },
+  ];
+  process.env = { ...originalEnv, AUTH_METHOD: "pat", CONFLUENCE_PAT: "token", CONFLUENCE_RATE_LIMIT: "0" };
+  global.fetch = (async (input: string | URL) => {
+    const url = new URL(String(input));
+    if (url.pathname.endsWith("/child/attachment")) {
+      return new Response(JSON.stringify({ results: [] }), { status: 200 });
+    }
+    if (url.pathname.endsWith("/content")) {
+      expect(url.searchParams.get("expand")).toBe("version,metadata.labels");
+      return new Response(JSON.stringify({ results: listing }), { status: 200 });
+    }
+    const page = listing.find((p) => url.pathname.endsWith(`/content/${p.id}`));
+    return new Response(JSON.stringify({
+      ...page,
+      space: { key: "OPS" },
+      version: { number: 1, when: "2024-01-01T00:00:00.000Z", by: { displayName: "Stub" } },
+      body: { storage: { value: "<p>Body</p>" } },
+    }), { status: 200 });
+  }) as any;
+  const log = spyOn(console, "log").mockImplementation(() => {});
+
+  try {
+    const result = await scrapeSpace(null, "OPS", outputDir, 2, {
+      formats: ["json"],
+      labels: { include: ["public"], exclude: ["draft"] },
+    });
+
+    expect(result.scraped.map((page) => page.pageId)).toEqual(["1"]);
+    expect(result.failed).toEqual([]);
+    const metadata = JSON.parse(await fs.readFile(path.join(outputDir, "OPS", "Runbook", "metadata.json"), "utf8"));
+    expect(metadata.labels).toEqual(["public"]);
+  } finally {
+    log.mockRestore();
+    global.fetch = previousFetch;
+    process.env = originalEnv;
+    await fs.rm(outputDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,177 @@
+import { test, expect, spyOn } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+test("extractPageLinks - Confluence links, Confluence URLs and external links", async () => {
+  const { extractPageLinks, resolvePageLinks } = await import("../src/links.ts");
+  const { parseStorageFormat } = await import("../src/storage.ts");
+
+  const root = parseStorageFormat(
+    '<p><ac:link ac:anchor="Setup"><ri:page ri:content-title="Install Guide" /><ac:plain-text-link-body><![CDATA[install]]></ac:plain-text-link-body></ac:link> ' +
+    '<ac:link><ri:page ri:content-title="Roadmap" ri:space-key="PROD" /></ac:link> ' +
+    '<ac:link><ri:blog-post ri:content-title="Launch" ri:posting-day="2024/03/01" /><ac:link-body><em>launch post</em></ac:link-body></ac:link> ' +
+    '<ac:link ac:anchor="local"><ac:plain-text-link-body><![CDATA[here]]></ac:plain-text-link-body></ac:link> ' +
+    '<ac:link><ri:attachment ri:filename="spec.pdf" /></ac:link> ' +
+    '<a href="https://example.atlassian.net/wiki/spaces/DOCS/pages/77/Old+Title#Usage">old</a> ' +
+    '<a href="/wiki/display/DOCS/Missing+Page">missing</a> ' +
+    '<a href="https://github.com/org/repo">repo</a> <a href="#top">top</a> <a href="mailto:team@example.com">mail</a></p>',
+  );
+
+  const links = extractPageLinks(root, { spaceKey: "DOCS", host: "https://example.atlassian.net" });
+  expect(links.map((link) => [link.type, link.text, link.spaceKey, link.title, link.anchor, link.targetId])).toEqual([
+    ["page", "install", "DOCS", "Install Guide", "Setup", null],
+    ["page", "Roadmap", "PROD", "Roadmap", null, null],
+    ["blogpost", "launch post", "DOCS", "Launch", null, null],
+    ["page", "old", "DOCS", null, "Usage", "77"],
+    ["page", "missing", "DOCS", "Missing Page", null, null],
+    ["external", "repo", null, null, null, null],
+  ]);
+
+  const lookups: string[] = [];
+  const error = spyOn(console, "error").mockImplementation(() => {});
+  const resolved = await resolvePageLinks(links, {
+    add() {},
+    async find(spaceKey, title, type) {
+      lookups.push(`${type}:${spaceKey}:${title}`);
+      if (title === "Roadmap") throw new Error("Request timed out");
+      return { "Install Guide": "10", Launch: "30" }[title] ?? null;
+    },
+  });
+  error.mockRestore();
+
+  expect(lookups).toEqual(["page:DOCS:Install Guide", "page:PROD:Roadmap", "blogpost:DOCS:Launch", "page:DOCS:Missing Page"]);
+  expect(resolved.map((link) => [link.targetId, link.status])).toEqual([
+    ["10", "resolved"],
+    [null, "unknown"],
+    ["30", "resolved"],
+    ["77", "resolved"],
+    [null, "broken"],
+    [null, null],
+  ]);
+});
+
+test("createPageTitleIndex - known pages skip the lookup and results are cached", async () => {
+  const { createPageTitleIndex } = await import("../src/links.ts");
+  const previousFetch = global.fetch;
+  const originalEnv = process.env;
+  const requests: URLSearchParams[] = [];
+  process.env = { ...originalEnv, AUTH_METHOD: "pat", CONFLUENCE_PAT: "token", CONFLUENCE_RATE_LIMIT: "0" };
+  global.fetch = (async (input: string | URL) => {
+    const url = new URL(String(input));
+    requests.push(url.searchParams);
+    const results = url.searchParams.get("title") === "Design" ? [{ id: "5" }] : [];
+    return new Response(JSON.stringify({ results }), { status: 200 });
+  }) as any;
+
+  try {
+    const index = createPageTitleIndex();
+    index.add({ id: "1", title: "Home", spaceKey: "ENG" });
+
+    expect(await index.find("ENG", "Home", "page")).toBe("1");
+    expect(requests).toHaveLength(0);
+    expect(await Promise.all([index.find("ENG", "Design", "page"), index.find("ENG", "Design", "page")])).toEqual(["5", "5"]);
+    expect(await index.find("ENG", "Nowhere", "page")).toBeNull();
+    expect(await index.find("ENG", "Nowhere", "page")).toBeNull();
+    expect(requests.map((query) => [query.get("spaceKey"), query.get("title"), query.get("type")])).toEqual([
+      ["ENG", "Design", "page"],
+      ["ENG", "Nowhere", "page"],
+    ]);
+  } finally {
+    global.fetch = previousFetch;
+    process.env = originalEnv;
+  }
+});
+
+test("scrapeSpace - writes links.json and the space link graph with broken links and orphans", async () => {
+  const { scrapeSpace } = await import("../src/index.ts");
+  const previousFetch = global.fetch;
+  const originalEnv = process.env;
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "links-test-"));
+  const pages: Record<string, { title: string; body: string }> = {
+    "1": {
+      title: "Home",
+      body: '<p><ac:link><ri:page ri:content-title="Guide" /></ac:link> <ac:link><ri:page ri:content-title="Guide" /></ac:link> ' +
+        '<ac:link><ri:page ri:content-title="Deleted Page" /></ac:link></p>',
+    },
+    "2": { title: "Guide", body: '<p><a href="https://example.atlassian.net/wiki/spaces/ENG/pages/1">home</a> <ac:link><ri:page ri:content-title="Guide" /></ac:link></p>' },
+    "3": { title: "Forgotten", body: '<p><ac:link><ri:page ri:content-title="Elsewhere" ri:space-key="OPS" /></ac:link></p>' },
+  };
+  const titleLookups: string[] = [];
+  process.env = {
+    ...originalEnv,
+    AUTH_METHOD: "pat",
+    CONFLUENCE_PAT: "token",
+    CONFLUENCE_HOST: "https://example.atlassian.net",
+    CONFLUENCE_RATE_LIMIT: "0",
+    CONFLUENCE_CONTENT_TYPES: undefined,
+  };
+  global.fetch = (async (input: string | URL) => {
+    const url = new URL(String(input));
+    if (url.pathname.endsWith("/child/attachment")) {
+      return new Response(JSON.stringify({ results: [] }), { status: 200 });
+    }
+    if (url.pathname.endsWith("/content") && url.searchParams.has("title")) {
+      titleLookups.push(`${url.searchParams.get("spaceKey")}:${url.searchParams.get("title")}`);
+      const known: Record<string, string> = { ...Object.fromEntries(Object.entries(pages).map(([id, page]) => [page.title, id])), Elsewhere: "90" };
+      const id = known[url.searchParams.get("title") as string];
+      const results = id ? [{ id }] : [];
+      return new Response(JSON.stringify({ results }), { status: 200 });
+    }
+    if (url.pathname.endsWith("/content")) {
+      return new Response(JSON.stringify({ results: Object.entries(pages).map(([id, page]) => ({ id, title: page.title })) }), { status: 200 });
+    }
+    const id = url.pathname.split("/").pop() as string;
+    return new Response(JSON.stringify({
+      id,
+      title: pages[id]?.title,
+      space: { key: "ENG" },
+      version: { number: 1, when: "2024-01-01T00:00:00.000Z", by: { displayName: "Stub" } },
+      body: { storage: { value: pages[id]?.body } },
+    }), { status: 200 });
+  }) as any;
+  const log = spyOn(console, "log").mockImplementation(() => {});
+
+  try {
+    await scrapeSpace(null, "ENG", outputDir, 1, { formats: ["links"], embedding: null });
+    const spaceDir = path.join(outputDir, "ENG");
+
+    // Pages already listed or scraped need no lookup; Guide is linked before the listing reaches it
+    expect(titleLookups.sort()).toEqual(["ENG:Deleted Page", "ENG:Guide", "OPS:Elsewhere"]);
+    const homeLinks = JSON.parse(await fs.readFile(path.join(spaceDir, "Home", "links.json"), "utf8"));
+    expect(homeLinks.links.map((link: any) => [link.title, link.targetId, link.status])).toEqual([
+      ["Guide", "2", "resolved"],
+      ["Guide", "2", "resolved"],
+      ["Deleted Page", null, "broken"],
+    ]);
+
+    const graph = JSON.parse(await fs.readFile(path.join(spaceDir, "link-graph.json"), "utf8"));
+    expect(graph.nodes).toEqual([
+      { id: "3", title: "Forgotten", spaceKey: "ENG", contentType: "page", path: "Forgotten" },
+      { id: "2", title: "Guide", spaceKey: "ENG", contentType: "page", path: "Guide" },
+      { id: "1", title: "Home", spaceKey: "ENG", contentType: "page", path: "Home" },
+      { id: "90", title: "Elsewhere", spaceKey: "OPS", contentType: "page", path: null },
+    ]);
+    expect(graph.edges).toEqual([
+      { source: "3", target: "90", count: 1 },
+      { source: "2", target: "1", count: 1 },
+      { source: "2", target: "2", count: 1 },
+      { source: "1", target: "2", count: 2 },
+    ]);
+
+    const report = JSON.parse(await fs.readFile(path.join(spaceDir, "link-report.json"), "utf8"));
+    expect(report).toMatchObject({
+      spaceKey: "ENG",
+      pages: 3,
+      links: 6,
+      unknownLinks: 0,
+      brokenLinks: [{ sourceId: "1", sourceTitle: "Home", type: "page", spaceKey: "ENG", title: "Deleted Page", text: "Deleted Page" }],
+      orphanPages: [{ id: "3", title: "Forgotten", path: "Forgotten" }],
+    });
+  } finally {
+    log.mockRestore();
+    global.fetch = previousFetch;
+    process.env = originalEnv;
+    await fs.rm(outputDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,58 @@
+import { test, expect } from "bun:test";
+
+const storage =
+  "<h1>Deploy</h1>" +
+  '<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">bash</ac:parameter>' +
+  "<ac:plain-text-body><![CDATA[make deploy && echo <done>]]></ac:plain-text-body></ac:structured-macro>" +
+  '<ac:structured-macro ac:name="warning"><ac:parameter ac:name="title">Careful</ac:parameter>' +
+  "<ac:rich-text-body><p>Check the status <ac:structured-macro ac:name=\"status\">" +
+  '<ac:parameter ac:name="title">Green</ac:parameter><ac:parameter ac:name="colour">Green</ac:parameter>' +
+  "</ac:structured-macro> first.</p></ac:rich-text-body></ac:structured-macro>" +
+  '<ac:structured-macro ac:name="toc"><ac:parameter ac:name="maxLevel">2</ac:parameter></ac:structured-macro>' +
+  '<ac:structured-macro ac:name="jira"><ac:parameter ac:name="server">System JIRA</ac:parameter>' +
+  '<ac:parameter ac:name="key">OPS-42</ac:parameter></ac:structured-macro>' +
+  '<ac:structured-macro ac:name="expand"><ac:parameter ac:name="title">Logs</ac:parameter>' +
+  "<ac:rich-text-body><p>Hidden details</p></ac:rich-text-body></ac:structured-macro>" +
+  '<ac:structured-macro ac:name="gliffy"><ac:parameter ac:name="name">architecture</ac:parameter>' +
+  '<ac:parameter ac:name="pagePin">3</ac:parameter></ac:structured-macro>';
+
+test("parseMacros - emits typed nodes in document order", async () => {
+  const { parseMacros } = await import("../src/macros.ts");
+  const { parseStorageFormat } = await import("../src/storage.ts");
+
+  expect(parseMacros(parseStorageFormat(storage))).toEqual([
+    { type: "code", language: "bash", body: "make deploy && echo <done>" },
+    { type: "panel", kind: "warning", title: "Careful", body: "Check the status [GREEN] first." },
+    { type: "status", title: "Green", colour: "Green" },
+    { type: "toc", parameters: { maxLevel: "2" } },
+    { type: "jira", key: "OPS-42", server: "System JIRA", parameters: { server: "System JIRA", key: "OPS-42" } },
+    { type: "expand", title: "Logs", body: "Hidden details" },
+    { type: "unknown", name: "gliffy", parameters: { name: "architecture", pagePin: "3" } },
+  ]);
+});
+
+test("parseContentHtml - macros are exposed and labeled in textContent", async () => {
+  const { parseContentHtml } = await import("../src/index.ts");
+
+  const result = parseContentHtml(storage);
+
+  expect(result.macros.map((macro) => macro.type)).toEqual([
+    "code", "panel", "status", "toc", "jira", "expand", "unknown",
+  ]);
+  expect(result.textContent).toContain("make deploy && echo <done>");
+  expect(result.textContent).toContain("Warning (Careful): Check the status [GREEN] first.");
+  expect(result.textContent).toContain("[OPS-42]");
+  expect(result.textContent).toContain("Logs: Hidden details");
+  // Macro parameters are not page text
+  expect(result.textContent).not.toContain("bash");
+  expect(result.textContent).not.toContain("architecture");
+});
+
+test("parseContentHtml - plain HTML has no macros", async () => {
+  const { parseContentHtml } = await import("../src/index.ts");
+
+  const result = parseContentHtml("<p>Just &amp; text</p>");
+
+  expect(result.macros).toEqual([]);
+  expect(result.textContent).toBe("Just & text");
+});
@@ -0,0 +1,127 @@
+import { test, expect } from "bun:test";
+
+test("storageToMarkdown - headings, paragraphs and inline formatting", async () => {
+  const { storageToMarkdown } = await import("../src/markdown.ts");
+
+  const markdown = storageToMarkdown(`
+    <h1>Runbook</h1>
+    <p>Some <strong>bold </strong>and <em>italic</em> text with <a href="https://example.com">a link</a>,
+    <code>inline_code</code> and a<br/>line break.</p>
+    <h3>Details</h3>
+  `);
+
+  expect(markdown).toBe(
+    "# Runbook\n\n" +
+    "Some **bold** and _italic_ text with [a link](https://example.com), `inline_code` and a  \nline break.\n\n" +
+    "### Details\n",
+  );
+});
+
+test("storageToMarkdown - nested ordered and unordered lists", async () => {
+  const { storageToMarkdown } = await import("../src/markdown.ts");
+
+  const markdown = storageToMarkdown(`
+    <ul>
+      <li>One
+        <ol><li>First</li><li>Second</li></ol>
+      </li>
+      <li><p>Two</p></li>
+    </ul>
+  `);
+
+  expect(markdown).toBe("- One\n  1. First\n  2. Second\n- Two\n");
+});
+
+test("storageToMarkdown - tables become pipe tables", async () => {
+  const { storageToMarkdown } = await import("../src/markdown.ts");
+
+  const markdown = storageToMarkdown(`
+    <table><tbody>
+      <tr><th>Name</th><th>Value</th></tr>
+      <tr><td>a|b</td><td><p>line 1</p><p>line 2</p></td></tr>
+      <tr><td>short row</td></tr>
+    </tbody></table>
+  `);
+
+  expect(markdown).toBe(
+    "| Name | Value |\n" +
+    "| --- | --- |\n" +
+    "| a\\|b | line 1<br>line 2 |\n" +
+    "| short row |  |\n",
+  );
+});
+
+test("storageToMarkdown - code macro keeps language and CDATA body verbatim", async () => {
+  const { storageToMarkdown } = await import("../src/markdown.ts");
+
+  const markdown = storageToMarkdown(
+    '<ac:structured-macro ac:name="code">' +
+    '<ac:parameter ac:name="language">html</ac:parameter>' +
+    '<ac:plain-text-body><![CDATA[<div class="x">a && b</div>\n```nested```]]></ac:plain-text-body>' +
+    "</ac:structured-macro><p>after</p>",
+  );
+
+  expect(markdown).toBe('````html\n<div class="x">a && b</div>\n```nested```\n````\n\nafter\n');
+});
+
+test("storageToMarkdown - links and images", async () => {
+  const { storageToMarkdown } = await import("../src/markdown.ts");
+
+  const markdown = storageToMarkdown(
+    '<p><ac:image ac:alt="Diagram"><ri:attachment ri:filename="arch diagram.png" /></ac:image> ' +
+    '<ac:image><ri:url ri:value="https://example.com/logo.png" /></ac:image> ' +
+    '<ac:link><ri:page ri:content-title="Other Page" ri:space-key="OPS" /><ac:plain-text-link-body><![CDATA[see other]]></ac:plain-text-link-body></ac:link> ' +
+    '<ac:link ac:anchor="Setup"><ri:page ri:content-title="Install" /></ac:link> ' +
+    '<img src="https://example.com/a.png" alt="plain" /></p>',
+    { baseUrl: "https://test.atlassian.net", spaceKey: "DOCS" },
+  );
+
+  expect(markdown).toBe(
+    "![Diagram](attachments/arch%20diagram.png) " +
+    "![](https://example.com/logo.png) " +
+    "[see other](https://test.atlassian.net/wiki/display/OPS/Other%20Page) " +
+    "[Install](https://test.atlassian.net/wiki/display/DOCS/Install#Setup) " +
+    "![plain](https://example.com/a.png)\n",
+  );
+});
+
+test("storageToMarkdown - task lists", async () => {
+  const { storageToMarkdown } = await import("../src/markdown.ts");
+
+  const markdown = storageToMarkdown(
+    "<ac:task-list>" +
+    "<ac:task><ac:task-id>1</ac:task-id><ac:task-status>complete</ac:task-status><ac:task-body>Write docs</ac:task-body></ac:task>" +
+    "<ac:task><ac:task-id>2</ac:task-id><ac:task-status>incomplete</ac:task-status><ac:task-body><strong>Ship</strong> it</ac:task-body></ac:task>" +
+    "</ac:task-list>",
+  );
+
+  expect(markdown).toBe("- [x] Write docs\n- [ ] **Ship** it\n");
+});
+
+test("storageToMarkdown - panels become alerts and blockquotes", async () => {
+  const { storageToMarkdown } = await import("../src/markdown.ts");
+
+  const markdown = storageToMarkdown(
+    '<ac:structured-macro ac:name="info"><ac:rich-text-body><p>Heads up.</p></ac:rich-text-body></ac:structured-macro>' +
+    '<ac:structured-macro ac:name="warning"><ac:parameter ac:name="title">Careful</ac:parameter>' +
+    "<ac:rich-text-body><p>Do not delete.</p></ac:rich-text-body></ac:structured-macro>" +
+    '<ac:structured-macro ac:name="panel"><ac:parameter ac:name="title">Contacts</ac:parameter>' +
+    "<ac:rich-text-body><ul><li>Ops</li></ul></ac:rich-text-body></ac:structured-macro>",
+  );
+
+  expect(markdown).toBe(
+    "> [!NOTE]\n> Heads up.\n\n" +
+    "> [!CAUTION]\n> **Careful**\n>\n> Do not delete.\n\n" +
+    "> **Contacts**\n>\n> - Ops\n",
+  );
+});
+
+test("storageToMarkdown - accepts an already parsed tree", async () => {
+  const { storageToMarkdown } = await import("../src/markdown.ts");
+  const { parseStorageFormat } = await import("../src/storage.ts");
+
+  const root = parseStorageFormat("<h2>From tree</h2>");
+
+  expect(storageToMarkdown(root)).toBe("## From tree\n");
+  expect(storageToMarkdown("")).toBe("");
+});
@@ -0,0 +1,54 @@
+import { test, expect } from "bun:test";
+
+const mockPageMetadata = {
+  id: "123456",
+  title: "Runbook",
+  space: { key: "OPS" },
+  version: {
+    when: "2024-01-01T00:00:00.000Z",
+    by: { displayName: "Test User" }
+  }
+};
+
+const storage =
+  "<p>Intro text.</p>" +
+  "<h1>Runbook</h1><p>Overview.</p>" +
+  "<h2>Failover</h2><p>Promote the replica.</p>" +
+  "<h3>DNS</h3><ul><li>Lower the TTL<ul><li>to 60s</li></ul></li></ul>" +
+  '<ac:layout><ac:layout-section><ac:layout-cell><h2>Rollback</h2><p>Revert <strong>everything</strong>.</p>' +
+  "</ac:layout-cell></ac:layout-section></ac:layout>" +
+  "<h2>Failover</h2><p>Second section with the same title.</p>";
+
+test("buildOutline - sections follow the heading hierarchy", async () => {
+  const { buildOutline } = await import("../src/outline.ts");
+  const { parseStorageFormat } = await import("../src/storage.ts");
+
+  const sections = buildOutline(parseStorageFormat(storage));
+
+  expect(sections.map((s) => [s.path, s.anchor])).toEqual([
+    [[], null],
+    [["Runbook"], "Runbook"],
+    [["Runbook", "Failover"], "Failover"],
+    [["Runbook", "Failover", "DNS"], "DNS"],
+    [["Runbook", "Rollback"], "Rollback"],
+    [["Runbook", "Failover"], "Failover.1"],
+  ]);
+  expect(sections[3]?.blocks).toEqual(["DNS", "• Lower the TTL\n  • to 60s"]);
+  expect(sections[4]?.blocks).toEqual(["Rollback", "Revert everything."]);
+});
+
+test("extractVectorContent - chunks carry the section path and anchor URL", async () => {
+  const { extractVectorContent } = await import("../src/index.ts");
+
+  const vectors = extractVectorContent(storage, mockPageMetadata).filter((v) => v.type === "section");
+
+  const dns = vectors.find((v) => v.metadata.section === "DNS");
+  expect(dns?.metadata.sectionPath).toEqual(["Runbook", "Failover", "DNS"]);
+  expect(dns?.metadata.anchorUrl).toEndWith("/wiki/spaces/OPS/pages/123456#DNS");
+  expect(dns?.content).toContain("Lower the TTL");
+
+  // Content before the first heading keeps the page URL
+  expect(vectors[0]?.metadata.section).toBe("Main Content");
+  expect(vectors[0]?.metadata.sectionPath).toEqual([]);
+  expect(vectors[0]?.metadata.anchorUrl).toEndWith("/pages/123456");
+});
@@ -0,0 +1,106 @@
+import { test, expect } from "bun:test";
+
+test("runWithConcurrency - keeps input order regardless of completion order", async () => {
+  const { runWithConcurrency } = await import("../src/pool.ts");
+
+  const delays = [30, 5, 20, 1];
+  const results = await runWithConcurrency(delays, 4, async (delay, index) => {
+    await Bun.sleep(delay);
+    return `item-${index}`;
+  });
+
+  expect(results.map((r) => (r.status === "fulfilled" ? r.value : null))).toEqual([
+    "item-0",
+    "item-1",
+    "item-2",
+    "item-3",
+  ]);
+});
+
+test("runWithConcurrency - never exceeds the concurrency limit", async () => {
+  const { runWithConcurrency } = await import("../src/pool.ts");
+
+  let active = 0;
+  let peak = 0;
+  await runWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+    active++;
+    peak = Math.max(peak, active);
+    await Bun.sleep(5);
+    active--;
+  });
+
+  expect(peak).toBe(3);
+});
+
+test("runWithConcurrency - isolates failures per item", async () => {
+  const { runWithConcurrency } = await import("../src/pool.ts");
+
+  const results = await runWithConcurrency([1, 2, 3], 2, async (value) => {
+    if (value === 2) throw new Error("bad item");
+    return value * 10;
+  });
+
+  expect(results[0]).toEqual({ status: "fulfilled", value: 10 });
+  expect(results[1]?.status).toBe("rejected");
+  expect(results[2]).toEqual({ status: "fulfilled", value: 30 });
+});
+
+test("runWithConcurrency - handles empty input and invalid limits", async () => {
+  const { runWithConcurrency } = await import("../src/pool.ts");
+
+  expect(await runWithConcurrency([], 4, async () => 1)).toEqual([]);
+
+  const results = await runWithConcurrency(["a", "b"], 0, async (value) => value);
+  expect(results).toHaveLength(2);
+});
+
+test("getConcurrencySetting - reads positive integers from env", async () => {
+  const { getConcurrencySetting } = await import("../src/pool.ts");
+
+  process.env.TEST_POOL_CONCURRENCY = "8";
+  expect(getConcurrencySetting("TEST_POOL_CONCURRENCY", 4)).toBe(8);
+  process.env.TEST_POOL_CONCURRENCY = "-1";
+  expect(getConcurrencySetting("TEST_POOL_CONCURRENCY", 4)).toBe(4);
+  delete process.env.TEST_POOL_CONCURRENCY;
+  expect(getConcurrencySetting("TEST_POOL_CONCURRENCY", 4)).toBe(4);
+});
+
+test("runWithConcurrency - consumes async iterables while they are still producing", async () => {
+  const { runWithConcurrency } = await import("../src/pool.ts");
+
+  const started: number[] = [];
+  let produced = 0;
+  async function* source() {
+    for (let i = 0; i < 4; i++) {
+      await Bun.sleep(5);
+      produced++;
+      yield i;
+    }
+  }
+
+  const results = await runWithConcurrency(source(), 2, async (value) => {
+    started.push(produced);
+    await Bun.sleep(1);
+    return value * 2;
+  });
+
+  expect(results.map((r) => (r.status === "fulfilled" ? r.value : null))).toEqual([0, 2, 4, 6]);
+  // The first item was processed before the source had produced everything
+  expect(started[0]).toBeLessThan(4);
+});
+
+test("runWithConcurrency - raises source errors after in-flight work settles", async () => {
+  const { runWithConcurrency } = await import("../src/pool.ts");
+
+  const completed: number[] = [];
+  async function* source() {
+    yield 1;
+    throw new Error("listing failed");
+  }
+
+  await expect(runWithConcurrency(source(), 2, async (value) => {
+    await Bun.sleep(10);
+    completed.push(value);
+  })).rejects.toThrow("listing failed");
+  expect(completed).toEqual([1]);
+});
@@ -0,0 +1,130 @@
+import { test, expect, spyOn } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { AttachmentRecord } from "../src/attachments.ts";
+
+const record = (id: string, title: string, status: AttachmentRecord["status"], file: string | null, reason?: string): AttachmentRecord => ({
+  id, title, mediaType: "application/octet-stream", fileSize: 10, version: 1, status, file, sha256: null, reason,
+});
+
+const records = [
+  record("a1", "arch diagram.png", "downloaded", "arch diagram.png"),
+  record("a2", "Plan:v2.pdf", "unchanged", "Plan-v2-a2.pdf"),
+  record("a3", "talk.mp4", "skipped", null, "media type video/mp4 is excluded"),
+];
+
+const storage =
+  '<p><ac:image ac:alt="Architecture" ac:width="400"><ri:attachment ri:filename="arch diagram.png" /></ac:image></p>' +
+  '<p><ac:link><ri:attachment ri:filename="plan:v2.pdf" /><ac:plain-text-link-body><![CDATA[Plan & budget]]></ac:plain-text-link-body></ac:link> ' +
+  '<ac:link><ri:attachment ri:filename="talk.mp4" /></ac:link> ' +
+  '<ac:link><ri:page ri:content-title="Other Page" /></ac:link></p>' +
+  '<p><ac:image><ri:attachment ri:filename="logo.png"><ri:page ri:content-title="Brand" /></ri:attachment></ac:image>' +
+  '<ac:image><ri:attachment ri:filename="gone.png" /></ac:image><ac:image><ri:attachment ri:filename="gone.png" /></ac:image></p>';
+
+test("localizeStorageHtml - attachment images and links point at local files", async () => {
+  const { createAttachmentResolver, localizeStorageHtml } = await import("../src/references.ts");
+  const resolve = createAttachmentResolver(records, { id: "42", host: "https://example.atlassian.net" });
+
+  const html = localizeStorageHtml(storage, resolve);
+
+  expect(html).toContain('<img src="attachments/arch%20diagram.png" alt="Architecture" width="400"');
+  // Matched case-insensitively, and through the name the file was saved under
+  expect(html).toContain('<a href="attachments/Plan-v2-a2.pdf">Plan &amp; budget</a>');
+  expect(html).toContain('<a href="https://example.atlassian.net/wiki/download/attachments/42/talk.mp4">talk.mp4</a>');
+  expect(html).toContain('<ri:page ri:content-title="Other Page"');
+  expect(html).toContain('<ri:attachment ri:filename="logo.png">');
+
+  const untouched = "<p>No <strong>attachments</strong> here<br/></p>";
+  expect(localizeStorageHtml(untouched, resolve)).toBe(untouched);
+});
+
+test("reportAttachmentReferences - lists references without a local file", async () => {
+  const { createAttachmentResolver, reportAttachmentReferences } = await import("../src/references.ts");
+  const { parseStorageFormat } = await import("../src/storage.ts");
+  const resolve = createAttachmentResolver(records, { id: "42", host: "https://example.atlassian.net" });
+
+  expect(reportAttachmentReferences(parseStorageFormat(storage), resolve)).toEqual({
+    resolved: 2,
+    unresolved: [
+      { filename: "talk.mp4", element: "link", reason: "skipped: media type video/mp4 is excluded" },
+      { filename: "logo.png", element: "image", reason: "attached to another page" },
+      { filename: "gone.png", element: "image", reason: "no attachment with this name on the page" },
+    ],
+  });
+});
+
+test("scrapePage - rewrites references in content.html and content.md and reports the rest", async () => {
+  const { scrapePage } = await import("../src/index.ts");
+  const previousFetch = global.fetch;
+  const originalEnv = process.env;
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "references-test-"));
+  process.env = {
+    ...originalEnv,
+    AUTH_METHOD: "pat",
+    CONFLUENCE_PAT: "token",
+    CONFLUENCE_HOST: "https://example.atlassian.net",
+    CONFLUENCE_RATE_LIMIT: "0",
+    CONFLUENCE_ATTACHMENT_MAX_SIZE: undefined,
+    CONFLUENCE_ATTACHMENT_INCLUDE_TYPES: undefined,
+    CONFLUENCE_ATTACHMENT_EXCLUDE_TYPES: undefined,
+  };
+  global.fetch = (async (input: string | URL) => {
+    const url = new URL(String(input));
+    if (url.pathname.endsWith("/child/attachment")) {
+      return new Response(JSON.stringify({
+        results: [{
+          id: "a1",
+          title: "arch diagram.png",
+          version: { number: 1 },
+          extensions: { mediaType: "image/png", fileSize: 3 },
+          _links: { download: "/download/attachments/42/arch%20diagram.png" },
+        }],
+      }), { status: 200 });
+    }
+    if (url.pathname.startsWith("/wiki/download/")) {
+      return new Response("png", { status: 200 });
+    }
+    return new Response(JSON.stringify({
+      id: "42",
+      title: "Architecture",
+      space: { key: "ENG" },
+      version: { number: 1, when: "2024-01-01T00:00:00.000Z", by: { displayName: "Stub" } },
+      body: {
+        storage: {
+          value: '<p><ac:image ac:alt="Diagram"><ri:attachment ri:filename="arch diagram.png" /></ac:image></p>' +
+            '<p><ac:link><ri:attachment ri:filename="notes.txt" /></ac:link></p>',
+        },
+      },
+    }), { status: 200 });
+  }) as any;
+  const log = spyOn(console, "log").mockImplementation(() => {});
+  const warn = spyOn(console, "warn").mockImplementation(() => {});
+
+  try {
+    const pageDir = path.join(outputDir, "ENG", "Architecture");
+    await scrapePage(null, "42", outputDir, { formats: ["html", "json", "markdown", "attachments"], embedding: null });
+
+    expect(await fs.readFile(path.join(pageDir, "attachments", "arch diagram.png"), "utf8")).toBe("png");
+    const html = await fs.readFile(path.join(pageDir, "content.html"), "utf8");
+    expect(html).toContain('<img src="attachments/arch%20diagram.png" alt="Diagram"');
+    const markdown = await fs.readFile(path.join(pageDir, "content.md"), "utf8");
+    expect(markdown).toBe(
+      "![Diagram](attachments/arch%20diagram.png)\n\n" +
+      "[notes.txt](https://example.atlassian.net/wiki/download/attachments/42/notes.txt)\n",
+    );
+    const parsed = JSON.parse(await fs.readFile(path.join(pageDir, "parsed_content.json"), "utf8"));
+    expect(parsed.images).toEqual([{ src: "attachments/arch%20diagram.png", alt: "Diagram" }]);
+    const metadata = JSON.parse(await fs.readFile(path.join(pageDir, "metadata.json"), "utf8"));
+    expect(metadata.attachmentReferences).toEqual({
+      resolved: 1,
+      unresolved: [{ filename: "notes.txt", element: "link", reason: "no attachment with this name on the page" }],
+    });
+  } finally {
+    log.mockRestore();
+    warn.mockRestore();
+    global.fetch = previousFetch;
+    process.env = originalEnv;
+    await fs.rm(outputDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,173 @@
+import { test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+
+const originalEnv = process.env;
+const previousFetch = global.fetch;
+const hits = new Map<string, number>();
+let server: ReturnType<typeof Bun.serve>;
+
+function countHit(pathname: string): number {
+  const count = (hits.get(pathname) || 0) + 1;
+  hits.set(pathname, count);
+  return count;
+}
+
+beforeAll(() => {
+  global.fetch = Bun.fetch as any;
+
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const { pathname } = new URL(req.url);
+      const count = countHit(pathname);
+
+      switch (pathname) {
+        case "/wiki/rest/api/flaky":
+          return count < 3
+            ? new Response("unavailable", { status: 503 })
+            : Response.json({ attempts: count });
+        case "/wiki/rest/api/throttled":
+          return count === 1
+            ? new Response("slow down", { status: 429, headers: { "Retry-After": "1" } })
+            : Response.json({ attempts: count });
+        case "/wiki/rest/api/broken":
+          return new Response("boom", { status: 500 });
+        case "/wiki/rest/api/missing":
+          return new Response("missing", { status: 404 });
+        case "/wiki/rest/api/slow":
+          await Bun.sleep(300);
+          return Response.json({ slow: true });
+        case "/wiki/download/attachments/1/flaky.txt":
+          return count < 2
+            ? new Response("bad gateway", { status: 502 })
+            : new Response("file body");
+        default:
+          return Response.json({ ok: true });
+      }
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+  global.fetch = previousFetch;
+});
+
+beforeEach(() => {
+  hits.clear();
+  process.env = {
+    ...originalEnv,
+    AUTH_METHOD: "pat",
+    CONFLUENCE_PAT: "token",
+    CONFLUENCE_HOST: `http://localhost:${server.port}`,
+    CONFLUENCE_MAX_RETRIES: "3",
+    CONFLUENCE_RETRY_BASE_MS: "5",
+    CONFLUENCE_RATE_LIMIT: "0",
+  };
+});
+
+test("resilience - retries transient 5xx responses", async () => {
+  const { fetchDirectly } = await import("../src/index.ts");
+
+  const result = await fetchDirectly("/flaky");
+
+  expect(result).toEqual({ attempts: 3 });
+  process.env = originalEnv;
+});
+
+test("resilience - honors Retry-After on 429", async () => {
+  const { fetchDirectly } = await import("../src/index.ts");
+
+  const startedAt = Date.now();
+  const result = await fetchDirectly("/throttled");
+
+  expect(result).toEqual({ attempts: 2 });
+  expect(Date.now() - startedAt).toBeGreaterThanOrEqual(950);
+  process.env = originalEnv;
+});
+
+test("resilience - gives up after max retries with the final status", async () => {
+  process.env.CONFLUENCE_MAX_RETRIES = "2";
+  const { fetchDirectly, ConfluenceHttpError } = await import("../src/index.ts");
+
+  const error = await fetchDirectly("/broken").catch((e: unknown) => e);
+
+  expect(error).toBeInstanceOf(ConfluenceHttpError);
+  expect((error as InstanceType<typeof ConfluenceHttpError>).status).toBe(500);
+  expect(hits.get("/wiki/rest/api/broken")).toBe(3);
+  process.env = originalEnv;
+});
+
+test("resilience - does not retry client errors", async () => {
+  const { fetchDirectly } = await import("../src/index.ts");
+
+  await expect(fetchDirectly("/missing")).rejects.toThrow("HTTP error! status: 404");
+  expect(hits.get("/wiki/rest/api/missing")).toBe(1);
+  process.env = originalEnv;
+});
+
+test("resilience - times out slow requests", async () => {
+  process.env.CONFLUENCE_REQUEST_TIMEOUT_MS = "50";
+  process.env.CONFLUENCE_MAX_RETRIES = "1";
+  const { fetchDirectly } = await import("../src/index.ts");
+
+  await expect(fetchDirectly("/slow")).rejects.toThrow("timed out after 50ms");
+  expect(hits.get("/wiki/rest/api/slow")).toBe(2);
+  process.env = originalEnv;
+});
+
+test("resilience - caller abort signal cancels the request", async () => {
+  const { fetchDirectly } = await import("../src/index.ts");
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(new Error("cancelled by caller")), 50);
+
+  await expect(fetchDirectly("/slow", { signal: controller.signal })).rejects.toThrow("cancelled by caller");
+  expect(hits.get("/wiki/rest/api/slow")).toBe(1);
+  process.env = originalEnv;
+});
+
+test("resilience - token bucket throttles all requests", async () => {
+  process.env.CONFLUENCE_RATE_LIMIT = "10";
+  process.env.CONFLUENCE_RATE_BURST = "1";
+  const { fetchDirectly } = await import("../src/index.ts");
+
+  const startedAt = Date.now();
+  await Promise.all([fetchDirectly("/a"), fetchDirectly("/b"), fetchDirectly("/c"), fetchDirectly("/d")]);
+
+  // One request goes out immediately, the remaining three wait ~100ms each
+  expect(Date.now() - startedAt).toBeGreaterThanOrEqual(280);
+  process.env = originalEnv;
+});
+
+test("resilience - attachment downloads are retried", async () => {
+  const { confluenceRequest } = await import("../src/index.ts");
+
+  const response = await confluenceRequest("/download/attachments/1/flaky.txt");
+
+  expect(response.ok).toBe(true);
+  expect(await response.text()).toBe("file body");
+  expect(hits.get("/wiki/download/attachments/1/flaky.txt")).toBe(2);
+  process.env = originalEnv;
+});
+
+test("resilience - parseRetryAfter handles seconds and dates", async () => {
+  const { parseRetryAfter } = await import("../src/transport.ts");
+
+  expect(parseRetryAfter("2")).toBe(2000);
+  expect(parseRetryAfter(null)).toBeNull();
+  expect(parseRetryAfter("not a date")).toBeNull();
+
+  const inFuture = parseRetryAfter(new Date(Date.now() + 5000).toUTCString()) || 0;
+  expect(inFuture).toBeGreaterThan(3000);
+  expect(inFuture).toBeLessThanOrEqual(5000);
+});
+
+test("resilience - backoff grows exponentially and is capped", async () => {
+  const { computeBackoffDelay } = await import("../src/transport.ts");
+  const policy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+
+  for (let i = 0; i < 20; i++) {
+    expect(computeBackoffDelay(0, policy)).toBeLessThanOrEqual(100);
+    expect(computeBackoffDelay(2, policy)).toBeLessThanOrEqual(400);
+    expect(computeBackoffDelay(10, policy)).toBeLessThanOrEqual(1000);
+  }
+});
@@ -1,5 +1,7 @@
 import { test, expect, mock, beforeEach, spyOn } from "bun:test";
 import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 
 const mockFetch = mock();
 global.fetch = mockFetch as any;
@@ -50,6 +52,7 @@ beforeEach(() => {
   process.env.CONFLUENCE_HOST = "https://test.atlassian.net";
   process.env.CONFLUENCE_EMAIL = "test@example.com";
   process.env.CONFLUENCE_API_TOKEN = "test-token";
+  process.env.CONFLUENCE_RETRY_BASE_MS = "1";
 });
 
 test("getPageContent - successful fetch", async () => {
@@ -129,29 +132,49 @@ test("downloadAttachment - successful download", async () => {
     container: { id: "123456" }
   };
 
-  const mockFileContent = new ArrayBuffer(100);
-
   mockFetch
     .mockResolvedValueOnce({
       ok: true,
       json: () => Promise.resolve(mockAttachment)
     })
-    .mockResolvedValueOnce({
-      ok: true,
-      arrayBuffer: () => Promise.resolve(mockFileContent)
-    });
-
-  const mockWriteFile = spyOn(fs, "writeFile").mockResolvedValue(undefined);
+    .mockResolvedValueOnce(new Response(new Uint8Array(100)));
 
   const { downloadAttachment, createConfluenceClient } = await import("../src/index.ts");
   const client = createConfluenceClient();
-  
-  const result = await downloadAttachment(client, "att123", "/tmp/test");
+  const targetDir = await fs.mkdtemp(path.join(os.tmpdir(), "download-test-"));
 
-  expect(result).toContain("test-file.pdf");
-  expect(mockWriteFile).toHaveBeenCalled();
-  
-  mockWriteFile.mockRestore();
+  try {
+    const result = await downloadAttachment(client, "att123", targetDir);
+
+    expect(result).toBe(path.join(targetDir, "test-file.pdf"));
+    expect((await fs.stat(result as string)).size).toBe(100);
+    expect(String(mockFetch.mock.calls.at(-1)?.[0])).toContain("/download/attachments/123456/test-file.pdf");
+  } finally {
+    await fs.rm(targetDir, { recursive: true, force: true });
+  }
+});
+
+test("downloadAttachment - listed attachments use their download link without a metadata request", async () => {
+  const listed = {
+    id: "att124",
+    title: "Q3 report #2.pdf",
+    _links: { download: "/download/attachments/123456/Q3%20report%20%232.pdf?version=2&api=v2" }
+  };
+  mockFetch.mockResolvedValueOnce(new Response("report"));
+
+  const { downloadAttachment } = await import("../src/index.ts");
+  const targetDir = await fs.mkdtemp(path.join(os.tmpdir(), "download-test-"));
+  const callsBefore = mockFetch.mock.calls.length;
+
+  try {
+    const result = await downloadAttachment(null, listed, targetDir);
+
+    expect(await fs.readFile(result as string, "utf8")).toBe("report");
+    expect(mockFetch.mock.calls.length - callsBefore).toBe(1);
+    expect(String(mockFetch.mock.calls.at(-1)?.[0])).toContain("/wiki/download/attachments/123456/Q3%20report%20%232.pdf?version=2");
+  } finally {
+    await fs.rm(targetDir, { recursive: true, force: true });
+  }
 });
 
 test("downloadAttachment - download failure", async () => {
@@ -236,9 +259,7 @@ test("getAllPagesInSpace - API error", async () => {
   const { getAllPagesInSpace, createConfluenceClient } = await import("../src/index.ts");
   const client = createConfluenceClient();
   
-  const result = await getAllPagesInSpace(client, "INVALID");
-
-  expect(result).toEqual([]);
+  await expect(getAllPagesInSpace(client, "INVALID")).rejects.toThrow("HTTP error! status: 403");
 });
 
 test("scrapePage - successful scraping", async () => {
@@ -267,7 +288,7 @@ test("scrapePage - successful scraping", async () => {
   });
 
   expect(mockMkdir).toHaveBeenCalled();
-  expect(mockWriteFile).toHaveBeenCalledTimes(5);
+  expect(mockWriteFile).toHaveBeenCalledTimes(7);
   
   mockMkdir.mockRestore();
   mockWriteFile.mockRestore();
@@ -286,3 +307,95 @@ test("scrapePage - page fetch failure", async () => {
 
   expect(result).toBeNull();
 });
+
+test("getAllPagesInSpace - error mid-pagination is raised instead of truncating", async () => {
+  mockFetch
+    .mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        results: [{ id: "page1", title: "Page 1" }],
+        _links: { next: "/rest/api/content?spaceKey=TEST&start=1" }
+      })
+    })
+    .mockResolvedValueOnce({
+      ok: false,
+      status: 403
+    });
+
+  const { getAllPagesInSpace, createConfluenceClient } = await import("../src/index.ts");
+  const client = createConfluenceClient();
+
+  await expect(getAllPagesInSpace(client, "TEST")).rejects.toThrow("HTTP error! status: 403");
+  expect(mockFetch.mock.calls[1]?.[0]).toBe("https://test.atlassian.net/wiki/rest/api/content?spaceKey=TEST&start=1");
+});
+
+test("iterateSpacePages - yields pages before the listing is complete", async () => {
+  mockFetch
+    .mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        results: [{ id: "page1", title: "Page 1" }],
+        _links: { next: "/rest/api/content?spaceKey=TEST&start=1" }
+      })
+    })
+    .mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ results: [{ id: "page2", title: "Page 2" }] })
+    });
+
+  const { iterateSpacePages } = await import("../src/index.ts");
+  const iterator = iterateSpacePages("TEST");
+
+  const first = await iterator.next();
+  expect(first.value.id).toBe("page1");
+  expect(mockFetch).toHaveBeenCalledTimes(1);
+
+  const second = await iterator.next();
+  expect(second.value.id).toBe("page2");
+  expect((await iterator.next()).done).toBe(true);
+});
+
+test("scrapeSpace - scrapes pages concurrently and reports failures in order", async () => {
+  const pages = [
+    { id: "page1", title: "Shared Title", version: { number: 1 } },
+    { id: "page2", title: "Broken", version: { number: 1 } },
+    { id: "page3", title: "Shared Title", version: { number: 1 } }
+  ];
+
+  mockFetch.mockImplementation(async (url: string) => {
+    if (url.includes("/content?spaceKey=")) {
+      return { ok: true, json: () => Promise.resolve({ results: pages, size: 3 }) };
+    }
+    if (url.includes("/child/attachment")) {
+      return { ok: true, json: () => Promise.resolve({ results: [] }) };
+    }
+    const id = url.match(/\/content\/([^/?]+)/)?.[1];
+    if (id === "page2") {
+      return { ok: false, status: 404 };
+    }
+    const page = pages.find(p => p.id === id);
+    return {
+      ok: true,
+      json: () => Promise.resolve({ ...mockPageResponse, id, title: page?.title })
+    };
+  });
+
+  const mockMkdir = spyOn(fs, "mkdir").mockResolvedValue(undefined);
+  const mockWriteFile = spyOn(fs, "writeFile").mockResolvedValue(undefined);
+
+  const { scrapeSpace, createConfluenceClient } = await import("../src/index.ts");
+  const client = createConfluenceClient();
+
+  const result = await scrapeSpace(client, "TEST", "/tmp/test-output", 2);
+
+  expect(result.scraped.map(p => p.pageId)).toEqual(["page1", "page3"]);
+  expect(result.scraped[0]?.outputDir).toEndWith("Shared Title");
+  expect(result.scraped[1]?.outputDir).toContain("Shared Title-page3");
+  expect(result.failed).toEqual([
+    { pageId: "page2", title: "Broken", error: "Scrape failed" }
+  ]);
+
+  mockFetch.mockReset();
+  mockMkdir.mockRestore();
+  mockWriteFile.mockRestore();
+});
@@ -0,0 +1,168 @@
+import { test, expect, spyOn } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+function chunk(pageId: string, index: number, content: string, values?: number[]) {
+  return {
+    id: `${pageId}-chunk-${index}`,
+    title: "Runbook",
+    pageId,
+    spaceKey: "OPS",
+    content,
+    type: "section" as const,
+    metadata: {
+      url: `https://example.atlassian.net/wiki/spaces/OPS/pages/${pageId}`,
+      lastUpdated: "2024-01-01T00:00:00.000Z",
+      author: "Stub",
+      section: "Intro",
+    },
+    ...(values ? { embedding: { provider: "hash", model: "hash-3", dimensions: values.length, values } } : {}),
+  };
+}
+
+test("chunkUuid - stable RFC 4122 ids per chunk", async () => {
+  const { chunkUuid } = await import("../src/sinks.ts");
+
+  const id = chunkUuid("42-chunk-0");
+
+  expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  expect(chunkUuid("42-chunk-0")).toBe(id);
+  expect(chunkUuid("42-chunk-1")).not.toBe(id);
+});
+
+test("createJsonlSink - streams one line per chunk and marks deletions", async () => {
+  const { createJsonlSink } = await import("../src/sinks.ts");
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "jsonl-sink-"));
+  const filePath = path.join(dir, "nested", "chunks.jsonl");
+
+  try {
+    const sink = createJsonlSink(filePath);
+    // Pages finishing at the same time must not interleave
+    await Promise.all([
+      sink.write([chunk("1", 0, "a"), chunk("1", 1, "b")]),
+      sink.write([chunk("2", 0, "c", [1, 0, 0])]),
+    ]);
+    await sink.deletePages(["3"]);
+    await sink.close();
+
+    const lines = (await fs.readFile(filePath, "utf8")).trim().split("\n").map((line) => JSON.parse(line));
+    expect(lines.map((line) => line.chunkId ?? line.pageId)).toEqual(["1-chunk-0", "1-chunk-1", "2-chunk-0", "3"]);
+    expect(lines[0]).toMatchObject({ pageId: "1", content: "a", section: "Intro", url: expect.stringContaining("/pages/1") });
+    expect(lines[2].embedding.values).toEqual([1, 0, 0]);
+    expect(lines[3]).toEqual({ pageId: "3", deleted: true });
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("createQdrantSink - creates the collection once and upserts idempotently", async () => {
+  const { createQdrantSink, chunkUuid } = await import("../src/sinks.ts");
+  const previousFetch = global.fetch;
+  global.fetch = Bun.fetch as any;
+  const log = spyOn(console, "log").mockImplementation(() => {});
+
+  // Minimal stand-in for the Qdrant REST API
+  let collection = null as { size: number } | null;
+  const points = new Map<string, any>();
+  const calls: string[] = [];
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      calls.push(`${req.method} ${url.pathname}`);
+      expect(req.headers.get("api-key")).toBe("secret");
+      const body = req.method === "GET" ? null : await req.json() as any;
+
+      if (url.pathname === "/collections/docs") {
+        if (req.method === "GET") return collection ? Response.json({ result: {} }) : new Response("", { status: 404 });
+        collection = { size: body.vectors.size };
+        return Response.json({ result: true });
+      }
+      if (!collection) return new Response("missing collection", { status: 404 });
+      if (url.pathname === "/collections/docs/points/delete") {
+        const pageIds = body.filter.should.map((c: any) => c.match.value);
+        for (const [id, point] of points) {
+          if (pageIds.includes(point.payload.pageId)) points.delete(id);
+        }
+        return Response.json({ result: {} });
+      }
+      if (url.pathname === "/collections/docs/points") {
+        for (const point of body.points) points.set(point.id, point);
+        return Response.json({ result: {} });
+      }
+      return new Response("unexpected", { status: 400 });
+    },
+  });
+
+  try {
+    const sink = createQdrantSink({ url: `http://localhost:${server.port}/`, collection: "docs", apiKey: "secret" });
+
+    await sink.write([chunk("1", 0, "a", [1, 0, 0]), chunk("1", 1, "b", [0, 1, 0]), chunk("1", 2, "no vector")]);
+    // Re-scraping a page that shrank replaces its points instead of duplicating or leaving stale ones
+    await sink.write([chunk("1", 0, "a2", [0, 0, 1])]);
+    await sink.write([chunk("2", 0, "c", [1, 1, 0])]);
+    await sink.deletePages(["2"]);
+    // A page whose new chunks have no embeddings still loses its old points
+    await sink.write([chunk("3", 0, "d", [1, 0, 1])]);
+    await sink.write([chunk("3", 0, "d2")]);
+    await sink.close();
+
+    expect(collection).toEqual({ size: 3 });
+    expect(calls.filter((call) => call === "PUT /collections/docs")).toHaveLength(1);
+    expect(calls.filter((call) => call === "PUT /collections/docs/points")).toHaveLength(4);
+    expect([...points.keys()]).toEqual([chunkUuid("1-chunk-0")]);
+    expect(points.get(chunkUuid("1-chunk-0"))).toMatchObject({
+      vector: [0, 0, 1],
+      payload: { chunkId: "1-chunk-0", pageId: "1", content: "a2", spaceKey: "OPS" },
+    });
+  } finally {
+    log.mockRestore();
+    server.stop(true);
+    global.fetch = previousFetch;
+  }
+});
+
+test("createPgvectorSink - upserts per page in a transaction", async () => {
+  const { createPgvectorSink } = await import("../src/sinks.ts");
+  const statements: string[] = [];
+  const sink = createPgvectorSink({ table: "kb.chunks", execute: async (sql) => statements.push(sql) });
+
+  await sink.write([chunk("1", 0, "it's here", [0.5, -1, 0])]);
+  await sink.write([chunk("2", 0, "plain")]);
+  await sink.deletePages(["1"]);
+  await sink.close();
+
+  expect(statements).toHaveLength(4);
+  expect(statements[0]).toContain("CREATE TABLE IF NOT EXISTS kb.chunks");
+  expect(statements[0]).toContain("embedding vector(3)");
+  expect(statements[1]).toStartWith("BEGIN;\nDELETE FROM kb.chunks WHERE page_id IN ('1');");
+  expect(statements[1]).toContain("'it''s here'");
+  expect(statements[1]).toContain("'[0.5,-1,0]'::vector");
+  expect(statements[1]).toContain("ON CONFLICT (id) DO UPDATE SET");
+  expect(statements[1]).toEndWith("COMMIT;");
+  expect(statements[2]).toContain("'plain'");
+  expect(statements[2]).toContain(", NULL)");
+  expect(statements[3]).toBe("DELETE FROM kb.chunks WHERE page_id IN ('1');");
+
+  expect(() => createPgvectorSink({ table: "chunks; DROP TABLE x", execute: async () => {} }))
+    .toThrow("Invalid pgvector table name");
+});
+
+test("createSinksFromEnv - builds the configured sinks", async () => {
+  const { createSinksFromEnv } = await import("../src/sinks.ts");
+  const originalEnv = process.env;
+
+  try {
+    process.env = { ...originalEnv, CONFLUENCE_SINKS: "jsonl, qdrant,pgvector" };
+    expect(createSinksFromEnv("/tmp/out").map((sink) => sink.name)).toEqual(["jsonl", "qdrant", "pgvector"]);
+
+    process.env = { ...originalEnv, CONFLUENCE_SINKS: "" };
+    expect(createSinksFromEnv("/tmp/out")).toEqual([]);
+
+    process.env = { ...originalEnv, CONFLUENCE_SINKS: "weaviate" };
+    expect(() => createSinksFromEnv("/tmp/out")).toThrow("Unsupported sink: weaviate");
+  } finally {
+    process.env = originalEnv;
+  }
+});
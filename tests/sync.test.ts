@@ -0,0 +1,251 @@
+import { test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+interface StubPage {
+  id: string;
+  title: string;
+  version: number;
+  body: string;
+  spaceKey: string;
+  status?: string;
+  labels?: string[];
+}
+
+const originalEnv = process.env;
+const previousFetch = global.fetch;
+const pages = new Map<string, StubPage>();
+const requestedPaths: string[] = [];
+let server: ReturnType<typeof Bun.serve>;
+let outputDir: string;
+
+function toContent(page: StubPage) {
+  return {
+    id: page.id,
+    title: page.title,
+    status: page.status || "current",
+    body: { storage: { value: page.body } },
+    space: { key: page.spaceKey },
+    metadata: { labels: { results: (page.labels || []).map((name) => ({ name })) } },
+    version: { number: page.version, when: "2024-01-01T00:00:00.000Z", by: { displayName: "Stub" } },
+  };
+}
+
+beforeAll(() => {
+  global.fetch = Bun.fetch as any;
+
+  server = Bun.serve({
+    port: 0,
+    fetch(req) {
+      const url = new URL(req.url);
+      requestedPaths.push(`${url.pathname}${url.search}`);
+      const live = [...pages.values()].filter((page) => page.spaceKey === "SYNC" && !page.status);
+
+      if (url.pathname === "/wiki/rest/api/content") {
+        const listed = live.map((page) => ({ id: page.id, title: page.title, metadata: toContent(page).metadata }));
+        return Response.json({ results: listed, size: live.length });
+      }
+      if (url.pathname === "/wiki/rest/api/content/search") {
+        // The stub treats every live page as recently modified
+        return Response.json({ results: live.map(toContent), size: live.length });
+      }
+
+      const attachments = url.pathname.match(/^\/wiki\/rest\/api\/content\/([^/]+)\/child\/attachment$/);
+      if (attachments) {
+        return Response.json({ results: [] });
+      }
+
+      const content = url.pathname.match(/^\/wiki\/rest\/api\/content\/([^/]+)$/);
+      const page = content ? pages.get(content[1] as string) : undefined;
+      return page ? Response.json(toContent(page)) : new Response("not found", { status: 404 });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+  global.fetch = previousFetch;
+});
+
+beforeEach(async () => {
+  pages.clear();
+  requestedPaths.length = 0;
+  outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "sync-test-"));
+  process.env = {
+    ...originalEnv,
+    AUTH_METHOD: "pat",
+    CONFLUENCE_PAT: "token",
+    CONFLUENCE_HOST: `http://localhost:${server.port}`,
+    CONFLUENCE_RATE_LIMIT: "0",
+    CONFLUENCE_RETRY_BASE_MS: "1",
+  };
+});
+
+async function exists(filePath: string): Promise<boolean> {
+  return fs.access(filePath).then(() => true, () => false);
+}
+
+function scrapedPageIds(): string[] {
+  return requestedPaths
+    .map((p) => p.match(/^\/wiki\/rest\/api\/content\/([^/?]+)\?expand=body/)?.[1])
+    .filter((id): id is string => Boolean(id));
+}
+
+test("syncSpace - first run scrapes everything and writes a manifest", async () => {
+  pages.set("1", { id: "1", title: "Alpha", version: 1, body: "<p>a</p>", spaceKey: "SYNC" });
+  pages.set("2", { id: "2", title: "Beta", version: 3, body: "<p>b</p>", spaceKey: "SYNC" });
+  const { syncSpace } = await import("../src/index.ts");
+
+  const result = await syncSpace(null, "SYNC", outputDir);
+
+  expect(result.added.sort()).toEqual(["1", "2"]);
+  const manifest = JSON.parse(await fs.readFile(path.join(outputDir, ".sync-manifest.json"), "utf8"));
+  expect(manifest.spaces.SYNC.lastSyncedAt).toBeDefined();
+  expect(manifest.pages["2"]).toMatchObject({
+    pageId: "2",
+    version: 3,
+    outputPath: path.join(outputDir, "SYNC", "Beta"),
+  });
+  expect(manifest.pages["2"].contentHash).toMatch(/^[0-9a-f]{64}$/);
+
+  await fs.rm(outputDir, { recursive: true, force: true });
+  process.env = originalEnv;
+});
+
+test("syncSpace - only re-scrapes pages whose version moved", async () => {
+  pages.set("1", { id: "1", title: "Alpha", version: 1, body: "<p>a</p>", spaceKey: "SYNC" });
+  pages.set("2", { id: "2", title: "Beta", version: 1, body: "<p>b</p>", spaceKey: "SYNC" });
+  const { syncSpace } = await import("../src/index.ts");
+  await syncSpace(null, "SYNC", outputDir);
+
+  requestedPaths.length = 0;
+  pages.set("2", { id: "2", title: "Beta", version: 2, body: "<p>b2</p>", spaceKey: "SYNC" });
+  pages.set("3", { id: "3", title: "Gamma", version: 1, body: "<p>c</p>", spaceKey: "SYNC" });
+
+  const result = await syncSpace(null, "SYNC", outputDir);
+
+  expect(result.updated).toEqual(["2"]);
+  expect(result.added).toEqual(["3"]);
+  expect(result.unchanged).toEqual(["1"]);
+  expect(scrapedPageIds().sort()).toEqual(["2", "3"]);
+  expect(requestedPaths.some((p) => p.startsWith("/wiki/rest/api/content/search?cql="))).toBe(true);
+  expect(await fs.readFile(path.join(outputDir, "SYNC", "Beta", "content.html"), "utf8")).toBe("<p>b2</p>");
+
+  await fs.rm(outputDir, { recursive: true, force: true });
+  process.env = originalEnv;
+});
+
+test("syncSpace - tombstones deleted and moved pages", async () => {
+  pages.set("1", { id: "1", title: "Alpha", version: 1, body: "<p>a</p>", spaceKey: "SYNC" });
+  pages.set("2", { id: "2", title: "Beta", version: 1, body: "<p>b</p>", spaceKey: "SYNC" });
+  pages.set("3", { id: "3", title: "Gamma", version: 1, body: "<p>c</p>", spaceKey: "SYNC" });
+  const { syncSpace } = await import("../src/index.ts");
+  await syncSpace(null, "SYNC", outputDir);
+
+  pages.delete("2");
+  pages.set("3", { id: "3", title: "Gamma", version: 2, body: "<p>c</p>", spaceKey: "OTHER" });
+
+  const result = await syncSpace(null, "SYNC", outputDir);
+
+  expect(result.removed).toEqual([
+    { pageId: "2", reason: "deleted", outputPath: path.join(outputDir, "SYNC", "Beta") },
+    { pageId: "3", reason: "moved", outputPath: path.join(outputDir, "SYNC", "Gamma") },
+  ]);
+  const tombstone = JSON.parse(await fs.readFile(path.join(outputDir, "SYNC", "Beta", "tombstone.json"), "utf8"));
+  expect(tombstone).toMatchObject({ pageId: "2", reason: "deleted", lastVersion: 1 });
+  expect(await exists(path.join(outputDir, "SYNC", "Beta", "content.html"))).toBe(false);
+  const moved = JSON.parse(await fs.readFile(path.join(outputDir, "SYNC", "Gamma", "tombstone.json"), "utf8"));
+  expect(moved.movedToSpace).toBe("OTHER");
+
+  const manifest = JSON.parse(await fs.readFile(path.join(outputDir, ".sync-manifest.json"), "utf8"));
+  expect(Object.keys(manifest.pages)).toEqual(["1"]);
+
+  await fs.rm(outputDir, { recursive: true, force: true });
+  process.env = originalEnv;
+});
+
+test("syncSpace - remove mode deletes output of renamed and trashed pages", async () => {
+  pages.set("1", { id: "1", title: "Alpha", version: 1, body: "<p>a</p>", spaceKey: "SYNC" });
+  pages.set("2", { id: "2", title: "Beta", version: 1, body: "<p>b</p>", spaceKey: "SYNC" });
+  const { syncSpace } = await import("../src/index.ts");
+  await syncSpace(null, "SYNC", outputDir, { deletionMode: "remove" });
+
+  pages.set("1", { id: "1", title: "Alpha Renamed", version: 2, body: "<p>a</p>", spaceKey: "SYNC" });
+  pages.set("2", { id: "2", title: "Beta", version: 2, body: "<p>b</p>", spaceKey: "SYNC", status: "trashed" });
+
+  const result = await syncSpace(null, "SYNC", outputDir, { deletionMode: "remove" });
+
+  expect(result.updated).toEqual(["1"]);
+  expect(result.removed.map((r) => [r.pageId, r.reason])).toEqual([["1", "moved"], ["2", "deleted"]]);
+  expect(await exists(path.join(outputDir, "SYNC", "Alpha"))).toBe(false);
+  expect(await exists(path.join(outputDir, "SYNC", "Beta"))).toBe(false);
+  expect(await exists(path.join(outputDir, "SYNC", "Alpha Renamed", "metadata.json"))).toBe(true);
+
+  await fs.rm(outputDir, { recursive: true, force: true });
+  process.env = originalEnv;
+});
+
+test("syncSpace - keeps the change window open when pages fail", async () => {
+  pages.set("1", { id: "1", title: "Alpha", version: 1, body: "<p>a</p>", spaceKey: "SYNC" });
+  const { syncSpace } = await import("../src/index.ts");
+  await syncSpace(null, "SYNC", outputDir);
+  const before = JSON.parse(await fs.readFile(path.join(outputDir, ".sync-manifest.json"), "utf8"));
+
+  // Listed but unfetchable: the scrape fails
+  pages.set("9", { id: "9", title: "Ghost", version: 1, body: "", spaceKey: "SYNC" });
+  const originalGet = pages.get.bind(pages);
+  pages.get = (id: string) => (id === "9" ? undefined : originalGet(id));
+
+  const result = await syncSpace(null, "SYNC", outputDir);
+
+  expect(result.failed.map((f) => f.pageId)).toEqual(["9"]);
+  const after = JSON.parse(await fs.readFile(path.join(outputDir, ".sync-manifest.json"), "utf8"));
+  expect(after.spaces.SYNC.lastSyncedAt).toBe(before.spaces.SYNC.lastSyncedAt);
+
+  await fs.rm(outputDir, { recursive: true, force: true });
+  process.env = originalEnv;
+});
+
+test("syncSpace - applies the label filter and retires pages that become excluded", async () => {
+  pages.set("1", { id: "1", title: "Alpha", version: 1, body: "<p>a</p>", spaceKey: "SYNC", labels: ["public"] });
+  pages.set("2", { id: "2", title: "Beta", version: 1, body: "<p>b</p>", spaceKey: "SYNC", labels: ["public", "draft"] });
+  pages.set("3", { id: "3", title: "Gamma", version: 1, body: "<p>c</p>", spaceKey: "SYNC" });
+  const { syncSpace } = await import("../src/index.ts");
+  const sinkDeletes: string[] = [];
+  const sink = { name: "stub", write: async () => {}, deletePages: async (ids: string[]) => { sinkDeletes.push(...ids); }, close: async () => {} };
+  const scrapeOptions = { labels: { include: ["public"], exclude: ["draft"] }, sinks: [sink] };
+
+  const first = await syncSpace(null, "SYNC", outputDir, { scrapeOptions });
+  expect(first.added).toEqual(["1"]);
+  expect(await exists(path.join(outputDir, "SYNC", "Beta"))).toBe(false);
+  expect(requestedPaths.find((p) => p.startsWith("/wiki/rest/api/content?"))).toContain("expand=metadata.labels");
+
+  // Alpha changes and becomes a draft, Gamma changes but still has no matching label
+  requestedPaths.length = 0;
+  pages.set("1", { id: "1", title: "Alpha", version: 2, body: "<p>a2</p>", spaceKey: "SYNC", labels: ["public", "draft"] });
+  pages.set("3", { id: "3", title: "Gamma", version: 2, body: "<p>c2</p>", spaceKey: "SYNC" });
+  const second = await syncSpace(null, "SYNC", outputDir, { scrapeOptions });
+
+  expect(scrapedPageIds()).toEqual([]);
+  expect(second.added).toEqual([]);
+  expect(second.updated).toEqual([]);
+  expect(requestedPaths.find((p) => p.startsWith("/wiki/rest/api/content/search?"))).toContain("expand=version,metadata.labels");
+  // The new draft leaves the knowledge base like a deleted page, without a lookup
+  expect(second.removed).toEqual([{ pageId: "1", reason: "excluded", outputPath: path.join(outputDir, "SYNC", "Alpha") }]);
+  expect(requestedPaths.some((p) => p.startsWith("/wiki/rest/api/content/1?"))).toBe(false);
+  expect(sinkDeletes).toEqual(["1"]);
+  expect(await exists(path.join(outputDir, "SYNC", "Alpha", "content.html"))).toBe(false);
+  const tombstone = JSON.parse(await fs.readFile(path.join(outputDir, "SYNC", "Alpha", "tombstone.json"), "utf8"));
+  expect(tombstone).toMatchObject({ pageId: "1", reason: "excluded", lastVersion: 1 });
+  const manifest = JSON.parse(await fs.readFile(path.join(outputDir, ".sync-manifest.json"), "utf8"));
+  expect(Object.keys(manifest.pages)).toEqual([]);
+
+  // Without the filter the same run picks everything up again
+  const third = await syncSpace(null, "SYNC", outputDir, { scrapeOptions: { labels: {} } });
+  expect(third.added.sort()).toEqual(["1", "2", "3"]);
+  expect(await fs.readFile(path.join(outputDir, "SYNC", "Alpha", "content.html"), "utf8")).toBe("<p>a2</p>");
+
+  await fs.rm(outputDir, { recursive: true, force: true });
+  process.env = originalEnv;
+});
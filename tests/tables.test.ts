@@ -0,0 +1,114 @@
+import { test, expect, spyOn } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+test("parseTable - expands colspan and rowspan into every covered slot", async () => {
+  const { parseTable } = await import("../src/tables.ts");
+  const { parseStorageFormat } = await import("../src/storage.ts");
+
+  const table = parseStorageFormat(`
+    <table><tbody>
+      <tr><th rowspan="2">Service</th><th colspan="2">Limits</th></tr>
+      <tr><th>CPU</th><th>Memory</th></tr>
+      <tr><td rowspan="2">api</td><td>2</td><td>4Gi</td></tr>
+      <tr><td colspan="2">shared</td></tr>
+    </tbody></table>
+  `).querySelector("table");
+
+  const model = parseTable(table as any);
+
+  expect(model.rows).toEqual([
+    ["Service", "Limits", "Limits"],
+    ["Service", "CPU", "Memory"],
+    ["api", "2", "4Gi"],
+    ["api", "shared", "shared"],
+  ]);
+  expect(model.headerRows).toBe(2);
+  expect(model.headers).toEqual(["Service", "Limits / CPU", "Limits / Memory"]);
+  expect(model.spans).toEqual([
+    { row: 0, column: 0, rowSpan: 2, colSpan: 1 },
+    { row: 0, column: 1, rowSpan: 1, colSpan: 2 },
+    { row: 2, column: 0, rowSpan: 2, colSpan: 1 },
+    { row: 3, column: 1, rowSpan: 1, colSpan: 2 },
+  ]);
+});
+
+test("parseTable - header column, lists and links in cells", async () => {
+  const { parseTable, renderTableText } = await import("../src/tables.ts");
+  const { parseStorageFormat } = await import("../src/storage.ts");
+
+  const table = parseStorageFormat(`
+    <table><tbody>
+      <tr><th>Owner</th><td><a href="https://example.com/team">Platform</a></td></tr>
+      <tr><th>Regions</th><td><ul><li>eu-west-1</li><li>us-east-1</li></ul></td></tr>
+    </tbody></table>
+  `).querySelector("table");
+
+  const model = parseTable(table as any);
+
+  expect(model.headerRows).toBe(0);
+  expect(model.headerColumn).toBe(true);
+  expect(model.rows[1]).toEqual(["Regions", "- eu-west-1\n- us-east-1"]);
+  expect(model.links).toEqual([{ row: 0, column: 1, text: "Platform", href: "https://example.com/team" }]);
+  expect(renderTableText(model)).toBe("Owner: Platform\nRegions: - eu-west-1; - us-east-1\n");
+});
+
+test("extractTables - nested tables are separate and linked to their parent", async () => {
+  const { extractTables, tableToCsv } = await import("../src/tables.ts");
+  const { parseStorageFormat } = await import("../src/storage.ts");
+
+  const tables = extractTables(parseStorageFormat(`
+    <table>
+      <tr><th>Env</th><th>Settings</th></tr>
+      <tr><td>prod, "eu"</td><td><p>See:</p><table><tr><td>a</td><td>b</td></tr></table></td></tr>
+    </table>
+  `));
+
+  expect(tables.map((t) => [t.index, t.parentIndex])).toEqual([[1, null], [2, 1]]);
+  expect(tables[0]?.rows).toEqual([["Env", "Settings"], ['prod, "eu"', "See:"]]);
+  expect(tableToCsv(tables[0] as any)).toBe('Env,Settings\n"prod, ""eu""",See:\n');
+  expect(tables[1]?.rows).toEqual([["a", "b"]]);
+});
+
+test("scrapePage - writes each table as CSV and JSON", async () => {
+  const previousFetch = global.fetch;
+  const originalEnv = process.env;
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "tables-test-"));
+  process.env = { ...originalEnv, AUTH_METHOD: "pat", CONFLUENCE_PAT: "token", CONFLUENCE_RATE_LIMIT: "0" };
+
+  global.fetch = (async (input: string | URL) => {
+    const url = String(input);
+    if (url.includes("/child/attachment")) {
+      return new Response(JSON.stringify({ results: [] }), { status: 200 });
+    }
+    return new Response(JSON.stringify({
+      id: "42",
+      title: "Matrix",
+      space: { key: "OPS" },
+      version: { number: 1, by: { displayName: "Stub" } },
+      body: { storage: { value: "<table><tr><th>Key</th><th>Value</th></tr><tr><td>a</td><td>1</td></tr></table>" } },
+    }), { status: 200 });
+  }) as any;
+  const log = spyOn(console, "log").mockImplementation(() => {});
+
+  try {
+    const { scrapePage } = await import("../src/index.ts");
+    const result = await scrapePage(null, "42", outputDir);
+
+    const tablesDir = path.join(result?.outputDir as string, "tables");
+    expect((await fs.readdir(tablesDir)).sort()).toEqual(["table-1.csv", "table-1.json"]);
+    expect(await fs.readFile(path.join(tablesDir, "table-1.csv"), "utf8")).toBe("Key,Value\na,1\n");
+    const json = JSON.parse(await fs.readFile(path.join(tablesDir, "table-1.json"), "utf8"));
+    expect(json.headers).toEqual(["Key", "Value"]);
+
+    // A scrape without the tables format leaves the earlier tables alone
+    await scrapePage(null, "42", outputDir, { formats: ["html"] });
+    expect((await fs.readdir(tablesDir)).sort()).toEqual(["table-1.csv", "table-1.json"]);
+  } finally {
+    log.mockRestore();
+    global.fetch = previousFetch;
+    process.env = originalEnv;
+    await fs.rm(outputDir, { recursive: true, force: true });
+  }
+});
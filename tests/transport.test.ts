@@ -0,0 +1,174 @@
+import { test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { createHash, createHmac } from "node:crypto";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  search: string;
+  authorization: string | null;
+}
+
+const requests: RecordedRequest[] = [];
+const originalEnv = process.env;
+const previousFetch = global.fetch;
+let server: ReturnType<typeof Bun.serve>;
+
+beforeAll(() => {
+  // Other test files replace global fetch with a mock; talk to the stub server for real
+  global.fetch = Bun.fetch as any;
+
+  server = Bun.serve({
+    port: 0,
+    fetch(req) {
+      const url = new URL(req.url);
+      requests.push({
+        method: req.method,
+        path: url.pathname,
+        search: url.search,
+        authorization: req.headers.get("authorization"),
+      });
+
+      if (url.pathname === "/wiki/rest/api/content/123") {
+        return Response.json({ id: "123", title: "Stub Page", version: { number: 1 } });
+      }
+      if (url.pathname === "/wiki/rest/api/content/att1") {
+        return Response.json({ id: "att1", title: "file.txt", container: { id: "123" } });
+      }
+      if (url.pathname === "/wiki/download/attachments/123/file.txt") {
+        return new Response("attachment body");
+      }
+      if (url.pathname === "/wiki/rest/api/content" && url.searchParams.get("start") === "0") {
+        return Response.json({
+          results: [{ id: "p1", title: "One" }],
+          size: 1,
+          _links: { next: "/rest/api/content?spaceKey=STUB&start=1" },
+        });
+      }
+      if (url.pathname === "/wiki/rest/api/content") {
+        return Response.json({ results: [{ id: "p2", title: "Two" }], size: 1 });
+      }
+      return new Response("not found", { status: 404 });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+  global.fetch = previousFetch;
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  process.env = {
+    ...originalEnv,
+    CONFLUENCE_HOST: `http://localhost:${server.port}`,
+  };
+});
+
+function useAuth(envVars: Record<string, string>) {
+  process.env = { ...process.env, ...envVars };
+}
+
+test("transport - basic auth header on API requests", async () => {
+  useAuth({ AUTH_METHOD: "basic", CONFLUENCE_EMAIL: "me@example.com", CONFLUENCE_API_TOKEN: "secret" });
+  const { fetchDirectly } = await import("../src/index.ts");
+
+  const page = await fetchDirectly("/content/123");
+
+  expect(page.title).toBe("Stub Page");
+  expect(requests[0]?.authorization).toBe(
+    `Basic ${Buffer.from("me@example.com:secret").toString("base64")}`,
+  );
+  process.env = originalEnv;
+});
+
+test("transport - oauth2 bearer token", async () => {
+  useAuth({ AUTH_METHOD: "oauth2", CONFLUENCE_ACCESS_TOKEN: "oauth-token" });
+  const { fetchDirectly } = await import("../src/index.ts");
+
+  await fetchDirectly("/content/123");
+
+  expect(requests[0]?.authorization).toBe("Bearer oauth-token");
+  process.env = originalEnv;
+});
+
+test("transport - personal access token", async () => {
+  useAuth({ AUTH_METHOD: "pat", CONFLUENCE_PAT: "my-pat" });
+  const { getPageContent } = await import("../src/index.ts");
+
+  const page = await getPageContent(null, "123");
+
+  expect(page.id).toBe("123");
+  expect(requests[0]?.authorization).toBe("Bearer my-pat");
+  process.env = originalEnv;
+});
+
+test("transport - jwt signed with query string hash", async () => {
+  useAuth({
+    AUTH_METHOD: "jwt",
+    CONFLUENCE_JWT_ISSUER: "my-app",
+    CONFLUENCE_JWT_SECRET: "shared-secret",
+    CONFLUENCE_JWT_EXPIRY: "60",
+  });
+  const { fetchDirectly } = await import("../src/index.ts");
+
+  await fetchDirectly("/content/123?expand=body.storage,version&status=current");
+
+  const header = requests[0]?.authorization || "";
+  expect(header.startsWith("JWT ")).toBe(true);
+
+  const [encodedHeader, encodedPayload, signature] = header.slice(4).split(".");
+  const expectedSignature = createHmac("sha256", "shared-secret")
+    .update(`${encodedHeader}.${encodedPayload}`)
+    .digest("base64url");
+  expect(signature).toBe(expectedSignature);
+
+  const payload = JSON.parse(Buffer.from(encodedPayload || "", "base64url").toString());
+  const expectedQsh = createHash("sha256")
+    .update("GET&/rest/api/content/123&expand=body.storage%2Cversion&status=current")
+    .digest("hex");
+  expect(payload.iss).toBe("my-app");
+  expect(payload.exp - payload.iat).toBe(60);
+  expect(payload.qsh).toBe(expectedQsh);
+  process.env = originalEnv;
+});
+
+test("transport - pagination follows next links with auth", async () => {
+  useAuth({ AUTH_METHOD: "pat", CONFLUENCE_PAT: "my-pat" });
+  const { getAllPagesInSpace } = await import("../src/index.ts");
+
+  const pages = await getAllPagesInSpace(null, "STUB");
+
+  expect(pages.map((page) => page.id)).toEqual(["p1", "p2"]);
+  expect(requests).toHaveLength(2);
+  requests.forEach((request) => expect(request.authorization).toBe("Bearer my-pat"));
+  process.env = originalEnv;
+});
+
+test("transport - attachment downloads use the configured auth", async () => {
+  useAuth({ AUTH_METHOD: "oauth2", CONFLUENCE_ACCESS_TOKEN: "oauth-token" });
+  const { downloadAttachment } = await import("../src/index.ts");
+  const targetDir = await fs.mkdtemp(path.join(os.tmpdir(), "transport-test-"));
+
+  const filePath = await downloadAttachment(null, "att1", targetDir);
+
+  expect(filePath).toBe(path.join(targetDir, "file.txt"));
+  expect(await fs.readFile(filePath as string, "utf8")).toBe("attachment body");
+  expect(requests.map((request) => request.path)).toContain("/wiki/download/attachments/123/file.txt");
+  requests.forEach((request) => expect(request.authorization).toBe("Bearer oauth-token"));
+
+  await fs.rm(targetDir, { recursive: true, force: true });
+  process.env = originalEnv;
+});
+
+test("transport - unsupported auth method", async () => {
+  useAuth({ AUTH_METHOD: "kerberos" });
+  const { fetchDirectly } = await import("../src/index.ts");
+
+  await expect(fetchDirectly("/content/123")).rejects.toThrow("Unsupported authentication method");
+  expect(requests).toHaveLength(0);
+  process.env = originalEnv;
+});
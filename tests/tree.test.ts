@@ -0,0 +1,172 @@
+import { test, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+interface StubPage {
+  id: string;
+  title: string;
+  parentId?: string;
+  labels?: string[];
+}
+
+const originalEnv = process.env;
+const previousFetch = global.fetch;
+const pages: StubPage[] = [
+  { id: "1", title: "Handbook" },
+  { id: "2", title: "Runbooks", parentId: "1", labels: ["draft"] },
+  { id: "3", title: "attachments", parentId: "1" },
+  { id: "4", title: "Failover", parentId: "2", labels: ["public", "ops"] },
+  { id: "5", title: "DNS", parentId: "4" },
+];
+let server: ReturnType<typeof Bun.serve>;
+let outputDir: string;
+
+function labelsOf(page: StubPage) {
+  return { labels: { results: (page.labels || []).map((name) => ({ prefix: "global", name })) } };
+}
+
+function ancestorsOf(page: StubPage): StubPage[] {
+  const chain: StubPage[] = [];
+  let parent = pages.find((p) => p.id === page.parentId);
+  while (parent) {
+    chain.unshift(parent);
+    parent = pages.find((p) => p.id === parent?.parentId);
+  }
+  return chain;
+}
+
+beforeAll(() => {
+  global.fetch = Bun.fetch as any;
+
+  server = Bun.serve({
+    port: 0,
+    fetch(req) {
+      const url = new URL(req.url);
+
+      const children = url.pathname.match(/^\/wiki\/rest\/api\/content\/([^/]+)\/child\/page$/);
+      if (children) {
+        const results = pages
+          .filter((p) => p.parentId === children[1])
+          .map((p) => ({ id: p.id, title: p.title, metadata: labelsOf(p) }));
+        return Response.json({ results, size: results.length });
+      }
+      if (url.pathname.endsWith("/child/attachment")) {
+        return Response.json({ results: [] });
+      }
+
+      const content = url.pathname.match(/^\/wiki\/rest\/api\/content\/([^/]+)$/);
+      const page = pages.find((p) => p.id === content?.[1]);
+      if (!page) return new Response("not found", { status: 404 });
+
+      return Response.json({
+        id: page.id,
+        title: page.title,
+        body: { storage: { value: `<p>${page.title}</p>` } },
+        space: { key: "DOCS" },
+        ancestors: ancestorsOf(page).map(({ id, title }) => ({ id, title })),
+        metadata: labelsOf(page),
+        version: { number: 1, when: "2024-01-01T00:00:00.000Z", by: { displayName: "Stub" } },
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+  global.fetch = previousFetch;
+});
+
+beforeEach(async () => {
+  outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "tree-test-"));
+  process.env = {
+    ...originalEnv,
+    AUTH_METHOD: "pat",
+    CONFLUENCE_PAT: "token",
+    CONFLUENCE_HOST: `http://localhost:${server.port}`,
+    CONFLUENCE_RATE_LIMIT: "0",
+  };
+});
+
+async function readMetadata(...segments: string[]) {
+  return JSON.parse(await fs.readFile(path.join(outputDir, "DOCS", ...segments, "metadata.json"), "utf8"));
+}
+
+test("scrapePageTree - mirrors the hierarchy in nested directories", async () => {
+  const { scrapePageTree } = await import("../src/index.ts");
+
+  const result = await scrapePageTree(null, "1", outputDir, { pageConcurrency: 2 });
+
+  expect(result.failed).toEqual([]);
+  expect(result.scraped.map((p) => [p.pageId, p.depth])).toEqual([
+    ["1", 0],
+    ["2", 1],
+    ["3", 1],
+    ["4", 2],
+    ["5", 3],
+  ]);
+  expect(result.scraped[4]?.outputDir).toBe(path.join(outputDir, "DOCS", "Handbook", "Runbooks", "Failover", "DNS"));
+
+  // A child titled like one of the page's own entries must not clash with it
+  expect(result.scraped[2]?.outputDir).toBe(path.join(outputDir, "DOCS", "Handbook", "attachments-3"));
+
+  await fs.rm(outputDir, { recursive: true, force: true });
+  process.env = originalEnv;
+});
+
+test("scrapePageTree - records parent id and ancestor chain", async () => {
+  const { scrapePageTree } = await import("../src/index.ts");
+
+  await scrapePageTree(null, "1", outputDir);
+
+  const root = await readMetadata("Handbook");
+  expect(root.parentId).toBeNull();
+  expect(root.ancestors).toEqual([]);
+
+  const leaf = await readMetadata("Handbook", "Runbooks", "Failover", "DNS");
+  expect(leaf.parentId).toBe("4");
+  expect(leaf.ancestors).toEqual([
+    { id: "1", title: "Handbook" },
+    { id: "2", title: "Runbooks" },
+    { id: "4", title: "Failover" },
+  ]);
+
+  await fs.rm(outputDir, { recursive: true, force: true });
+  process.env = originalEnv;
+});
+
+test("scrapePageTree - honors the max depth", async () => {
+  const { scrapePageTree } = await import("../src/index.ts");
+
+  const result = await scrapePageTree(null, "2", outputDir, { maxDepth: 1 });
+
+  expect(result.scraped.map((p) => p.pageId)).toEqual(["2", "4"]);
+  expect(result.scraped[1]?.outputDir).toBe(path.join(outputDir, "DOCS", "Runbooks", "Failover"));
+
+  await fs.rm(outputDir, { recursive: true, force: true });
+  process.env = originalEnv;
+});
+
+test("scrapePageTree - unknown root page is raised", async () => {
+  const { scrapePageTree } = await import("../src/index.ts");
+
+  await expect(scrapePageTree(null, "404", outputDir)).rejects.toThrow("HTTP error! status: 404");
+
+  await fs.rm(outputDir, { recursive: true, force: true });
+  process.env = originalEnv;
+});
+
+test("scrapePageTree - label filters skip pages but still walk their children", async () => {
+  const { scrapePageTree } = await import("../src/index.ts");
+
+  const excluded = await scrapePageTree(null, "1", outputDir, { labels: { exclude: ["DRAFT"] } });
+  expect(excluded.scraped.map((p) => p.pageId)).toEqual(["1", "3", "4", "5"]);
+  expect((await readMetadata("Handbook", "Runbooks", "Failover")).labels).toEqual(["public", "ops"]);
+
+  process.env.CONFLUENCE_INCLUDE_LABELS = "public";
+  const included = await scrapePageTree(null, "1", outputDir);
+  expect(included.scraped.map((p) => p.pageId)).toEqual(["4"]);
+
+  await fs.rm(outputDir, { recursive: true, force: true });
+  process.env = originalEnv;
+});
@@ -1,6 +1,5 @@
 import { test, expect, mock, spyOn } from "bun:test";
 import fs from "node:fs/promises";
-import path from "node:path";
 
 test("sanitizeFilename - removes invalid characters", async () => {
   const { sanitizeFilename } = await import("../src/index.ts");
@@ -223,6 +222,34 @@ test("validateConfiguration - successful validation", async () => {
   process.env = originalEnv;
 });
 
+test("validateConfiguration - only the auth method's credentials and the configured target", async () => {
+  const originalEnv = process.env;
+  process.env = {
+    AUTH_METHOD: "pat",
+    CONFLUENCE_HOST: "https://test.atlassian.net",
+    CONFLUENCE_PAT: "test-pat",
+    CONFLUENCE_SPACE_KEY: "TEST"
+  };
+
+  const mockClient = {
+    space: {
+      getSpace: mock().mockResolvedValue({ key: "TEST", name: "Test Space" })
+    },
+    content: {
+      getContentById: mock()
+    }
+  };
+
+  const { validateConfiguration } = await import("../src/index.ts");
+
+  const result = await validateConfiguration(mockClient);
+
+  expect(result).toBe(true);
+  expect(mockClient.space.getSpace).toHaveBeenCalledWith({ spaceKey: "TEST" });
+  expect(mockClient.content.getContentById).not.toHaveBeenCalled();
+  process.env = originalEnv;
+});
+
 test("validateConfiguration - API error", async () => {
   const originalEnv = process.env;
   process.env = {
@@ -253,6 +280,33 @@ test("validateConfiguration - API error", async () => {
   process.env = originalEnv;
 });
 
+// Serve each search request the next response in line, recording the requested URLs
+function stubSearch(responses: (object | Response)[]): { urls: URL[]; restore: () => void } {
+  const originalEnv = process.env;
+  const previousFetch = global.fetch;
+  const urls: URL[] = [];
+  process.env = {
+    ...originalEnv,
+    AUTH_METHOD: "pat",
+    CONFLUENCE_HOST: "https://test.atlassian.net",
+    CONFLUENCE_PAT: "test-pat",
+    CONFLUENCE_RATE_LIMIT: "0",
+    CONFLUENCE_MAX_RETRIES: "0",
+  };
+  global.fetch = (async (input: string | URL) => {
+    urls.push(new URL(String(input)));
+    const next = responses.shift();
+    return next instanceof Response ? next : new Response(JSON.stringify(next), { status: 200 });
+  }) as any;
+  return {
+    urls,
+    restore: () => {
+      global.fetch = previousFetch;
+      process.env = originalEnv;
+    },
+  };
+}
+
 test("searchPages - successful search", async () => {
   const mockSearchResponse = {
     results: [
@@ -260,71 +314,128 @@ test("searchPages - successful search", async () => {
       { id: "page2", title: "Search Result 2" }
     ],
     size: 2,
-    totalSize: 2,
     start: 0
   };
+  const stub = stubSearch([mockSearchResponse]);
+
+  try {
+    const { searchPages } = await import("../src/index.ts");
+
+    const result = await searchPages(null, "test query");
+
+    expect(result).toEqual(mockSearchResponse.results);
+    expect(stub.urls).toHaveLength(1);
+    expect(stub.urls[0]?.pathname).toBe("/wiki/rest/api/content/search");
+    expect(Object.fromEntries(stub.urls[0]?.searchParams ?? [])).toEqual({
+      cql: 'text ~ "test query"',
+      start: "0",
+      limit: "50",
+      expand: "version",
+    });
+  } finally {
+    stub.restore();
+  }
+});
 
-  const mockClient = {
-    search: {
-      search: mock().mockResolvedValue(mockSearchResponse)
-    }
-  };
+test("searchPages - search with pagination", async () => {
+  const stub = stubSearch([
+    {
+      results: [{ id: "page1", title: "Result 1" }],
+      size: 1,
+      start: 0,
+      _links: { next: "/rest/api/content/search?cql=text&start=1&limit=1" }
+    },
+    { results: [{ id: "page2", title: "Result 2" }], size: 1, start: 1 },
+  ]);
 
-  const { searchPages } = await import("../src/index.ts");
-  
-  const result = await searchPages(mockClient, "test query");
-
-  expect(result).toEqual(mockSearchResponse.results);
-  expect(mockClient.search.search).toHaveBeenCalledWith({
-    cql: 'text ~ "test query"',
-    start: 0,
-    limit: 50,
-    expand: ["version"]
-  });
+  try {
+    const { searchPages } = await import("../src/index.ts");
+
+    const result = await searchPages(null, "test query", 0, 1);
+
+    expect(result).toHaveLength(2);
+    expect(result[0].id).toBe("page1");
+    expect(result[1].id).toBe("page2");
+    expect(stub.urls[1]?.searchParams.get("start")).toBe("1");
+  } finally {
+    stub.restore();
+  }
 });
 
-test("searchPages - search with pagination", async () => {
-  const firstPageResponse = {
-    results: [{ id: "page1", title: "Result 1" }],
-    size: 1,
-    totalSize: 2,
-    start: 0
-  };
+test("searchPages - follows cursor tokens from next links", async () => {
+  const stub = stubSearch([
+    {
+      results: [{ id: "page1" }],
+      size: 1,
+      _links: { next: "/rest/api/content/search?cql=text&cursor=abc123&limit=1" }
+    },
+    { results: [{ id: "page2" }], size: 1 },
+  ]);
 
-  const secondPageResponse = {
-    results: [{ id: "page2", title: "Result 2" }],
-    size: 1,
-    totalSize: 2,
-    start: 1
-  };
+  try {
+    const { searchPages } = await import("../src/index.ts");
 
-  const mockClient = {
-    search: {
-      search: mock()
-        .mockResolvedValueOnce(firstPageResponse)
-        .mockResolvedValueOnce(secondPageResponse)
-    }
-  };
+    const result = await searchPages(null, "test query", 0, 1);
 
-  const { searchPages } = await import("../src/index.ts");
-  
-  const result = await searchPages(mockClient, "test query", 0, 1);
+    expect(result.map((r: any) => r.id)).toEqual(["page1", "page2"]);
+    expect(stub.urls[1]?.pathname).toBe("/wiki/rest/api/content/search");
+    expect(stub.urls[1]?.searchParams.get("cursor")).toBe("abc123");
+  } finally {
+    stub.restore();
+  }
+});
+
+test("searchPages - goes through the transport with the configured auth", async () => {
+  const stub = stubSearch([{ results: [] }]);
+  const headers: Headers[] = [];
+  const stubFetch = global.fetch;
+  global.fetch = (async (input: string | URL, init?: RequestInit) => {
+    headers.push(new Headers(init?.headers));
+    return stubFetch(input, init);
+  }) as any;
+
+  try {
+    const { searchPages } = await import("../src/index.ts");
 
-  expect(result).toHaveLength(2);
-  expect(result[0].id).toBe("page1");
-  expect(result[1].id).toBe("page2");
+    await searchPages(null, "test query");
+
+    expect(headers[0]?.get("authorization")).toBe("Bearer test-pat");
+  } finally {
+    stub.restore();
+  }
+});
+
+test("searchPages - escapes text and accepts structured queries", async () => {
+  const stub = stubSearch([
+    { results: [] },
+    { results: [{ content: { id: "page1", title: "Runbook", type: "page" }, excerpt: "..." }] },
+  ]);
+
+  try {
+    const { searchPages } = await import("../src/index.ts");
+
+    await searchPages(null, 'the "quoted" term');
+    expect(stub.urls[0]?.searchParams.get("cql")).toBe('text ~ "the \\"quoted\\" term"');
+
+    const result = await searchPages(null, { space: "OPS", label: "runbook" });
+    expect(stub.urls[1]?.searchParams.get("cql")).toBe('space = "OPS" and label = "runbook"');
+    // Search hits are unwrapped to the content objects scrapePage works with
+    expect(result).toEqual([{ id: "page1", title: "Runbook", type: "page" }]);
+  } finally {
+    stub.restore();
+  }
 });
 
 test("searchPages - search error", async () => {
-  const mockClient = {
-    search: {
-      search: mock().mockRejectedValue(new Error("Search failed"))
-    }
-  };
+  const stub = stubSearch([new Response("Bad CQL", { status: 400 })]);
+  const error = spyOn(console, "error").mockImplementation(() => {});
 
-  const { searchPages } = await import("../src/index.ts");
-  
-  const result = await searchPages(mockClient, "test query");
+  try {
+    const { searchPages } = await import("../src/index.ts");
 
-  expect(result).toEqual([]);
+    await expect(searchPages(null, "test query")).rejects.toThrow("HTTP error! status: 400");
+  } finally {
+    error.mockRestore();
+    stub.restore();
+  }
 });